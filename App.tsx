@@ -1,7 +1,41 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useMemo } from 'react';
 import BioFilter3D from './components/BioFilter3D';
-import { askBiomimicryExpert } from './services/geminiService';
-import { SimulationState, ChatMessage, ViewMode } from './types';
+import GeometryPanel from './components/GeometryPanel';
+import ScenarioPanel from './components/ScenarioPanel';
+import ReplayTimeline from './components/ReplayTimeline';
+import ExportPanel from './components/ExportPanel';
+import CutSizePanel from './components/CutSizePanel';
+import WashCyclePanel from './components/WashCyclePanel';
+import SludgeTankPanel from './components/SludgeTankPanel';
+import CascadePanel from './components/CascadePanel';
+import SectionPanel from './components/SectionPanel';
+import PerformancePanel from './components/PerformancePanel';
+import ParticleInspector from './components/ParticleInspector';
+import TourPanel from './components/TourPanel';
+import TourCaption from './components/TourCaption';
+import QuizPanel, { QuizRequest } from './components/QuizPanel';
+import MetricsDashboard from './components/MetricsDashboard';
+import { askBiomimicryExpert, activeProvider } from './services/biomimicryExpert';
+import { AIProviderError, AIToolCall, describeAIError } from './services/aiProvider';
+import { createSimulationToolHandler } from './services/simulationTools';
+import { createScenario } from './services/scenarioService';
+import { getTourStepState } from './services/tourService';
+import { SceneCapture } from './services/sceneExport';
+import { createEmptySeparation, appendMetrics } from './simulation/metrics';
+import { CONTAMINANT_PRESETS, DEFAULT_MIX, getMixWeight } from './simulation/population';
+import { CONTAMINANTS, ContaminantShape, WATER, WATER_STYLE } from './simulation/contaminants';
+import { createSimulationSnapshot } from './simulation/snapshot';
+import { createRunRecorder, createReplayModel, ReplayModel, RunRecording } from './simulation/recording';
+import { GEOMETRY_PRESETS, DEFAULT_GEOMETRY } from './simulation/filterGeometry';
+import { DEFAULT_SIZE_DISTRIBUTIONS } from './simulation/particleSizes';
+import { WashCycleRun, WashProgram, FabricType, startWashCycle, advanceWashCycle } from './simulation/washCycle';
+import { createSludgeTank, advanceSludgeTank, configureSludgeTank, emptySludgeTank } from './simulation/sludgeTank';
+import { DEFAULT_CASCADE } from './simulation/cascadeEngine';
+import { DEFAULT_SECTION, FlowSummary } from './simulation/flowField';
+import { createParticleTracker } from './simulation/particleTracker';
+import { DEFAULT_PERFORMANCE } from './simulation/qualityGovernor';
+import { QuizRun, QuizQuestion, QuizPrediction, QuizSettings, QuizSettingsState, startQuizRun, advanceQuizRun, restartQuizStage, stopQuizRun } from './simulation/quiz';
+import { SimulationState, ChatMessage, ViewMode, FilterGeometry, FilterMetrics, CameraFocus, CameraPose, Scenario, SizeDistributions, CascadeStage, CascadeMetrics, SectionSettings, PerformanceSettings, PerformanceReadings, Tour } from './types';
 import { 
   Play, 
   Pause, 
@@ -9,25 +43,79 @@ import {
   Settings2, 
   MessageSquare, 
   Send,
-  Loader2,
+  Square,
   Droplets,
+  Gauge,
   ShieldAlert,
   Sprout,
   Factory,
   CheckCircle2,
-  XOctagon
+  XOctagon,
+  Grid3x3,
+  Layers
 } from 'lucide-react';
 
+// Finished washing-machine cycles kept for the panel and the housing labels
+const MAX_COMPLETED_CYCLES = 5;
+
+// Legend swatch outline for each particle shape
+const LEGEND_SHAPES: Record<ContaminantShape, string> = {
+  sphere: 'rounded-full',
+  box: 'rounded-sm',
+  icosahedron: 'rounded-sm',
+  tetrahedron: 'rotate-45 rounded-[1px]',
+  octahedron: 'rotate-45 rounded-[1px]',
+  dodecahedron: 'rotate-45 rounded-[1px]'
+};
+
 export default function App() {
   // State
   const [simulationState, setSimulationState] = useState<SimulationState>({
     flowRate: 1.0,
     particleDensity: 300,
-    efficiency: 99,
-    isRunning: true
+    efficiency: 0,
+    isRunning: true,
+    separation: createEmptySeparation(),
+    contaminantMix: DEFAULT_MIX,
+    particleSizes: DEFAULT_SIZE_DISTRIBUTIONS
   });
   
   const [viewMode, setViewMode] = useState<ViewMode>('NATURE');
+  const [geometry, setGeometry] = useState<FilterGeometry>(DEFAULT_GEOMETRY);
+  const [metricsHistory, setMetricsHistory] = useState<FilterMetrics[]>([]);
+  const [sieveHistory, setSieveHistory] = useState<FilterMetrics[]>([]);
+  const [cameraFocus, setCameraFocus] = useState<CameraFocus | null>(null);
+  const cameraPose = useRef<(() => CameraPose) | null>(null);
+  const sceneCapture = useRef<SceneCapture | null>(null);
+
+  const recorder = useMemo(() => createRunRecorder(), []);
+  const [isRecording, setIsRecording] = useState(false);
+  const [recording, setRecording] = useState<RunRecording | null>(null);
+  const [replay, setReplay] = useState<ReplayModel | null>(null);
+  const tracker = useMemo(() => createParticleTracker(), []);
+
+  const [washCycle, setWashCycle] = useState<WashCycleRun | null>(null);
+  const [completedCycles, setCompletedCycles] = useState<WashCycleRun[]>([]);
+  const [sludgeTank, setSludgeTank] = useState(() => createSludgeTank());
+
+  const [cascadeStages, setCascadeStages] = useState<CascadeStage[]>(DEFAULT_CASCADE);
+  const [cascadeMetrics, setCascadeMetrics] = useState<CascadeMetrics | null>(null);
+
+  const [section, setSection] = useState<SectionSettings>(DEFAULT_SECTION);
+  const [sectionSummary, setSectionSummary] = useState<FlowSummary | null>(null);
+
+  const [performance, setPerformance] = useState<PerformanceSettings>(DEFAULT_PERFORMANCE);
+  const [performanceReadings, setPerformanceReadings] = useState<PerformanceReadings | null>(null);
+
+  // Guided tour being played and the step on screen
+  const [tour, setTour] = useState<{ tour: Tour; index: number } | null>(null);
+
+  // Quiz experiment being measured, and BioGuide's latest request to open a question
+  const [quizRun, setQuizRun] = useState<QuizRun | null>(null);
+  const [quizRequest, setQuizRequest] = useState<QuizRequest | null>(null);
+  // The metrics callback is stable, so the quiz reads the settings it grades against from here
+  const quizSettings = useRef<QuizSettingsState>({ simulationState, geometry });
+  quizSettings.current = { simulationState, geometry };
 
   const [chatOpen, setChatOpen] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([
@@ -36,49 +124,280 @@ export default function App() {
   const [input, setInput] = useState('');
   const [isTyping, setIsTyping] = useState(false);
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const replyAbort = useRef<AbortController | null>(null);
+
+  // Contaminants in the current mix, in registry order; they drive the legend and the separation readout
+  const activeContaminants = CONTAMINANTS.filter(c => getMixWeight(simulationState.contaminantMix, c.id) > 0);
+  // Water reports recovery, solids report capture
+  const separationRows = [
+    { type: WATER, label: WATER_STYLE.label, color: WATER_STYLE.color },
+    ...activeContaminants.map(c => ({ type: c.id, label: c.label, color: c.color }))
+  ];
 
   const toggleSimulation = () => {
     setSimulationState(prev => ({ ...prev, isRunning: !prev.isRunning }));
   };
 
+  const handleMetrics = useCallback((metrics: FilterMetrics) => {
+    setSimulationState(prev => ({ ...prev, efficiency: metrics.efficiency, separation: metrics.separation }));
+    setMetricsHistory(prev => appendMetrics(prev, metrics));
+    // A finished cycle keeps its final counts until the next one starts
+    setWashCycle(run => run && !run.state.done ? advanceWashCycle(run, metrics) : run);
+    setSludgeTank(tank => advanceSludgeTank(tank, metrics));
+    setQuizRun(run => run && advanceQuizRun(run, metrics, quizSettings.current));
+  }, []);
+
+  const handleSieveMetrics = useCallback((metrics: FilterMetrics) => {
+    setSieveHistory(prev => appendMetrics(prev, metrics));
+  }, []);
+
+  const handleCascadeMetrics = useCallback((metrics: CascadeMetrics) => {
+    setCascadeMetrics(metrics);
+  }, []);
+
+  // The field restarts whenever the plane moves or the section is shown again
+  const changeSection = (next: SectionSettings) => {
+    if (next.angle !== section.angle || next.enabled !== section.enabled) setSectionSummary(null);
+    setSection(next);
+  };
+
+  const startRecording = () => {
+    recorder.start();
+    setIsRecording(true);
+  };
+
+  const stopRecording = useCallback(() => {
+    // Runs shorter than two frames are dropped, keeping the previous recording
+    const finished = recorder.stop();
+    if (finished) setRecording(finished);
+    setIsRecording(false);
+  }, [recorder]);
+
+  // Switching thread swaps in an engine with its own clock and totals, so a cycle or recording measured on the old one
+  // ends and a quiz measurement starts over
+  useEffect(() => {
+    setWashCycle(run => run && !run.state.done ? null : run);
+    setQuizRun(run => run && restartQuizStage(run));
+    if (recorder.isRecording) stopRecording();
+  }, [performance.thread]);
+
+  // The running cycle's drain profile drives the flow and fiber load
+  useEffect(() => {
+    if (!washCycle) return;
+    if (washCycle.state.done) {
+      setCompletedCycles(prev => [washCycle, ...prev].slice(0, MAX_COMPLETED_CYCLES));
+      return;
+    }
+    const { flowRate, particleDensity } = washCycle.state;
+    setSimulationState(s => s.flowRate === flowRate && s.particleDensity === particleDensity ? s : { ...s, flowRate, particleDensity });
+  }, [washCycle]);
+
+  // The cycle advances with the cross-flow engine, which stands still in CASCADE view
+  useEffect(() => {
+    if (viewMode === 'CASCADE') setWashCycle(run => run && !run.state.done ? null : run);
+  }, [viewMode]);
+
+  // While a cycle runs it owns the flow and load; the controls show its values instead
+  const cycleRunning = washCycle !== null && !washCycle.state.done;
+
+  const startWashCycleRun = (program: WashProgram, fabric: FabricType) => {
+    const latest = metricsHistory[metricsHistory.length - 1];
+    if (!latest) return;
+    const run = startWashCycle(program, fabric, latest);
+    setWashCycle(run);
+    setQuizRun(stopQuizRun);
+    setSimulationState(s => ({
+      ...s,
+      isRunning: true,
+      contaminantMix: fabric.mix,
+      flowRate: run.state.flowRate,
+      particleDensity: run.state.particleDensity
+    }));
+    // The labels live on the retrofit housing
+    setViewMode('PRODUCT');
+  };
+
+  // Parameter changes become timeline markers; the recorder ignores them when idle
+  useEffect(() => {
+    recorder.mark('flow', `Flow ${simulationState.flowRate.toFixed(1)}x`);
+  }, [recorder, simulationState.flowRate]);
+
+  useEffect(() => {
+    recorder.mark('density', `Density ${simulationState.particleDensity}`);
+  }, [recorder, simulationState.particleDensity]);
+
+  useEffect(() => {
+    const label = CONTAMINANT_PRESETS.find(p => p.mix === simulationState.contaminantMix)?.label ?? 'Custom';
+    recorder.mark('mix', `Mix: ${label}`);
+  }, [recorder, simulationState.contaminantMix]);
+
+  useEffect(() => {
+    const label = GEOMETRY_PRESETS.find(p => p.geometry === geometry)?.label ?? 'Custom';
+    recorder.mark('geometry', `Geometry: ${label}`);
+  }, [recorder, geometry]);
+
+  useEffect(() => {
+    recorder.mark('sizes', 'Particle sizes changed');
+  }, [recorder, simulationState.particleSizes]);
+
+  useEffect(() => {
+    if (washCycle && !washCycle.state.done) recorder.mark('cycle', `${washCycle.program.label}: ${washCycle.state.phase.label}`);
+  }, [recorder, washCycle?.state.phase]);
+
+  useEffect(() => {
+    const event = sludgeTank.events[sludgeTank.events.length - 1];
+    if (event) recorder.mark('tank', event.kind === 'purge' ? 'Tank purged' : event.kind === 'maintenance' ? 'Tank full: maintenance call' : 'Tank emptied');
+  }, [recorder, sludgeTank.events]);
+
+  useEffect(() => {
+    recorder.mark('running', simulationState.isRunning ? 'Resumed' : 'Paused');
+  }, [recorder, simulationState.isRunning]);
+
+  // The sieve mounts with a clean screen each time, so its chart starts fresh too
+  const startSieveComparison = () => {
+    if (viewMode === 'SIEVE') return;
+    setSieveHistory([]);
+    setViewMode('SIEVE');
+  };
+
+  // Like the sieve, the train mounts fresh each time, so stale readouts are cleared
+  const startCascade = () => {
+    if (viewMode === 'CASCADE') return;
+    setCascadeMetrics(null);
+    setViewMode('CASCADE');
+  };
+
+  const changeViewMode = (mode: ViewMode) => {
+    if (mode === 'SIEVE') startSieveComparison();
+    else if (mode === 'CASCADE') startCascade();
+    else setViewMode(mode);
+  };
+
+  const getScenario = (name: string) => createScenario({
+    name,
+    simulationState,
+    viewMode,
+    geometry,
+    cascadeStages,
+    camera: cameraPose.current?.() ?? null
+  });
+
+  const applyScenario = (scenario: Scenario) => {
+    setSimulationState(prev => ({
+      ...prev,
+      flowRate: scenario.flowRate,
+      particleDensity: scenario.particleDensity,
+      isRunning: scenario.isRunning,
+      contaminantMix: scenario.contaminantMix,
+      particleSizes: scenario.particleSizes
+    }));
+    setGeometry(scenario.geometry);
+    setWashCycle(run => run && !run.state.done ? null : run);
+    if (scenario.cascade) setCascadeStages(scenario.cascade);
+    changeViewMode(scenario.viewMode);
+    if (scenario.camera) setCameraFocus({ target: scenario.camera, nonce: Date.now() });
+  };
+
+  const goToTourStep = (active: Tour, index: number, from: number | null) => {
+    const { viewMode: mode, camera, settings } = getTourStepState(active, index, from);
+    const { geometry: nextGeometry, ...simulation } = settings;
+    setSimulationState(prev => ({ ...prev, ...simulation }));
+    // Tours steer the settings a quiz measures
+    setQuizRun(stopQuizRun);
+    // A step that sets the flow or load takes them over from a running cycle
+    if (simulation.flowRate !== undefined || simulation.particleDensity !== undefined) {
+      setWashCycle(run => run && !run.state.done ? null : run);
+    }
+    if (nextGeometry) setGeometry(nextGeometry);
+    if (mode) changeViewMode(mode);
+    if (camera) setCameraFocus({ target: camera, nonce: Date.now() });
+    setTour({ tour: active, index });
+  };
+
+  const applyQuizSettings = ({ geometry: nextGeometry, ...simulation }: QuizSettings) => {
+    setSimulationState(prev => ({ ...prev, ...simulation, isRunning: true }));
+    if (nextGeometry) setGeometry(nextGeometry);
+  };
+
+  // The quiz measures the live filter, so anything else steering the settings is stopped first
+  const startQuiz = (question: QuizQuestion, prediction: QuizPrediction) => {
+    setWashCycle(null);
+    setReplay(null);
+    setTour(null);
+    if (viewMode === 'CASCADE') setViewMode('NATURE');
+    applyQuizSettings(question.baseline);
+    setQuizRun(startQuizRun(question, prediction));
+  };
+
+  // Replaces the text of the in-flight reply, which is always the last message
+  const updateReply = (update: (text: string) => string) => {
+    setMessages(prev => prev.map((m, i) => i === prev.length - 1 ? { ...m, text: update(m.text) } : m));
+  };
+
+  // Tools BioGuide can call; each one is applied immediately and listed under the reply
+  const runSimulationTool = createSimulationToolHandler({
+    setFlowRate: (flowRate) => setSimulationState(s => ({ ...s, flowRate })),
+    setParticleDensity: (particleDensity) => setSimulationState(s => ({ ...s, particleDensity })),
+    getControlLock: () => cycleRunning ? `the ${washCycle.program.label} wash cycle is setting the flow and load; it must finish or be stopped first` : null,
+    setRunning: (isRunning) => setSimulationState(s => ({ ...s, isRunning })),
+    setViewMode: changeViewMode,
+    focusCamera: (target) => setCameraFocus({ target, nonce: Date.now() }),
+    startQuiz: (questionId) => setQuizRequest({ questionId, nonce: Date.now() })
+  });
+
+  const handleToolCall = (call: AIToolCall) => {
+    const summary = runSimulationTool(call);
+    // Rejected calls go back to the model to correct, not into the transcript
+    if (summary.startsWith('Error')) return summary;
+    setMessages(prev => prev.map((m, i) => i === prev.length - 1 ? { ...m, actions: [...(m.actions ?? []), summary] } : m));
+    return summary;
+  };
+
+  const cancelResponse = () => {
+    replyAbort.current?.abort();
+  };
+
   const handleSendMessage = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!input.trim()) return;
+    if (!input.trim() || isTyping) return;
 
     const userMsg: ChatMessage = { role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
+    const history = [...messages, userMsg];
+    setMessages([...history, { role: 'model', text: '' }]);
     setInput('');
     setIsTyping(true);
 
-    const context = `
-      The user is viewing a 3D simulation of a bio-inspired water filter (Basking Shark model).
-      Current View Mode: ${viewMode} (user can switch between NATURE and PRODUCT view).
-      
-      Simulation State:
-      - Flow Rate: ${simulationState.flowRate.toFixed(1)}x
-      - Particle Load: ${simulationState.particleDensity} units
-      - Efficiency: ${simulationState.efficiency}% (Inertial separation active)
-      - Animation Status: ${simulationState.isRunning ? 'Running' : 'Paused'}
-      
-      Mechanism:
-      - Blue particles: Water (permeates through).
-      - Red particles: Microplastics.
-      - Green particles: Algae/Organic Matter.
-      - Brown particles: Sediment/Sand.
-      
-      All solid particles (Red, Green, Brown) are concentrated into the sludge output due to the "Cross-Flow" effect.
-      
-      Human Application (Product Mode):
-      - This "solid-state" filter has no moving parts.
-      - Can be retrofitted to washing machines to catch microfibers.
-      - Used in industrial wastewater treatment.
-      - Used in autonomous ocean-cleaning drones.
-      - Advantages: Does NOT clog like mesh screens because of the tangential cross-flow.
-    `;
-
-    const responseText = await askBiomimicryExpert(userMsg.text, context);
-    
-    setMessages(prev => [...prev, { role: 'model', text: responseText }]);
+    const snapshot = createSimulationSnapshot({
+      simulationState,
+      viewMode,
+      geometry,
+      history: metricsHistory,
+      sieveHistory,
+      washCycle,
+      sludgeTank,
+      cascadeStages,
+      cascade: cascadeMetrics,
+      quizRun
+    });
+
+    const controller = new AbortController();
+    replyAbort.current = controller;
+
+    try {
+      const responseText = await askBiomimicryExpert(history, snapshot, {
+        signal: controller.signal,
+        onToken: (token) => updateReply(text => text + token),
+        onToolCall: handleToolCall
+      });
+      if (!controller.signal.aborted) updateReply(() => responseText || "I couldn't process that request right now.");
+      else updateReply(() => responseText ? `${responseText} … (stopped)` : 'Response cancelled.');
+    } catch (error) {
+      const failure = error instanceof AIProviderError ? error : new AIProviderError('UNKNOWN', String(error));
+      setMessages(prev => prev.map((m, i) => i === prev.length - 1
+        ? { role: 'model', text: describeAIError(failure, activeProvider.id), error: true }
+        : m));
+    }
+    replyAbort.current = null;
     setIsTyping(false);
   };
 
@@ -89,7 +408,29 @@ export default function App() {
   return (
     <div className="relative w-full h-screen text-slate-100 overflow-hidden bg-[#020617] font-sans selection:bg-cyan-500/30">
       {/* 3D Background */}
-      <BioFilter3D simulationState={simulationState} viewMode={viewMode} />
+      <BioFilter3D
+        simulationState={simulationState}
+        viewMode={viewMode}
+        geometry={geometry}
+        onMetrics={handleMetrics}
+        onSieveMetrics={handleSieveMetrics}
+        cameraFocus={cameraFocus}
+        cameraPoseRef={cameraPose}
+        recorder={recorder}
+        replay={replay}
+        sceneCaptureRef={sceneCapture}
+        washCycle={washCycle}
+        completedCycles={completedCycles}
+        sludgeTank={sludgeTank}
+        cascadeStages={cascadeStages}
+        onCascadeMetrics={handleCascadeMetrics}
+        section={section}
+        onSectionSummary={setSectionSummary}
+        tracker={tracker}
+        performance={performance}
+        onPerformance={setPerformanceReadings}
+        tourHighlights={tour ? tour.tour.steps[tour.index].highlight : null}
+      />
 
       {/* --- UI LAYER --- */}
 
@@ -103,34 +444,29 @@ export default function App() {
           </h1>
         </div>
 
-        {/* Legend Panel */}
+        {/* Legend Panel: water plus every contaminant in the current mix */}
         <div className="bg-[#0f172a]/80 backdrop-blur-md border border-slate-700/50 p-4 rounded-xl shadow-lg pointer-events-auto w-64 animate-in fade-in slide-in-from-left-4 duration-700">
            <div className="space-y-3">
              <div className="flex items-center gap-3">
-                <span className="w-3 h-3 rounded-full bg-blue-400 shadow-[0_0_8px_rgba(96,165,250,0.8)]"></span>
-                <span className="text-xs text-slate-300 font-medium tracking-wide">Clean Water</span>
-             </div>
-             <div className="flex items-center gap-3">
-                <span className="w-3 h-3 relative flex items-center justify-center">
-                    <span className="absolute w-full h-full bg-red-500 rotate-45 rounded-[1px] shadow-[0_0_8px_rgba(239,68,68,0.6)]"></span>
-                </span>
-                <span className="text-xs text-slate-300 font-medium tracking-wide">Plastic (Microfibers)</span>
-             </div>
-             <div className="flex items-center gap-3">
-                <span className="w-3 h-3 rounded-sm bg-emerald-500 shadow-[0_0_8px_rgba(34,197,94,0.6)]"></span>
-                <span className="text-xs text-slate-300 font-medium tracking-wide">Algae / Organic</span>
-             </div>
-             <div className="flex items-center gap-3">
-                <span className="w-3 h-3 rounded-sm bg-amber-700 shadow-[0_0_8px_rgba(180,83,9,0.6)]"></span>
-                <span className="text-xs text-slate-300 font-medium tracking-wide">Sediment / Sand</span>
+                <span className="w-3 h-3 rounded-full" style={{ background: WATER_STYLE.color, boxShadow: `0 0 8px ${WATER_STYLE.color}cc` }}></span>
+                <span className="text-xs text-slate-300 font-medium tracking-wide">{WATER_STYLE.description}</span>
              </div>
+             {activeContaminants.map(c => (
+               <div key={c.id} className="flex items-center gap-3">
+                  <span className="w-3 h-3 relative flex items-center justify-center">
+                      <span className={`absolute w-full h-full ${LEGEND_SHAPES[c.shape]}`} style={{ background: c.color, boxShadow: `0 0 8px ${c.color}99` }}></span>
+                  </span>
+                  <span className="text-xs text-slate-300 font-medium tracking-wide">{c.description}</span>
+               </div>
+             ))}
            </div>
         </div>
       </div>
 
-      {/* Top Right: View Toggle */}
-      <div className="absolute top-8 right-8 z-10 pointer-events-auto">
-        <div className="bg-[#0f172a]/90 backdrop-blur-md border border-slate-700/50 p-1.5 rounded-lg flex shadow-2xl">
+      {/* Right Column: View Toggle, then the panels, which scroll once opened ones outgrow the space above the
+          Metrics Dashboard; the column ends above the chat button */}
+      <div className="absolute top-8 bottom-28 right-8 z-10 pointer-events-none flex flex-col items-end gap-4">
+        <div className="bg-[#0f172a]/90 backdrop-blur-md border border-slate-700/50 p-1.5 rounded-lg flex shadow-2xl shrink-0 pointer-events-auto">
             <button 
                 onClick={() => setViewMode('NATURE')}
                 className={`px-4 py-2 rounded-md flex items-center gap-2 text-xs font-semibold tracking-wide transition-all duration-300 ${viewMode === 'NATURE' ? 'bg-[#1e293b] text-white shadow-inner border border-slate-600/50' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
@@ -145,6 +481,72 @@ export default function App() {
                 <Factory className="w-3.5 h-3.5" />
                 Product
             </button>
+            <button 
+                onClick={startSieveComparison}
+                className={`px-4 py-2 rounded-md flex items-center gap-2 text-xs font-semibold tracking-wide transition-all duration-300 ${viewMode === 'SIEVE' ? 'bg-amber-600 text-white shadow-[0_0_15px_rgba(217,119,6,0.4)] border border-amber-500/50' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
+            >
+                <Grid3x3 className="w-3.5 h-3.5" />
+                Sieve
+            </button>
+            <button 
+                onClick={startCascade}
+                className={`px-4 py-2 rounded-md flex items-center gap-2 text-xs font-semibold tracking-wide transition-all duration-300 ${viewMode === 'CASCADE' ? 'bg-sky-600 text-white shadow-[0_0_15px_rgba(2,132,199,0.4)] border border-sky-500/50' : 'text-slate-400 hover:text-white hover:bg-white/5'}`}
+            >
+                <Layers className="w-3.5 h-3.5" />
+                Cascade
+            </button>
+        </div>
+
+        <div className="min-h-0 overflow-y-auto overscroll-contain pointer-events-auto flex flex-col items-end gap-4 rounded-2xl">
+          <GeometryPanel geometry={geometry} onChange={setGeometry} />
+          <SectionPanel
+            settings={section}
+            onChange={changeSection}
+            summary={sectionSummary}
+            available={viewMode !== 'CASCADE'}
+          />
+          <CutSizePanel
+            sizes={simulationState.particleSizes}
+            mix={simulationState.contaminantMix}
+            onChange={(particleSizes: SizeDistributions) => setSimulationState(s => ({ ...s, particleSizes }))}
+            geometry={geometry}
+            latest={metricsHistory[metricsHistory.length - 1]}
+            comparison={viewMode === 'SIEVE' ? sieveHistory[sieveHistory.length - 1] : undefined}
+          />
+          <WashCyclePanel
+            cycle={washCycle}
+            completed={completedCycles}
+            canStart={metricsHistory.length > 0}
+            onStart={startWashCycleRun}
+            onStop={() => setWashCycle(null)}
+          />
+          <SludgeTankPanel
+            tank={sludgeTank}
+            onConfigChange={(config) => setSludgeTank(tank => configureSludgeTank(tank, config))}
+            onEmpty={() => setSludgeTank(emptySludgeTank)}
+          />
+          <CascadePanel
+            stages={cascadeStages}
+            onChange={setCascadeStages}
+            geometry={geometry}
+            latest={viewMode === 'CASCADE' ? cascadeMetrics ?? undefined : undefined}
+          />
+          <PerformancePanel settings={performance} onChange={setPerformance} readings={performanceReadings} />
+          <ScenarioPanel getScenario={getScenario} onLoad={applyScenario} />
+          <TourPanel active={tour?.tour ?? null} onStart={(next) => goToTourStep(next, 0, null)} />
+          <QuizPanel
+            run={quizRun}
+            request={quizRequest}
+            onStart={startQuiz}
+            onMakeChange={() => quizRun && applyQuizSettings(quizRun.question.change)}
+            onStop={() => setQuizRun(null)}
+          />
+          <ExportPanel captureRef={sceneCapture} />
+        </div>
+
+        {/* Metrics Dashboard */}
+        <div className="mt-auto shrink-0 pointer-events-auto">
+          <MetricsDashboard history={metricsHistory} comparison={viewMode === 'SIEVE' ? sieveHistory : undefined} />
         </div>
       </div>
 
@@ -180,9 +582,9 @@ export default function App() {
                     <Wind className="w-3.5 h-3.5 text-cyan-500" />
                     <span>Flow Velocity</span>
                   </div>
-                  <span className="font-mono text-cyan-300">{simulationState.flowRate.toFixed(1)}x</span>
+                  <span className="font-mono text-cyan-300">{cycleRunning && <span className="text-slate-500">Wash cycle · </span>}{simulationState.flowRate.toFixed(1)}x</span>
                 </div>
-                <div className="relative h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className={`relative h-1.5 bg-slate-800 rounded-full overflow-hidden ${cycleRunning ? 'opacity-50' : ''}`}>
                     <div 
                         className="absolute top-0 left-0 h-full bg-gradient-to-r from-cyan-600 to-cyan-400 rounded-full" 
                         style={{ width: `${(simulationState.flowRate / 5) * 100}%` }}
@@ -194,7 +596,9 @@ export default function App() {
                         step="0.1"
                         value={simulationState.flowRate}
                         onChange={(e) => setSimulationState(s => ({ ...s, flowRate: parseFloat(e.target.value) }))}
-                        className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+                        disabled={cycleRunning}
+                        title={cycleRunning ? 'The running wash cycle sets the flow' : undefined}
+                        className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
                     />
                 </div>
               </div>
@@ -206,9 +610,9 @@ export default function App() {
                     <Droplets className="w-3.5 h-3.5 text-purple-500" />
                     <span>Density</span>
                   </div>
-                  <span className="font-mono text-purple-300">{simulationState.particleDensity}</span>
+                  <span className="font-mono text-purple-300">{cycleRunning && <span className="text-slate-500">Wash cycle · </span>}{simulationState.particleDensity}</span>
                 </div>
-                <div className="relative h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className={`relative h-1.5 bg-slate-800 rounded-full overflow-hidden ${cycleRunning ? 'opacity-50' : ''}`}>
                     <div 
                         className="absolute top-0 left-0 h-full bg-gradient-to-r from-purple-600 to-purple-400 rounded-full" 
                         style={{ width: `${(simulationState.particleDensity / 1000) * 100}%` }}
@@ -220,9 +624,45 @@ export default function App() {
                         step="50"
                         value={simulationState.particleDensity}
                         onChange={(e) => setSimulationState(s => ({ ...s, particleDensity: parseInt(e.target.value) }))}
-                        className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+                        disabled={cycleRunning}
+                        title={cycleRunning ? 'The running wash cycle sets the fiber load' : undefined}
+                        className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer disabled:cursor-not-allowed"
                     />
                 </div>
+                {/* Contaminant Mix Presets */}
+                <div className="grid grid-cols-2 gap-1.5 pt-1">
+                  {CONTAMINANT_PRESETS.map(preset => (
+                    <button
+                      key={preset.id}
+                      onClick={() => setSimulationState(s => ({ ...s, contaminantMix: preset.mix }))}
+                      className={`px-2 py-1.5 rounded-md text-[11px] font-medium transition-all duration-300 ${simulationState.contaminantMix === preset.mix ? 'bg-purple-500/20 text-purple-200 border border-purple-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+                    >
+                      {preset.label}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            </div>
+
+            {/* Measured Separation */}
+            <div className="space-y-2 pt-1">
+              <div className="flex justify-between text-xs font-medium text-slate-400">
+                <div className="flex items-center gap-2">
+                  <Gauge className="w-3.5 h-3.5 text-emerald-500" />
+                  <span>Separation Efficiency</span>
+                </div>
+                <span className="font-mono text-emerald-300">{simulationState.efficiency.toFixed(1)}%</span>
+              </div>
+              <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-[11px] text-slate-400">
+                {separationRows.map(row => (
+                  <div key={row.type} className="flex justify-between items-center">
+                    <span className="flex items-center gap-1.5">
+                      <span className="w-1.5 h-1.5 rounded-full" style={{ background: row.color }}></span>
+                      {row.label}
+                    </span>
+                    <span className="font-mono text-slate-300">{simulationState.separation[row.type].efficiency.toFixed(0)}%</span>
+                  </div>
+                ))}
               </div>
             </div>
           </div>
@@ -237,7 +677,43 @@ export default function App() {
            <p className="text-xs text-slate-400 leading-relaxed">
              Our filter mimics this: particles ricochet off the mesh to a collection tank, keeping the water outlet clear.
            </p>
+           {viewMode !== 'SIEVE' && (
+             <button onClick={startSieveComparison} className="mt-3 text-xs font-semibold text-amber-400 hover:text-amber-300 transition-colors">
+               Compare with a mesh sieve →
+             </button>
+           )}
+        </div>
+      </div>
+
+      {/* Top Center: the guided tour's caption, or else the Particle Inspector while a particle is hovered or followed in the live filter */}
+      {tour && (
+        <div className="absolute top-8 left-1/2 -translate-x-1/2 z-10 pointer-events-auto">
+          <TourCaption
+            tour={tour.tour}
+            index={tour.index}
+            onGoTo={(index) => goToTourStep(tour.tour, index, tour.index)}
+            onExit={() => setTour(null)}
+          />
+        </div>
+      )}
+      {!tour && viewMode !== 'CASCADE' && !replay && (
+        <div className="absolute top-8 left-1/2 -translate-x-1/2 z-10 pointer-events-auto">
+          <ParticleInspector tracker={tracker} archCount={geometry.archCount} />
         </div>
+      )}
+
+      {/* Bottom Center: Record & Replay */}
+      <div className="absolute bottom-8 left-1/2 -translate-x-1/2 z-10 pointer-events-auto">
+        <ReplayTimeline
+          recorder={recorder}
+          isRecording={isRecording}
+          recording={recording}
+          replay={replay}
+          onRecord={startRecording}
+          onStopRecording={stopRecording}
+          onReplay={() => recording && setReplay(createReplayModel(recording))}
+          onExitReplay={() => setReplay(null)}
+        />
       </div>
 
       {/* Right Chat Panel (Hidden/Shown) */}
@@ -251,7 +727,7 @@ export default function App() {
              <div>
                <h3 className="font-bold text-base text-white tracking-wide">BioGuide AI</h3>
                <p className="text-[10px] text-emerald-400 flex items-center gap-1.5 font-bold mt-0.5 tracking-wider">
-                 <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse"></span> SYSTEM ONLINE
+                 <span className="w-1.5 h-1.5 rounded-full bg-emerald-400 animate-pulse"></span> {activeProvider.label.toUpperCase()} ONLINE
                </p>
              </div>
            </div>
@@ -262,14 +738,24 @@ export default function App() {
 
         {/* Messages */}
         <div className="flex-1 overflow-y-auto p-6 space-y-6 custom-scrollbar bg-[#020617]/50">
-           {messages.map((msg, idx) => (
+           {messages.map((msg, idx) => (msg.text || msg.actions?.length > 0) && (
              <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
-               <div className={`max-w-[85%] rounded-2xl p-4 text-sm leading-relaxed shadow-sm ${msg.role === 'user' ? 'bg-[#1d4ed8] text-white rounded-br-none' : 'bg-[#1e293b] border border-slate-700 text-slate-200 rounded-bl-none'}`}>
+               <div className={`max-w-[85%] rounded-2xl p-4 text-sm leading-relaxed shadow-sm ${msg.role === 'user' ? 'bg-[#1d4ed8] text-white rounded-br-none' : msg.error ? 'bg-rose-950/60 border border-rose-800/60 text-rose-200 rounded-bl-none' : 'bg-[#1e293b] border border-slate-700 text-slate-200 rounded-bl-none'}`}>
+                 {msg.actions?.length > 0 && (
+                   <div className={`flex flex-wrap gap-1.5 ${msg.text ? 'mb-2.5' : ''}`}>
+                     {msg.actions.map((action, i) => (
+                       <span key={i} className="flex items-center gap-1 px-2 py-0.5 rounded-full bg-cyan-500/10 border border-cyan-500/30 text-[10px] font-medium text-cyan-300">
+                         <CheckCircle2 className="w-3 h-3" />
+                         {action}
+                       </span>
+                     ))}
+                   </div>
+                 )}
                  {msg.text}
                </div>
              </div>
            ))}
-           {isTyping && (
+           {isTyping && !messages[messages.length - 1].text && !messages[messages.length - 1].actions?.length && (
              <div className="flex justify-start">
                <div className="bg-[#1e293b] border border-slate-700 rounded-2xl p-4 flex gap-1.5 items-center">
                  <span className="w-1.5 h-1.5 bg-cyan-500 rounded-full animate-bounce"></span>
@@ -291,13 +777,24 @@ export default function App() {
               placeholder="Ask about human applications..." 
               className="w-full bg-[#1e293b] text-sm text-white placeholder-slate-500 rounded-xl py-4 pl-5 pr-14 focus:outline-none focus:ring-1 focus:ring-cyan-500/50 border border-slate-700 transition-all shadow-inner"
             />
-            <button 
-              type="submit" 
-              disabled={!input.trim() || isTyping}
-              className="absolute right-2 top-1/2 -translate-y-1/2 p-2.5 bg-cyan-600 rounded-lg text-white hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
-            >
-              {isTyping ? <Loader2 className="w-4 h-4 animate-spin" /> : <Send className="w-4 h-4" />}
-            </button>
+            {isTyping ? (
+              <button 
+                type="button" 
+                onClick={cancelResponse}
+                title="Stop response"
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-2.5 bg-rose-600 rounded-lg text-white hover:bg-rose-500 transition-all"
+              >
+                <Square className="w-4 h-4 fill-current" />
+              </button>
+            ) : (
+              <button 
+                type="submit" 
+                disabled={!input.trim()}
+                className="absolute right-2 top-1/2 -translate-y-1/2 p-2.5 bg-cyan-600 rounded-lg text-white hover:bg-cyan-500 disabled:opacity-50 disabled:cursor-not-allowed transition-all"
+              >
+                <Send className="w-4 h-4" />
+              </button>
+            )}
           </form>
         </div>
       </div>
@@ -1,38 +1,96 @@
-import React, { useRef, useMemo } from 'react';
-import { useFrame, Canvas } from '@react-three/fiber';
+import React, { useRef, useMemo, useEffect, useState } from 'react';
+import { useFrame, useThree, Canvas, ThreeEvent } from '@react-three/fiber';
 import { Float, Environment, OrbitControls, Stars, Sparkles, PerspectiveCamera, Text } from '@react-three/drei';
 import * as THREE from 'three';
-import { SimulationState, ViewMode, ParticleType } from '../types';
+import { SimulationState, ViewMode, ContaminantMix, SizeDistributions, FilterGeometry, FilterMetrics, CameraFocus, CameraTarget, CameraPose, CascadeStage, CascadeMetrics, SectionSettings, PerformanceSettings, PerformanceReadings, SceneHighlight } from '../types';
+import { createFiltrationEngine, FiltrationEngine } from '../simulation/filtrationEngine';
+import { createWorkerEngine, WorkerEngine } from '../simulation/workerEngine';
+import { DETAIL_LEVELS, createQualityGovernor, getPopulationCapacity } from '../simulation/qualityGovernor';
+import { createCascadeEngine } from '../simulation/cascadeEngine';
+import { createSieveEngine, getScreenCellCenter, isScreenCell, SCREEN_GRID, SCREEN_Z, SIEVE_RADIUS } from '../simulation/sieveEngine';
+import { FilterModel, Particle, DEFAULT_SEED, START_Z, END_Z } from '../simulation/particles';
+import { CONTAMINANTS, ContaminantShape, WATER_STYLE } from '../simulation/contaminants';
+import { COUNT_WATER, MAX_CONTAMINANTS } from '../simulation/population';
+import { ParticleFrame, MESH_COUNT, WATER_MESH, createParticleFrame, writeParticleFrame, getParticleCount, getMeshCount, getMeshOffset } from '../simulation/particleFrame';
+import { ARCH_ARC, FIRST_ARCH_Z, getArchZ, getConeRadius, getFilterZone } from '../simulation/filterGeometry';
+import { METRICS_INTERVAL } from '../simulation/metrics';
+import { RunRecorder, ReplayModel } from '../simulation/recording';
+import { ExportError, SceneCapture } from '../services/sceneExport';
+import { WashCycleRun } from '../simulation/washCycle';
+import { SludgeTank, getTankFill, getTankForecast } from '../simulation/sludgeTank';
+import { ParticleTracker, TRACK_COLORS } from '../simulation/particleTracker';
+import { FlowField, FlowSummary, CELL_SIZE, HALF_WIDTH, createFlowField, getFlowSummary } from '../simulation/flowField';
+
+export type MetricsHandler = (metrics: FilterMetrics) => void;
 
 interface BioFilter3DProps {
   simulationState: SimulationState;
   viewMode: ViewMode;
+  geometry: FilterGeometry;
+  onMetrics?: MetricsHandler;
+  onSieveMetrics?: MetricsHandler;
+  cameraFocus?: CameraFocus | null;
+  // Filled with a reader for the live camera pose, e.g. for saving scenarios
+  cameraPoseRef?: React.MutableRefObject<(() => CameraPose) | null>;
+  // Captures the cross-flow engine while a recording is running
+  recorder?: RunRecorder;
+  // When set, the cross-flow filter shows this playback instead of the live engine
+  replay?: ReplayModel | null;
+  // Filled with the offline renderer used by video and image-sequence export
+  sceneCaptureRef?: React.MutableRefObject<SceneCapture | null>;
+  // Washing-machine cycle shown on the product housing labels, newest completed cycle first
+  washCycle?: WashCycleRun | null;
+  completedCycles?: WashCycleRun[];
+  // Collection tank under the sludge outlet, PRODUCT view only
+  sludgeTank?: SludgeTank;
+  // Filter train shown in CASCADE view
+  cascadeStages?: CascadeStage[];
+  onCascadeMetrics?: (metrics: CascadeMetrics) => void;
+  // Cross-section and flow-field overlay on the cross-flow filter
+  section?: SectionSettings;
+  onSectionSummary?: (summary: FlowSummary) => void;
+  // Particles hovered, picked and followed in the live cross-flow filter
+  tracker?: ParticleTracker;
+  // Thread and particle detail of the live cross-flow filter
+  performance?: PerformanceSettings;
+  onPerformance?: (readings: PerformanceReadings) => void;
+  // Parts of the cross-flow filter the running guided tour points out; null when no tour runs.
+  // Auto-rotate stays off during a tour so the scripted camera holds still
+  tourHighlights?: SceneHighlight[] | null;
 }
 
+// Lateral distance of each filter from the axis in the side-by-side SIEVE comparison
+const COMPARE_OFFSET = 4.5;
+// Lateral distance between neighbouring stages in CASCADE view; upstream is on the left
+const STAGE_SPACING = 7;
+// Glow of whatever a guided tour points out
+const HIGHLIGHT_COLOR = '#facc15';
+
 // --- Geometry Components ---
 
 interface GillArchProps {
     z: number;
-    index: number;
-    total: number;
+    radius: number;
+    geometry: FilterGeometry;
     viewMode: ViewMode;
+    highlighted?: boolean;
 }
 
 // A single "Gill Arch" - curved bone structure
-const GillArch: React.FC<GillArchProps> = ({ z, index, total, viewMode }) => {
-  const scale = 2.5 - (index * 0.15); // Tapering cone shape
-  const isProduct = viewMode === 'PRODUCT';
+const GillArch: React.FC<GillArchProps> = ({ z, radius, geometry, viewMode, highlighted }) => {
+  const isProduct = viewMode !== 'NATURE'; // Engineered look in PRODUCT and SIEVE
+  const tilt = -(geometry.rakerAngle * Math.PI) / 180; // Lean the raker tips downstream (-z)
   
   // Create a custom curved shape for the rib
   const curve = useMemo(() => {
     const points = [];
     for (let i = 0; i <= 20; i++) {
         const t = i / 20;
-        const angle = Math.PI * 1.2 * (t - 0.5); // Arc from -0.6PI to 0.6PI
-        points.push(new THREE.Vector3(Math.cos(angle) * scale, Math.sin(angle) * scale, 0));
+        const angle = ARCH_ARC * (t - 0.5); // Arc centred on +x
+        points.push(new THREE.Vector3(Math.cos(angle) * radius, Math.sin(angle) * radius, 0));
     }
     return new THREE.CatmullRomCurve3(points);
-  }, [scale]);
+  }, [radius]);
 
   return (
     <group position={[0, 0, z]}>
@@ -43,40 +101,152 @@ const GillArch: React.FC<GillArchProps> = ({ z, index, total, viewMode }) => {
           color={isProduct ? "#94a3b8" : "#e2e8f0"} 
           roughness={isProduct ? 0.2 : 0.3} 
           metalness={isProduct ? 0.8 : 0.6}
-          emissive={isProduct ? "#000000" : "#38bdf8"}
-          emissiveIntensity={isProduct ? 0 : 0.1}
+          emissive={highlighted ? HIGHLIGHT_COLOR : isProduct ? "#000000" : "#38bdf8"}
+          emissiveIntensity={highlighted ? 0.6 : isProduct ? 0 : 0.1}
         />
       </mesh>
 
       {/* The Rakers (Filtering Bristles) - projecting inwards */}
-      {Array.from({ length: 16 }).map((_, i) => {
-        const t = i / 15;
-        const angle = Math.PI * 1.2 * (t - 0.5);
+      {Array.from({ length: geometry.rakerCount }).map((_, i) => {
+        const t = geometry.rakerCount > 1 ? i / (geometry.rakerCount - 1) : 0.5;
+        const angle = ARCH_ARC * (t - 0.5);
         // Position on the arch
-        const x = Math.cos(angle) * scale;
-        const y = Math.sin(angle) * scale;
+        const x = Math.cos(angle) * radius;
+        const y = Math.sin(angle) * radius;
         
         return (
-          <mesh key={i} position={[x, y, 0]} rotation={[0, 0, angle + Math.PI/2]}>
-            <coneGeometry args={[isProduct ? 0.015 : 0.02, 0.6, 6]} />
-            <meshStandardMaterial 
-                color={isProduct ? "#cbd5e1" : "#f472b6"} 
-                transparent 
-                opacity={0.6} 
-                emissive={isProduct ? "#ffffff" : "#ec4899"}
-                emissiveIntensity={0.2}
-                metalness={isProduct ? 0.5 : 0}
-            />
-          </mesh>
+          <group key={i} position={[x, y, 0]} rotation={[0, 0, angle + Math.PI/2]}>
+            <mesh rotation={[tilt, 0, 0]}>
+              <coneGeometry args={[isProduct ? 0.015 : 0.02, geometry.rakerLength, 6]} />
+              <meshStandardMaterial 
+                  color={isProduct ? "#cbd5e1" : "#f472b6"} 
+                  transparent 
+                  opacity={0.6} 
+                  emissive={highlighted ? HIGHLIGHT_COLOR : isProduct ? "#ffffff" : "#ec4899"}
+                  emissiveIntensity={highlighted ? 0.8 : 0.2}
+                  metalness={isProduct ? 0.5 : 0}
+              />
+            </mesh>
+          </group>
         );
       })}
     </group>
   );
 };
 
+const FilterArches = ({ geometry, viewMode, highlighted }: { geometry: FilterGeometry, viewMode: ViewMode, highlighted?: boolean }) => {
+    const arches = useMemo(() => {
+        return Array.from({ length: geometry.archCount }).map((_, i) => {
+            const z = getArchZ(geometry, i);
+            return <GillArch key={i} z={z} radius={getConeRadius(geometry, z)} geometry={geometry} viewMode={viewMode} highlighted={highlighted} />;
+        });
+    }, [viewMode, geometry, highlighted]);
+    return <>{arches}</>;
+};
+
+const HIGHLIGHT_LABELS: Record<SceneHighlight, string> = {
+    INLET: 'INLET',
+    RAKERS: 'GILL RAKERS',
+    SLUDGE_OUTLET: 'SLUDGE OUTLET'
+};
+
+// Pulsing ring around the cone where a guided tour points, with a label above it
+const HighlightRing = ({ target, geometry }: { target: SceneHighlight, geometry: FilterGeometry }) => {
+    const material = useRef<THREE.MeshBasicMaterial>(null);
+    const z = getFocusZ(target, geometry);
+    const radius = getConeRadius(geometry, z) + 0.3;
+
+    useFrame(({ clock }) => {
+        if (material.current) material.current.opacity = 0.55 + 0.35 * Math.sin(clock.elapsedTime * 4);
+    });
+
+    return (
+        <group position={[0, 0, z]}>
+            <mesh>
+                <torusGeometry args={[radius, 0.04, 8, 64]} />
+                <meshBasicMaterial ref={material} color={HIGHLIGHT_COLOR} transparent toneMapped={false} />
+            </mesh>
+            <Text position={[0, radius + 0.5, 0]} fontSize={0.35} color={HIGHLIGHT_COLOR} anchorX="center" anchorY="middle" outlineWidth={0.015} outlineColor="#000000">
+                {HIGHLIGHT_LABELS[target]}
+            </Text>
+        </group>
+    );
+};
+
 // --- Product Visualization Components ---
 
-const ProductHousing = () => {
+interface ProductHousingProps {
+    cycle?: WashCycleRun | null;
+    completed?: WashCycleRun[];
+    tank?: SludgeTank;
+}
+
+const TANK_RADIUS = 1.2;
+const TANK_HEIGHT = 2.4;
+const TANK_STATUS_COLORS = { filling: '#475569', purging: '#22d3ee', full: '#ef4444' };
+
+// Sludge layers stacked in registry order, each as tall as its share of the tank's capacity
+const CollectionTank = ({ tank }: { tank: SludgeTank }) => {
+    const forecast = getTankForecast(tank);
+    let base = -TANK_HEIGHT / 2;
+    const layers = CONTAMINANTS.filter(c => tank.contents[c.id] > 0).map(c => {
+        const height = (tank.contents[c.id] / tank.config.capacity) * TANK_HEIGHT;
+        const y = base + height / 2;
+        base += height;
+        return (
+            <mesh key={c.id} position={[0, y, 0]}>
+                <cylinderGeometry args={[TANK_RADIUS * 0.95, TANK_RADIUS * 0.95, height, 24]} />
+                <meshStandardMaterial color={c.color} roughness={0.9} />
+            </mesh>
+        );
+    });
+    const thresholdY = -TANK_HEIGHT / 2 + tank.config.purgeThreshold * TANK_HEIGHT;
+    const statusText = tank.status === 'purging' ? 'PURGING'
+        : tank.status === 'full' ? 'MAINTENANCE DUE'
+        : forecast.secondsPerCycle !== null ? `Empties every ${(forecast.secondsPerCycle / 60).toFixed(1)} min` : 'Waiting for sludge';
+
+    return (
+        <group position={[0, -7.4, -13]}>
+            {/* Feed pipe from the sludge label's arrow down into the tank */}
+            <mesh position={[0, TANK_HEIGHT / 2 + 0.5, 0]}>
+                <cylinderGeometry args={[0.08, 0.08, 1]} />
+                <meshStandardMaterial color="#475569" metalness={0.8} roughness={0.2} />
+            </mesh>
+            <mesh>
+                <cylinderGeometry args={[TANK_RADIUS, TANK_RADIUS, TANK_HEIGHT, 32, 1, true]} />
+                <meshPhysicalMaterial color="#cbd5e1" transmission={0.9} roughness={0.1} thickness={0.3} transparent opacity={0.25} side={THREE.DoubleSide} />
+            </mesh>
+            {layers}
+            {/* Purge threshold */}
+            <mesh position={[0, thresholdY, 0]} rotation={[Math.PI / 2, 0, 0]}>
+                <torusGeometry args={[TANK_RADIUS, 0.03, 8, 48]} />
+                <meshBasicMaterial color="#f8fafc" />
+            </mesh>
+            <mesh position={[0, TANK_HEIGHT / 2, 0]} rotation={[Math.PI / 2, 0, 0]}>
+                <torusGeometry args={[TANK_RADIUS, 0.07, 12, 48]} />
+                <meshStandardMaterial color={TANK_STATUS_COLORS[tank.status]} emissive={TANK_STATUS_COLORS[tank.status]} emissiveIntensity={tank.status === 'filling' ? 0 : 0.8} />
+            </mesh>
+            <group position={[TANK_RADIUS + 0.3, 0.2, 0]}>
+                <Text fontSize={0.35} color="#f59e0b" anchorX="left" anchorY="middle" outlineWidth={0.015} outlineColor="#000000">
+                    {`COLLECTION TANK ${(getTankFill(tank) * 100).toFixed(0)}%`}
+                </Text>
+                <Text fontSize={0.25} position={[0, -0.4, 0]} color={tank.status === 'filling' ? '#94a3b8' : TANK_STATUS_COLORS[tank.status]} anchorX="left" anchorY="middle">
+                    {statusText}
+                </Text>
+            </group>
+        </group>
+    );
+};
+
+const formatCount = (value: number) => value.toLocaleString('en-US');
+
+const ProductHousing = ({ cycle, completed = [], tank }: ProductHousingProps) => {
+  // The running cycle is numbered after the ones already finished; a finished cycle is also the newest entry
+  const cycleNumber = completed.length + (cycle && !cycle.state.done ? 1 : 0);
+  const earlier = completed
+    .map((run, i) => ({ run, number: completed.length - i }))
+    .filter(({ run }) => run !== cycle)
+    .slice(0, 3);
   return (
     <group>
         {/* Main Transparent Cylinder Housing */}
@@ -106,8 +276,15 @@ const ProductHousing = () => {
         {/* 3D Labels */}
         <group position={[0, 3.5, 8]}>
             <Text fontSize={0.5} color="#ef4444" anchorX="center" anchorY="middle" outlineWidth={0.02} outlineColor="#000000">
-                DIRTY WATER INLET
+                {cycle ? 'WASHING MACHINE DRAIN' : 'DIRTY WATER INLET'}
             </Text>
+            {cycle && (
+                <Text fontSize={0.3} position={[0, 0.5, 0]} color="#94a3b8" anchorX="center" anchorY="middle">
+                    {cycle.state.done
+                        ? `${cycle.program.label} · ${cycle.fabric.label} · Complete`
+                        : `${cycle.program.label} · ${cycle.fabric.label} · ${cycle.state.phase.label} · ${cycle.state.flowRate.toFixed(1)}x`}
+                </Text>
+            )}
             <mesh position={[0, -1, 0]} rotation={[0, 0, 0]}>
                 <cylinderGeometry args={[0.05, 0.05, 1.5]} />
                 <meshBasicMaterial color="#ef4444" />
@@ -125,6 +302,11 @@ const ProductHousing = () => {
             <Text fontSize={0.3} position={[0, -0.4, 0]} color="#94a3b8" anchorX="center" anchorY="middle">
                 (To Sewer/River)
             </Text>
+            {cycle && (
+                <Text fontSize={0.3} position={[0, -0.9, 0]} color="#38bdf8" anchorX="center" anchorY="middle">
+                    {`${formatCount(cycle.escaped)} microfibers escaped this cycle`}
+                </Text>
+            )}
         </group>
 
         <group position={[0, -3.5, -13]}>
@@ -134,6 +316,16 @@ const ProductHousing = () => {
             <Text fontSize={0.3} position={[0, -0.4, 0]} color="#94a3b8" anchorX="center" anchorY="middle">
                 (To Collection Tank)
             </Text>
+            {cycle && (
+                <Text fontSize={0.4} position={[0, -1, 0]} color="#f59e0b" anchorX="center" anchorY="middle" outlineWidth={0.015} outlineColor="#000000">
+                    {`CYCLE ${cycleNumber}: ${formatCount(cycle.captured)} MICROFIBERS CAPTURED`}
+                </Text>
+            )}
+            {earlier.length > 0 && (
+                <Text fontSize={0.25} position={[0, -1.5, 0]} color="#94a3b8" anchorX="center" anchorY="middle">
+                    {`Earlier cycles: ${earlier.map(({ run, number }) => `#${number} ${formatCount(run.captured)}`).join(' · ')}`}
+                </Text>
+            )}
              <mesh position={[0, 1.5, 0]} rotation={[Math.PI, 0, 0]}>
                 <cylinderGeometry args={[0.05, 0.05, 1.5]} />
                 <meshBasicMaterial color="#f59e0b" />
@@ -143,165 +335,124 @@ const ProductHousing = () => {
                 </mesh>
             </mesh>
         </group>
+
+        {tank && <CollectionTank tank={tank} />}
     </group>
   )
 }
 
-// --- Physics & Particle System ---
-
-const COUNT_WATER = 500;
-const COUNT_PLASTIC = 100;
-const COUNT_ALGAE = 100;
-const COUNT_SEDIMENT = 100;
+// --- Particle Rendering ---
 
-const AdvancedParticleSystem = ({ flowRate, density, isRunning, viewMode }: { flowRate: number, density: number, isRunning: boolean, viewMode: ViewMode }) => {
-  const waterMesh = useRef<THREE.InstancedMesh>(null);
-  const plasticMesh = useRef<THREE.InstancedMesh>(null);
-  const algaeMesh = useRef<THREE.InstancedMesh>(null);
-  const sedimentMesh = useRef<THREE.InstancedMesh>(null);
-  
-  const dummy = useMemo(() => new THREE.Object3D(), []);
-  
-  // Simulation bounds
-  const START_Z = 10;
-  const END_Z = -15;
-  const CONE_SLOPE = 0.15;
-  const INITIAL_RADIUS = 2.5;
-
-  const particles = useMemo(() => {
-    const items = [];
-    const total = COUNT_WATER + COUNT_PLASTIC + COUNT_ALGAE + COUNT_SEDIMENT;
-    
-    for (let i = 0; i < total; i++) {
-        let type = ParticleType.WATER;
-        if (i >= COUNT_WATER && i < COUNT_WATER + COUNT_PLASTIC) type = ParticleType.MICROPLASTIC;
-        else if (i >= COUNT_WATER + COUNT_PLASTIC && i < COUNT_WATER + COUNT_PLASTIC + COUNT_ALGAE) type = ParticleType.ALGAE;
-        else if (i >= COUNT_WATER + COUNT_PLASTIC + COUNT_ALGAE) type = ParticleType.SEDIMENT;
-
-        const radius = Math.random() * INITIAL_RADIUS;
-        const angle = Math.random() * Math.PI * 2;
-        
-        items.push({
-            position: new THREE.Vector3(
-                Math.cos(angle) * radius,
-                Math.sin(angle) * radius,
-                START_Z + Math.random() * 20
-            ),
-            velocity: new THREE.Vector3(
-                (Math.random() - 0.5) * 0.1, 
-                (Math.random() - 0.5) * 0.1, 
-                -(0.5 + Math.random() * 0.5)
-            ),
-            type,
-            rotation: new THREE.Euler(Math.random(), Math.random(), Math.random()),
-            rotationSpeed: Math.random() * 0.1,
-            filtered: false
-        });
+const ContaminantShapeGeometry = ({ shape }: { shape: ContaminantShape }) => {
+    switch (shape) {
+        case 'sphere': return <sphereGeometry args={[1, 10, 8]} />;
+        case 'box': return <boxGeometry args={[1, 1, 1]} />;
+        case 'tetrahedron': return <tetrahedronGeometry args={[1, 0]} />;
+        case 'octahedron': return <octahedronGeometry args={[1, 0]} />;
+        case 'dodecahedron': return <dodecahedronGeometry args={[1, 0]} />;
+        case 'icosahedron': return <icosahedronGeometry args={[1, 0]} />;
     }
-    return items;
-  }, []);
+};
 
-  useFrame((state, delta) => {
-    if (!isRunning) return;
-    if (!waterMesh.current || !plasticMesh.current || !algaeMesh.current || !sedimentMesh.current) return;
-
-    let waterIdx = 0;
-    let plasticIdx = 0;
-    let algaeIdx = 0;
-    let sedimentIdx = 0;
-
-    particles.forEach((p) => {
-        // 1. Move Forward
-        const speedMultiplier = flowRate * 10 * delta;
-        p.position.addScaledVector(p.velocity, speedMultiplier);
-
-        // 2. Rotate
-        if (p.type !== ParticleType.WATER) {
-            p.rotation.x += p.rotationSpeed;
-            p.rotation.y += p.rotationSpeed;
-        }
+// Instances move every frame, so picking tests against one sphere around the whole scene instead of a stale fit
+const SCENE_BOUNDS = new THREE.Sphere(new THREE.Vector3(0, 0, (START_Z + END_Z) / 2), 20);
+// Pointer travel (px) beyond which a press is an orbit drag, not a click
+const CLICK_TOLERANCE = 4;
 
-        // 3. Filter Interaction
-        const depth = START_Z - p.position.z;
-        const currentConeRadius = Math.max(0.5, INITIAL_RADIUS - (depth * CONE_SLOPE));
-        const distFromCenter = Math.sqrt(p.position.x**2 + p.position.y**2);
-
-        if (p.position.z < 5 && p.position.z > -10) {
-            if (p.type !== ParticleType.WATER) {
-                // SOLIDS (Plastic, Algae, Sediment) Ricochet
-                if (distFromCenter >= currentConeRadius - 0.2) {
-                    const angle = Math.atan2(p.position.y, p.position.x);
-                    p.position.x = Math.cos(angle) * (currentConeRadius - 0.3);
-                    p.position.y = Math.sin(angle) * (currentConeRadius - 0.3);
-                    p.velocity.x += -Math.cos(angle) * 0.5;
-                    p.velocity.y += -Math.sin(angle) * 0.5;
-                    p.velocity.z *= 1.1; // Accelerate down the chute
-                }
-                // Hydrodynamic focusing
-                p.position.x = THREE.MathUtils.lerp(p.position.x, 0, 0.01);
-                p.position.y = THREE.MathUtils.lerp(p.position.y, 0, 0.01);
-
-            } else {
-                // Water Permeation
-                if (distFromCenter > currentConeRadius * 0.8 && !p.filtered) {
-                    const angle = Math.atan2(p.position.y, p.position.x);
-                    p.velocity.x += Math.cos(angle) * 0.05;
-                    p.velocity.y += Math.sin(angle) * 0.05;
-                    p.velocity.z *= 0.9;
-                    if (distFromCenter > currentConeRadius) p.filtered = true;
-                }
-            }
-        }
+interface ParticlePicking {
+  onHover: (p: Particle | null) => void;
+  onSelect: (p: Particle, additive: boolean) => void;
+}
 
-        // 4. Reset
-        if (p.position.z < END_Z || Math.abs(p.position.x) > 5) {
-            const angle = Math.random() * Math.PI * 2;
-            const r = Math.random() * INITIAL_RADIUS;
-            p.position.set(
-                Math.cos(angle) * r,
-                Math.sin(angle) * r,
-                START_Z + Math.random() * 5
-            );
-            p.velocity.set(
-                (Math.random() - 0.5) * 0.1,
-                (Math.random() - 0.5) * 0.1,
-                -(0.5 + Math.random() * 0.5)
-            );
-            p.filtered = false;
-        }
+interface ParticleMeshesProps {
+  getParticles: () => readonly Particle[];
+  // Models that fill their own frames (a worker engine) hand them over; others are written into a local frame
+  getFrame?: () => ParticleFrame | null;
+  // Capacity of the meshes, as a multiple of the detail-1 population
+  detail?: number;
+  isRunning: boolean;
+  viewMode: ViewMode;
+  beforeDraw?: (delta: number) => void;
+  picking?: ParticlePicking;
+}
 
-        dummy.position.copy(p.position);
-        dummy.rotation.copy(p.rotation);
-        
-        // Scale/Visibility logic
-        let s = 0.08;
-        if (p.type === ParticleType.MICROPLASTIC) s = 0.15;
-        if (p.type === ParticleType.ALGAE) s = 0.12;
-        if (p.type === ParticleType.SEDIMENT) s = 0.1;
-        
-        if (p.type === ParticleType.WATER && p.filtered) s *= 0.1;
-        dummy.scale.set(s, s, s);
+// Draws a particle population once per frame, after `beforeDraw` has had the chance to advance it.
+// Instanced meshes are allocated once at full capacity and drawn with a variable `count`,
+// so resizing the population never rebuilds GPU buffers or remounts the scene.
+const ParticleMeshes = ({ getParticles, getFrame, detail = 1, isRunning, viewMode, beforeDraw, picking }: ParticleMeshesProps) => {
+  const waterMesh = useRef<THREE.InstancedMesh>(null);
+  // One mesh per registry entry, in registry order
+  const contaminantMeshes = useRef<(THREE.InstancedMesh | null)[]>([]);
+  const waterCapacity = Math.ceil(COUNT_WATER * detail);
+  const contaminantCapacity = Math.ceil(MAX_CONTAMINANTS * detail);
+  const capacity = getPopulationCapacity(detail);
+  const localFrame = useMemo(() => createParticleFrame(capacity), [capacity]);
+  // Population index behind each drawn instance, so a picked instance maps back to its particle
+  const drawn = useMemo(() => ({ slots: new Int32Array(capacity), offsets: new Array<number>(MESH_COUNT).fill(0) }), [capacity]);
 
-        dummy.updateMatrix();
+  useEffect(() => {
+    if (!picking) return;
+    for (const mesh of [waterMesh.current, ...contaminantMeshes.current]) if (mesh) mesh.boundingSphere = SCENE_BOUNDS;
+    return () => { document.body.style.cursor = ''; };
+  }, [picking, capacity]);
 
-        if (p.type === ParticleType.WATER) waterMesh.current.setMatrixAt(waterIdx++, dummy.matrix);
-        else if (p.type === ParticleType.MICROPLASTIC) plasticMesh.current.setMatrixAt(plasticIdx++, dummy.matrix);
-        else if (p.type === ParticleType.ALGAE) algaeMesh.current.setMatrixAt(algaeIdx++, dummy.matrix);
-        else if (p.type === ParticleType.SEDIMENT) sedimentMesh.current.setMatrixAt(sedimentIdx++, dummy.matrix);
-    });
+  const pickHandlers = (meshIndex: number) => picking && {
+    onPointerMove: (e: ThreeEvent<PointerEvent>) => {
+      e.stopPropagation();
+      const p = getParticles()[drawn.slots[drawn.offsets[meshIndex] + e.instanceId]];
+      if (!p) return;
+      picking.onHover(p);
+      document.body.style.cursor = 'pointer';
+    },
+    onPointerOut: () => {
+      picking.onHover(null);
+      document.body.style.cursor = '';
+    },
+    onClick: (e: ThreeEvent<MouseEvent>) => {
+      e.stopPropagation();
+      const p = getParticles()[drawn.slots[drawn.offsets[meshIndex] + e.instanceId]];
+      if (p && e.delta <= CLICK_TOLERANCE) picking.onSelect(p, e.shiftKey);
+    }
+  };
+
+  const drawMesh = (mesh: THREE.InstancedMesh, frame: ParticleFrame, meshIndex: number, meshCapacity: number) => {
+    const offset = getMeshOffset(frame, meshIndex);
+    const count = Math.min(getMeshCount(frame, meshIndex), meshCapacity);
+    const matrices = mesh.instanceMatrix;
+    (matrices.array as Float32Array).set(frame.matrices.subarray(offset * 16, (offset + count) * 16));
+    // Upload only the instances in use
+    matrices.clearUpdateRanges();
+    matrices.addUpdateRange(0, count * 16);
+    matrices.needsUpdate = true;
+    mesh.count = count;
+    drawn.offsets[meshIndex] = offset;
+  };
 
-    waterMesh.current.instanceMatrix.needsUpdate = true;
-    plasticMesh.current.instanceMatrix.needsUpdate = true;
-    algaeMesh.current.instanceMatrix.needsUpdate = true;
-    sedimentMesh.current.instanceMatrix.needsUpdate = true;
+  useFrame((state, delta) => {
+    if (!isRunning) return;
+    const meshes = contaminantMeshes.current;
+    if (!waterMesh.current || meshes.length < CONTAMINANTS.length || meshes.some(m => !m)) return;
+
+    beforeDraw?.(delta);
+
+    let frame = localFrame;
+    if (getFrame) {
+      frame = getFrame();
+      if (!frame) return;
+    } else {
+      writeParticleFrame(frame, getParticles());
+    }
+    drawn.slots.set(frame.slots.subarray(0, Math.min(getParticleCount(frame), capacity)));
+    drawMesh(waterMesh.current, frame, WATER_MESH, waterCapacity);
+    meshes.forEach((mesh, i) => drawMesh(mesh, frame, i, contaminantCapacity));
   });
 
   return (
     <group>
-        <instancedMesh ref={waterMesh} args={[undefined, undefined, COUNT_WATER]}>
+        <instancedMesh ref={waterMesh} args={[undefined, undefined, waterCapacity]} {...pickHandlers(WATER_MESH)}>
             <sphereGeometry args={[1, 8, 8]} />
             <meshBasicMaterial 
-                color={viewMode === 'PRODUCT' ? "#38bdf8" : "#60a5fa"} 
+                color={viewMode === 'PRODUCT' ? "#38bdf8" : WATER_STYLE.color} 
                 transparent 
                 opacity={0.4} 
                 blending={THREE.AdditiveBlending}
@@ -309,83 +460,722 @@ const AdvancedParticleSystem = ({ flowRate, density, isRunning, viewMode }: { fl
             />
         </instancedMesh>
 
-        <instancedMesh ref={plasticMesh} args={[undefined, undefined, COUNT_PLASTIC]}>
-            <dodecahedronGeometry args={[1, 0]} />
-            <meshStandardMaterial 
-                color="#ef4444" 
-                roughness={0.2} 
-                metalness={0.5}
-                emissive="#991b1b"
-                emissiveIntensity={0.5}
+        {CONTAMINANTS.map((contaminant, i) => (
+            <instancedMesh
+                key={contaminant.id}
+                ref={(mesh) => { contaminantMeshes.current[i] = mesh; }}
+                args={[undefined, undefined, contaminantCapacity]}
+                {...pickHandlers(i)}
+            >
+                <ContaminantShapeGeometry shape={contaminant.shape} />
+                <meshStandardMaterial 
+                    color={contaminant.color} 
+                    roughness={contaminant.material.roughness} 
+                    metalness={contaminant.material.metalness}
+                    emissive={contaminant.material.emissive ?? '#000000'}
+                    emissiveIntensity={contaminant.material.emissive ? 0.5 : 0}
+                />
+            </instancedMesh>
+        ))}
+    </group>
+  );
+};
+
+// Draws any headless filter model and advances it once per frame
+const ParticleInstances = ({ model, detail, isRunning, viewMode, onMetrics, onAdvance, picking }: { model: FilterModel & { frame?: ParticleFrame | null }, detail?: number, isRunning: boolean, viewMode: ViewMode, onMetrics?: MetricsHandler, onAdvance?: (model: FilterModel) => void, picking?: ParticlePicking }) => {
+  const sinceMetrics = useRef(0);
+
+  const advance = (delta: number) => {
+    model.advance(delta);
+    onAdvance?.(model);
+
+    sinceMetrics.current += delta;
+    if (onMetrics && sinceMetrics.current >= METRICS_INTERVAL) {
+        sinceMetrics.current = 0;
+        onMetrics(model.getMetrics());
+    }
+  };
+
+  const getFrame = 'frame' in model ? () => model.frame : undefined;
+  return <ParticleMeshes getParticles={() => model.particles} getFrame={getFrame} detail={detail} isRunning={isRunning} viewMode={viewMode} beforeDraw={advance} picking={picking} />;
+};
+
+// --- Cross-Section ---
+
+const AXIAL_COLOR = new THREE.Color('#22d3ee');
+const TANGENTIAL_COLOR = new THREE.Color('#f97316');
+const STREAMLINE_COLOR = '#f8fafc';
+const RECIRCULATION_COLOR = '#e879f9';
+// Swirl making up this share of a cell's speed draws fully tangential
+const FULL_TANGENTIAL_SHARE = 0.25;
+const STREAMLINE_SEEDS = 9;
+// Keeps the overlay just on the visible side of the cut
+const OVERLAY_LIFT = 0.02;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+/** Rebuilds the overlay buffers from the averaged field; positions are in the plane's frame (x = s, y = 0). */
+const buildSectionBuffers = (field: FlowField, geometry: FilterGeometry) => {
+  const cells = field.getCells(geometry);
+  const maxSpeed = Math.max(1e-6, ...cells.map(c => Math.hypot(c.axial, c.radial)));
+  const arrows: number[] = [];
+  const arrowColors: number[] = [];
+  const recirculation: number[] = [];
+  const color = new THREE.Color();
+  for (const cell of cells) {
+    // Back to plane coordinates: outward is +s on one side of the axis and -s on the other
+    const vs = (cell.s < 0 ? -1 : 1) * cell.radial;
+    const length = (Math.hypot(vs, cell.axial) / maxSpeed) * CELL_SIZE * 0.9;
+    const angle = Math.atan2(cell.axial, vs);
+    const dx = Math.cos(angle) * length;
+    const dz = Math.sin(angle) * length;
+    const x0 = cell.s - dx / 2, z0 = cell.z - dz / 2;
+    const x1 = cell.s + dx / 2, z1 = cell.z + dz / 2;
+    const head = length * 0.35;
+    // Shaft plus two barbs
+    arrows.push(
+      x0, 0, z0, x1, 0, z1,
+      x1, 0, z1, x1 - Math.cos(angle - 0.5) * head, 0, z1 - Math.sin(angle - 0.5) * head,
+      x1, 0, z1, x1 - Math.cos(angle + 0.5) * head, 0, z1 - Math.sin(angle + 0.5) * head
+    );
+    const swirl = Math.abs(cell.tangential) / (Math.abs(cell.axial) + Math.abs(cell.tangential) + 1e-6);
+    color.copy(AXIAL_COLOR).lerp(TANGENTIAL_COLOR, Math.min(1, swirl / FULL_TANGENTIAL_SHARE));
+    for (let i = 0; i < 6; i++) arrowColors.push(color.r, color.g, color.b);
+    if (cell.recirculating) {
+      const h = CELL_SIZE / 2;
+      recirculation.push(
+        cell.s - h, 0, cell.z - h, cell.s + h, 0, cell.z - h, cell.s + h, 0, cell.z + h,
+        cell.s - h, 0, cell.z - h, cell.s + h, 0, cell.z + h, cell.s - h, 0, cell.z + h
+      );
+    }
+  }
+  // Seeds spread across the inlet, as lines of segments
+  const span = geometry.inletRadius * 0.9;
+  const seeds = Array.from({ length: STREAMLINE_SEEDS }, (_, i) => -span + (2 * span * i) / (STREAMLINE_SEEDS - 1));
+  const streamlines: number[] = [];
+  for (const line of field.traceStreamlines(seeds)) {
+    for (let i = 1; i < line.length; i++) streamlines.push(line[i - 1][0], 0, line[i - 1][1], line[i][0], 0, line[i][1]);
+  }
+  return { cells, arrows, arrowColors, recirculation, streamlines };
+};
+
+const setPositions = (target: THREE.BufferGeometry, positions: number[]) => {
+  target.setAttribute('position', new THREE.Float32BufferAttribute(positions, 3));
+  target.computeBoundingSphere();
+};
+
+// Cuts the scene along a plane through the filter axis and draws the sampled flow field on it.
+// The half nearer the camera is clipped away, whichever side of the plane the camera orbits to.
+const FlowSectionOverlay = ({ field, geometry, settings, onSummary }: { field: FlowField, geometry: FilterGeometry, settings: SectionSettings, onSummary?: (summary: FlowSummary) => void }) => {
+  const gl = useThree(state => state.gl);
+  const group = useRef<THREE.Group>(null);
+  const lift = useRef<THREE.Group>(null);
+  const plane = useMemo(() => new THREE.Plane(), []);
+  const buffers = useMemo(() => {
+    const created = {
+      arrows: new THREE.BufferGeometry(),
+      streamlines: new THREE.BufferGeometry(),
+      recirculation: new THREE.BufferGeometry()
+    };
+    // Empty until the first update, a frame later at most
+    Object.values(created).forEach(b => setPositions(b, []));
+    return created;
+  }, []);
+  const sinceUpdate = useRef(Infinity);
+
+  useEffect(() => {
+    gl.clippingPlanes = [plane];
+    return () => { gl.clippingPlanes = []; };
+  }, [gl, plane]);
+
+  useEffect(() => () => Object.values(buffers).forEach(b => b.dispose()), [buffers]);
+
+  // A new plane or filter shape invalidates what is drawn now
+  useEffect(() => {
+    sinceUpdate.current = Infinity;
+  }, [settings.angle, geometry]);
+
+  const normal = useMemo(() => new THREE.Vector3(), []);
+  const origin = useMemo(() => new THREE.Vector3(), []);
+  useFrame(({ camera }, delta) => {
+    if (!group.current || !lift.current) return;
+    group.current.updateWorldMatrix(true, false);
+    origin.setFromMatrixPosition(group.current.matrixWorld);
+    normal.set(0, 1, 0).transformDirection(group.current.matrixWorld);
+    // Keep the far half: flip the normal to point away from the camera
+    const side = normal.dot(camera.position) - normal.dot(origin) > 0 ? -1 : 1;
+    normal.multiplyScalar(side);
+    plane.setFromNormalAndCoplanarPoint(normal, origin);
+    lift.current.position.y = side * OVERLAY_LIFT;
+
+    sinceUpdate.current += delta;
+    if (sinceUpdate.current < METRICS_INTERVAL) return;
+    sinceUpdate.current = 0;
+    const { cells, arrows, arrowColors, recirculation, streamlines } = buildSectionBuffers(field, geometry);
+    setPositions(buffers.arrows, arrows);
+    buffers.arrows.setAttribute('color', new THREE.Float32BufferAttribute(arrowColors, 3));
+    setPositions(buffers.streamlines, streamlines);
+    setPositions(buffers.recirculation, recirculation);
+    onSummary?.(getFlowSummary(cells));
+  });
+
+  return (
+    <group ref={group} rotation={[0, 0, toRadians(settings.angle)]}>
+      <group ref={lift}>
+        {/* The cut face */}
+        <mesh position={[0, 0, (START_Z + END_Z) / 2]} rotation={[Math.PI / 2, 0, 0]}>
+          <planeGeometry args={[HALF_WIDTH * 2, START_Z - END_Z]} />
+          <meshBasicMaterial color="#38bdf8" transparent opacity={0.05} side={THREE.DoubleSide} depthWrite={false} />
+        </mesh>
+        {settings.recirculation && (
+          <mesh geometry={buffers.recirculation}>
+            <meshBasicMaterial color={RECIRCULATION_COLOR} transparent opacity={0.45} side={THREE.DoubleSide} depthWrite={false} />
+          </mesh>
+        )}
+        {settings.arrows && (
+          <lineSegments geometry={buffers.arrows}>
+            <lineBasicMaterial vertexColors transparent opacity={0.85} />
+          </lineSegments>
+        )}
+        {settings.streamlines && (
+          <lineSegments geometry={buffers.streamlines}>
+            <lineBasicMaterial color={STREAMLINE_COLOR} transparent opacity={0.6} />
+          </lineSegments>
+        )}
+      </group>
+    </group>
+  );
+};
+
+// --- Particle Inspection ---
+
+const HOVER_COLOR = '#ffffff';
+// Oldest end of a trail fades to this opacity
+const TRAIL_TAIL_OPACITY = 0.05;
+const TRAIL_CAPACITY = 900;
+
+// Fading trails, ricochet points and a halo for each followed particle, plus a halo on the hovered one
+const ParticleTrails = ({ tracker }: { tracker: ParticleTracker }) => {
+  const trails = useMemo(() => TRACK_COLORS.map(color => {
+    const geometry = new THREE.BufferGeometry();
+    geometry.setAttribute('position', new THREE.BufferAttribute(new Float32Array(TRAIL_CAPACITY * 3), 3));
+    geometry.setAttribute('color', new THREE.BufferAttribute(new Float32Array(TRAIL_CAPACITY * 4), 4));
+    geometry.setDrawRange(0, 0);
+    const ricochets = new THREE.BufferGeometry();
+    ricochets.setAttribute('position', new THREE.BufferAttribute(new Float32Array(TRAIL_CAPACITY * 3), 3));
+    ricochets.setDrawRange(0, 0);
+    return { color: new THREE.Color(color), geometry, ricochets };
+  }), []);
+  const halos = useRef<(THREE.Mesh | null)[]>([]);
+  const hoverHalo = useRef<THREE.Mesh>(null);
+
+  useEffect(() => () => trails.forEach(t => { t.geometry.dispose(); t.ricochets.dispose(); }), [trails]);
+
+  useFrame(() => {
+    const { tracks, hovered } = tracker;
+    trails.forEach((trail, i) => {
+      const track = tracks.find(t => t.colorIndex === i);
+      const halo = halos.current[i];
+      if (!track) {
+        trail.geometry.setDrawRange(0, 0);
+        trail.ricochets.setDrawRange(0, 0);
+        if (halo) halo.visible = false;
+        return;
+      }
+      const positions = trail.geometry.attributes.position as THREE.BufferAttribute;
+      const colors = trail.geometry.attributes.color as THREE.BufferAttribute;
+      const count = Math.min(track.points.length, TRAIL_CAPACITY);
+      const start = track.points.length - count;
+      for (let j = 0; j < count; j++) {
+        const point = track.points[start + j];
+        positions.setXYZ(j, point.x, point.y, point.z);
+        const alpha = TRAIL_TAIL_OPACITY + (1 - TRAIL_TAIL_OPACITY) * (count > 1 ? j / (count - 1) : 1);
+        colors.setXYZW(j, trail.color.r, trail.color.g, trail.color.b, alpha);
+      }
+      positions.needsUpdate = true;
+      colors.needsUpdate = true;
+      trail.geometry.setDrawRange(0, count);
+      trail.geometry.computeBoundingSphere();
+
+      const bounces = trail.ricochets.attributes.position as THREE.BufferAttribute;
+      const bounceCount = Math.min(track.ricochetPoints.length, TRAIL_CAPACITY);
+      track.ricochetPoints.slice(-bounceCount).forEach((point, j) => bounces.setXYZ(j, point.x, point.y, point.z));
+      bounces.needsUpdate = true;
+      trail.ricochets.setDrawRange(0, bounceCount);
+      trail.ricochets.computeBoundingSphere();
+
+      if (halo) {
+        // A particle that has left stays marked where it left
+        const last = track.points[track.points.length - 1];
+        halo.visible = true;
+        halo.position.set(last.x, last.y, last.z);
+      }
+    });
+    if (hoverHalo.current) {
+      hoverHalo.current.visible = hovered !== null;
+      if (hovered) hoverHalo.current.position.set(hovered.x, hovered.y, hovered.z);
+    }
+  });
+
+  return (
+    <group>
+      {trails.map((trail, i) => (
+        <group key={i}>
+          <line>
+            <primitive object={trail.geometry} attach="geometry" />
+            <lineBasicMaterial vertexColors transparent depthWrite={false} />
+          </line>
+          <points geometry={trail.ricochets}>
+            <pointsMaterial color={trail.color} size={0.12} sizeAttenuation transparent opacity={0.9} depthWrite={false} />
+          </points>
+          <mesh ref={(mesh) => { halos.current[i] = mesh; }} visible={false}>
+            <sphereGeometry args={[0.18, 12, 8]} />
+            <meshBasicMaterial color={trail.color} wireframe transparent opacity={0.8} />
+          </mesh>
+        </group>
+      ))}
+      <mesh ref={hoverHalo} visible={false}>
+        <sphereGeometry args={[0.15, 12, 8]} />
+        <meshBasicMaterial color={HOVER_COLOR} wireframe transparent opacity={0.6} />
+      </mesh>
+    </group>
+  );
+};
+
+interface FilterModelProps {
+  flowRate: number;
+  density: number;
+  mix: ContaminantMix;
+  sizes: SizeDistributions;
+  isRunning: boolean;
+  viewMode: ViewMode;
+  onMetrics?: MetricsHandler;
+}
+
+// Worker frames hold the largest population any detail setting asks for, so they never need reallocating
+const WORKER_CAPACITY = getPopulationCapacity(DETAIL_LEVELS[DETAIL_LEVELS.length - 1]);
+
+// A worker-run engine, which export drives itself so each frame waits for the worker's result
+type LockstepModel = Pick<WorkerEngine, 'setLockstep' | 'advanceExactly'>;
+
+const createFiltrationWorker = () =>
+  new Worker(new URL('../simulation/filtrationWorker.ts', import.meta.url), { type: 'module' });
+
+// The physics lives in a headless engine; this component only keeps it in sync and draws it
+const AdvancedParticleSystem = ({ flowRate, density, mix, sizes, geometry, isRunning, viewMode, onMetrics, recorder, replay, section, onSectionSummary, tracker, performance, onPerformance, lockstepRef }: FilterModelProps & { geometry: FilterGeometry, recorder?: RunRecorder, replay?: ReplayModel | null, section?: SectionSettings, onSectionSummary?: (summary: FlowSummary) => void, tracker?: ParticleTracker, performance?: PerformanceSettings, onPerformance?: (readings: PerformanceReadings) => void, lockstepRef?: React.MutableRefObject<LockstepModel | null> }) => {
+  const mainEngine = useMemo(() => createFiltrationEngine({ seed: DEFAULT_SEED, flowRate, density, mix, geometry, sizes }), []);
+  const [workerEngine, setWorkerEngine] = useState<WorkerEngine | null>(null);
+  const engine: FiltrationEngine = workerEngine ?? mainEngine;
+  const field = useMemo(() => createFlowField(), []);
+  const governor = useMemo(() => createQualityGovernor(), []);
+  const applied = useRef<{ engine: FiltrationEngine | null, detail: number }>({ engine: null, detail: 1 });
+  const sinceReadings = useRef(0);
+  const sectionOn = section?.enabled ?? false;
+  const thread = performance?.thread ?? 'main';
+  const maxDetail = performance?.detail ?? 1;
+  const adaptive = performance?.adaptive ?? false;
+
+  // The worker starts its own seeded run; switching back resumes the main-thread engine where it stopped
+  useEffect(() => {
+    if (thread !== 'worker' || typeof Worker === 'undefined') return;
+    const next = createWorkerEngine(createFiltrationWorker(), { seed: DEFAULT_SEED, flowRate, density, mix, geometry, sizes, detail: applied.current.detail }, WORKER_CAPACITY);
+    setWorkerEngine(next);
+    return () => {
+      next.dispose();
+      setWorkerEngine(null);
+    };
+  }, [thread]);
+
+  // Offered to export only while the worker's particles are the ones advancing on screen
+  useEffect(() => {
+    if (!lockstepRef || !workerEngine || !isRunning || replay) return;
+    lockstepRef.current = workerEngine;
+    return () => { lockstepRef.current = null; };
+  }, [lockstepRef, workerEngine, isRunning, replay]);
+
+  useEffect(() => {
+    engine.setFlowRate(flowRate);
+  }, [engine, flowRate]);
+
+  useEffect(() => {
+    engine.setPopulation(density, mix);
+  }, [engine, density, mix]);
+
+  useEffect(() => {
+    engine.setGeometry(geometry);
+  }, [engine, geometry]);
+
+  useEffect(() => {
+    engine.setSizeDistributions(sizes);
+  }, [engine, sizes]);
+
+  // Followed particles and flow averages belong to the engine that produced them
+  useEffect(() => {
+    tracker?.clear();
+    field.reset();
+  }, [engine]);
+
+  // A new detail setting starts the adaptive search over from it
+  useEffect(() => {
+    governor.reset();
+  }, [governor, maxDetail, adaptive]);
+
+  useEffect(() => {
+    field.setAngle(toRadians(section?.angle ?? 0));
+  }, [field, section?.angle]);
+
+  // Averages from before the section was hidden are stale by the time it is shown again
+  useEffect(() => {
+    if (!sectionOn) field.reset();
+  }, [field, sectionOn]);
+
+  useFrame((_, delta) => {
+    // A worker that cannot keep up slows the simulation rather than the frame rate, so count its time too
+    const load = workerEngine ? Math.max(delta, workerEngine.stepMs / 1000) : delta;
+    const stepped = governor.sample(load, maxDetail, adaptive && isRunning && !replay);
+    const detail = adaptive ? stepped : maxDetail;
+    if (applied.current.engine !== engine || applied.current.detail !== detail) {
+      engine.setDetail(detail);
+      applied.current = { engine, detail };
+    }
+
+    sinceReadings.current += delta;
+    if (onPerformance && sinceReadings.current >= METRICS_INTERVAL) {
+      sinceReadings.current = 0;
+      onPerformance({ fps: governor.fps, detail, particles: engine.particles.length, stepMs: workerEngine ? workerEngine.stepMs : null });
+    }
+  });
+
+  const capture = (model: FilterModel) => {
+    recorder?.capture(model);
+    if (sectionOn) field.sample(model.particles, flowRate, model.time);
+    tracker?.record(flowRate);
+  };
+
+  const picking = useMemo<ParticlePicking | undefined>(() => tracker && {
+    onHover: tracker.hover,
+    onSelect: tracker.select
+  }, [tracker]);
+
+  // Playback swaps the model being drawn; the live engine stays mounted, frozen where it was, and so does the field
+  const particles = replay
+    ? <ParticleInstances model={replay} detail={maxDetail} isRunning viewMode={viewMode} />
+    : <ParticleInstances model={engine} detail={maxDetail} isRunning={isRunning} viewMode={viewMode} onMetrics={onMetrics} onAdvance={capture} picking={picking} />;
+
+  return (
+    <>
+      {particles}
+      {tracker && !replay && <ParticleTrails tracker={tracker} />}
+      {sectionOn && <FlowSectionOverlay field={field} geometry={geometry} settings={section} onSummary={onSectionSummary} />}
+    </>
+  );
+};
+
+// --- Filter Cascade ---
+
+const getStageOffset = (index: number, count: number) => (index - (count - 1) / 2) * STAGE_SPACING;
+
+// One headless train; each stage draws its own particles, and the first stage's draw advances the whole train
+const CascadeTrain = ({ stages, flowRate, density, mix, sizes, isRunning, viewMode, onMetrics }: Omit<FilterModelProps, 'onMetrics'> & { stages: CascadeStage[], onMetrics?: (metrics: CascadeMetrics) => void }) => {
+  const engine = useMemo(() => createCascadeEngine({ seed: DEFAULT_SEED, flowRate, density, mix, sizes, stages }), []);
+  const sinceMetrics = useRef(0);
+
+  useEffect(() => {
+    engine.setFlowRate(flowRate);
+  }, [engine, flowRate]);
+
+  useEffect(() => {
+    engine.setPopulation(density, mix);
+  }, [engine, density, mix]);
+
+  useEffect(() => {
+    engine.setSizeDistributions(sizes);
+  }, [engine, sizes]);
+
+  useEffect(() => {
+    engine.setStages(stages);
+  }, [engine, stages]);
+
+  const advance = (delta: number) => {
+    engine.advance(delta);
+    sinceMetrics.current += delta;
+    if (onMetrics && sinceMetrics.current >= METRICS_INTERVAL) {
+        sinceMetrics.current = 0;
+        onMetrics(engine.getMetrics());
+    }
+  };
+
+  return (
+    <>
+      {stages.map((stage, i) => (
+        <group key={i} position={[getStageOffset(i, stages.length), 0, 0]}>
+            <FilterArches geometry={stage.geometry} viewMode={viewMode} />
+            <ParticleMeshes
+                getParticles={() => engine.stages[i]?.particles ?? []}
+                isRunning={isRunning}
+                viewMode={viewMode}
+                beforeDraw={i === 0 ? advance : undefined}
             />
-        </instancedMesh>
+            <CompareLabel text={i === 0 ? 'STAGE 1 · FEED' : `STAGE ${i + 1} · ${stage.feedFrom.toUpperCase()} OF ${i}`} color="#38bdf8" />
+        </group>
+      ))}
+    </>
+  );
+};
+
+// --- Dead-End Sieve (comparison) ---
+
+const CompareLabel = ({ text, color }: { text: string, color: string }) => (
+    <Text position={[0, 3.6, 4]} fontSize={0.45} color={color} anchorX="center" anchorY="middle" outlineWidth={0.02} outlineColor="#000000">
+        {text}
+    </Text>
+);
+
+const DeadEndSieve = ({ flowRate, density, mix, sizes, isRunning, viewMode, onMetrics }: FilterModelProps) => {
+  const cakeMesh = useRef<THREE.InstancedMesh>(null);
+  const engine = useMemo(() => createSieveEngine({ seed: DEFAULT_SEED, flowRate, density, mix, sizes }), []);
+  const dummy = useMemo(() => new THREE.Object3D(), []);
+  const cells = useMemo(() => Array.from({ length: SCREEN_GRID * SCREEN_GRID }, (_, i) => i).filter(isScreenCell), []);
+  const cellSize = (SIEVE_RADIUS * 2) / SCREEN_GRID;
+
+  useEffect(() => {
+    engine.setFlowRate(flowRate);
+  }, [engine, flowRate]);
+
+  useEffect(() => {
+    engine.setPopulation(density, mix);
+  }, [engine, density, mix]);
+
+  useEffect(() => {
+    engine.setSizeDistributions(sizes);
+  }, [engine, sizes]);
+
+  // Grow a slab of cake on each screen cell in proportion to its blockage
+  useFrame(() => {
+    if (!cakeMesh.current) return;
+    cells.forEach((cell, i) => {
+        const load = engine.screenLoad[cell];
+        const { x, y } = getScreenCellCenter(cell);
+        const thickness = Math.max(0.001, load * 0.4);
+        dummy.position.set(x, y, SCREEN_Z + thickness / 2);
+        dummy.rotation.set(0, 0, 0);
+        dummy.scale.set(load > 0 ? cellSize * 0.95 : 0, load > 0 ? cellSize * 0.95 : 0, thickness);
+        dummy.updateMatrix();
+        cakeMesh.current.setMatrixAt(i, dummy.matrix);
+    });
+    cakeMesh.current.instanceMatrix.needsUpdate = true;
+  });
 
-        {/* ALGAE - Organic Green Shapes */}
-        <instancedMesh ref={algaeMesh} args={[undefined, undefined, COUNT_ALGAE]}>
-            <icosahedronGeometry args={[1, 0]} />
-            <meshStandardMaterial 
-                color="#22c55e" // Green-500
-                roughness={0.8} 
-                metalness={0.1}
+  return (
+    <group>
+        {/* Straight Pipe */}
+        <mesh position={[0, 0, (START_Z + END_Z) / 2]} rotation={[Math.PI/2, 0, 0]}>
+            <cylinderGeometry args={[SIEVE_RADIUS, SIEVE_RADIUS, START_Z - END_Z, 32, 1, true]} />
+            <meshPhysicalMaterial 
+                color="#cbd5e1" 
+                transmission={0.9} 
+                roughness={0.1} 
+                thickness={0.5} 
+                transparent 
+                opacity={0.2} 
+                side={THREE.DoubleSide}
             />
-        </instancedMesh>
+        </mesh>
+
+        {/* Mesh Screen */}
+        <mesh position={[0, 0, SCREEN_Z]}>
+            <circleGeometry args={[SIEVE_RADIUS, 32]} />
+            <meshStandardMaterial color="#94a3b8" wireframe transparent opacity={0.5} />
+        </mesh>
 
-        {/* SEDIMENT - Heavy Brown Blocks */}
-        <instancedMesh ref={sedimentMesh} args={[undefined, undefined, COUNT_SEDIMENT]}>
+        {/* Filter Cake */}
+        <instancedMesh ref={cakeMesh} args={[undefined, undefined, cells.length]}>
             <boxGeometry args={[1, 1, 1]} />
-            <meshStandardMaterial 
-                color="#a16207" // Yellow-800 (Brown)
-                roughness={0.9} 
-                metalness={0.2}
-            />
+            <meshStandardMaterial color="#78350f" roughness={0.95} metalness={0.05} />
         </instancedMesh>
+
+        <ParticleInstances model={engine} isRunning={isRunning} viewMode={viewMode} onMetrics={onMetrics} />
     </group>
   );
 };
 
 
-const BioFilter3D: React.FC<BioFilter3DProps> = ({ simulationState, viewMode }) => {
+// --- Camera ---
+
+// Depth of each focus target along the cross-flow filter's axis
+const getFocusZ = (target: CameraTarget, geometry: FilterGeometry) => {
+    const zone = getFilterZone(geometry);
+    return target === 'INLET' ? FIRST_ARCH_Z + 2
+        : target === 'RAKERS' ? (zone.start + zone.end) / 2
+        : Math.max(zone.end, END_Z + 4);
+};
+
+// Where the camera looks (and sits) for each focus target, in cross-flow filter coordinates
+const getCameraPose = (target: CameraTarget, geometry: FilterGeometry) => {
+    const lookZ = getFocusZ(target, geometry);
+    const radius = getConeRadius(geometry, Math.min(lookZ, FIRST_ARCH_Z));
+    // Inlet is viewed from upstream, the rest from the side just outside the cone
+    const position = target === 'INLET'
+        ? new THREE.Vector3(3, 2, lookZ + 7)
+        : new THREE.Vector3(radius + 4, 2.5, lookZ + 3);
+    return { position, target: new THREE.Vector3(0, 0, lookZ) };
+};
+
+// The subset of drei's OrbitControls the rig drives
+interface OrbitControlsLike {
+    target: THREE.Vector3;
+    update: () => void;
+}
+
+const roundVector = (v: THREE.Vector3): [number, number, number] =>
+    [v.x, v.y, v.z].map(c => Math.round(c * 1000) / 1000) as [number, number, number];
+
+// Glides the default camera and orbit target to the requested focus, then hands control back
+const CameraRig = ({ focus, geometry, offsetX, poseRef }: { focus?: CameraFocus | null, geometry: FilterGeometry, offsetX: number, poseRef?: BioFilter3DProps['cameraPoseRef'] }) => {
+    const controls = useThree(state => state.controls) as unknown as OrbitControlsLike | null;
+    const camera = useThree(state => state.camera);
+    const goal = useRef<ReturnType<typeof getCameraPose> | null>(null);
+
+    useEffect(() => {
+        if (!focus) return;
+        if (typeof focus.target !== 'string') {
+            // Saved poses are already in world space
+            goal.current = { position: new THREE.Vector3(...focus.target.position), target: new THREE.Vector3(...focus.target.target) };
+            return;
+        }
+        const pose = getCameraPose(focus.target, geometry);
+        pose.position.x += offsetX;
+        pose.target.x += offsetX;
+        goal.current = pose;
+        // geometry and offset are read at request time; later edits shouldn't yank the camera
+    }, [focus]);
+
+    useEffect(() => {
+        if (!poseRef) return;
+        poseRef.current = () => ({
+            position: roundVector(camera.position),
+            target: roundVector(controls?.target ?? new THREE.Vector3())
+        });
+        return () => { poseRef.current = null; };
+    }, [poseRef, camera, controls]);
+
+    useFrame((state, delta) => {
+        if (!goal.current || !controls) return;
+        const t = 1 - Math.exp(-delta * 3);
+        state.camera.position.lerp(goal.current.position, t);
+        controls.target.lerp(goal.current.target, t);
+        controls.update();
+        if (state.camera.position.distanceTo(goal.current.position) < 0.05) goal.current = null;
+    });
+
+    return null;
+};
+
+// The subset of drei's OrbitControls that export adjusts
+interface AutoRotateControls {
+    autoRotateSpeed: number;
+}
+
+const nextFrame = () => new Promise(resolve => requestAnimationFrame(resolve));
+
+// Takes over the render loop for export: resizes the canvas, then steps the scene one fixed frame at a time
+const SceneCaptureBridge = ({ captureRef, lockstepRef }: { captureRef: React.MutableRefObject<SceneCapture | null>, lockstepRef: React.MutableRefObject<LockstepModel | null> }) => {
+    const get = useThree(state => state.get);
+
+    useEffect(() => {
+        captureRef.current = {
+            renderFrames: async ({ width, height, fps, frameCount, signal }, onFrame) => {
+                const { gl, camera, size, viewport, frameloop, setSize, setDpr, setFrameloop, advance } = get();
+                const controls = get().controls as unknown as AutoRotateControls | null;
+                const autoRotateSpeed = controls?.autoRotateSpeed;
+                const lockstep = lockstepRef.current;
+
+                setFrameloop('never');
+                setDpr(1);
+                setSize(width, height);
+                if (camera instanceof THREE.PerspectiveCamera) {
+                    camera.aspect = width / height;
+                    camera.updateProjectionMatrix();
+                }
+                // Auto-rotate turns a fixed angle per rendered frame (tuned for 60 fps); keep its real-time speed
+                if (controls) controls.autoRotateSpeed = autoRotateSpeed * (60 / fps);
+                lockstep?.setLockstep(true);
+
+                try {
+                    // Let components that react to the new size re-render before the first frame
+                    await nextFrame();
+                    if (gl.domElement.width !== width || gl.domElement.height !== height) {
+                        throw new ExportError(`This device can't render ${width}×${height}; try a smaller resolution.`);
+                    }
+                    for (let i = 0; i < frameCount; i++) {
+                        if (signal?.aborted) throw new ExportError('Export cancelled.');
+                        // A worker engine runs the frame's time first, so the frame draws its result rather than a stale one
+                        await lockstep?.advanceExactly(1 / fps);
+                        // frameloop 'never' derives each frame's delta from these timestamps: exactly 1/fps
+                        advance((i + 1) / fps);
+                        await onFrame(gl.domElement, i);
+                    }
+                } finally {
+                    if (controls) controls.autoRotateSpeed = autoRotateSpeed;
+                    lockstep?.setLockstep(false);
+                    setSize(size.width, size.height, size.top, size.left);
+                    setDpr(viewport.dpr);
+                    setFrameloop(frameloop);
+                }
+            }
+        };
+        return () => { captureRef.current = null; };
+    }, [captureRef, lockstepRef, get]);
+
+    return null;
+};
+
+
+const BioFilter3D: React.FC<BioFilter3DProps> = ({ simulationState, viewMode, geometry, onMetrics, onSieveMetrics, cameraFocus, cameraPoseRef, recorder, replay, sceneCaptureRef, washCycle, completedCycles, sludgeTank, cascadeStages, onCascadeMetrics, section, onSectionSummary, tracker, performance, onPerformance, tourHighlights }) => {
   return (
     <div className="absolute inset-0 w-full h-full bg-slate-950">
-        <BioFilterCanvas simulationState={simulationState} viewMode={viewMode} />
+        <BioFilterCanvas simulationState={simulationState} viewMode={viewMode} geometry={geometry} onMetrics={onMetrics} onSieveMetrics={onSieveMetrics} cameraFocus={cameraFocus} cameraPoseRef={cameraPoseRef} recorder={recorder} replay={replay} sceneCaptureRef={sceneCaptureRef} washCycle={washCycle} completedCycles={completedCycles} sludgeTank={sludgeTank} cascadeStages={cascadeStages} onCascadeMetrics={onCascadeMetrics} section={section} onSectionSummary={onSectionSummary} tracker={tracker} performance={performance} onPerformance={onPerformance} tourHighlights={tourHighlights} />
     </div>
   );
 };
 
-export const BioFilterCanvas = ({ simulationState, viewMode }: { simulationState: SimulationState, viewMode: ViewMode }) => {
-    const arches = useMemo(() => {
-        return Array.from({ length: 15 }).map((_, i) => (
-            <GillArch key={i} index={i} total={15} z={2 - (i * 1.2)} viewMode={viewMode} />
-        ));
-    }, [viewMode]);
+export const BioFilterCanvas = ({ simulationState, viewMode, geometry, onMetrics, onSieveMetrics, cameraFocus, cameraPoseRef, recorder, replay, sceneCaptureRef, washCycle, completedCycles, sludgeTank, cascadeStages, onCascadeMetrics, section, onSectionSummary, tracker, performance, onPerformance, tourHighlights }: BioFilter3DProps) => {
+    // PRODUCT and SIEVE share the engineered studio look
+    const isEngineered = viewMode !== 'NATURE';
+    const isCompare = viewMode === 'SIEVE';
+    const isCascade = viewMode === 'CASCADE';
+    const lockstep = useRef<LockstepModel | null>(null);
 
     return (
         <Canvas shadows dpr={[1, 2]} gl={{ antialias: true, toneMapping: THREE.ACESFilmicToneMapping }}>
             <PerspectiveCamera makeDefault position={[8, 5, 12]} fov={45} />
             <OrbitControls 
+                makeDefault
                 enablePan={false} 
                 maxPolarAngle={Math.PI / 1.5} 
                 minDistance={5} 
                 maxDistance={30} 
-                autoRotate={simulationState.isRunning}
+                autoRotate={simulationState.isRunning && !replay && !tourHighlights}
                 autoRotateSpeed={0.5}
             />
+            <CameraRig focus={cameraFocus} geometry={geometry} offsetX={isCompare ? -COMPARE_OFFSET : 0} poseRef={cameraPoseRef} />
+            {sceneCaptureRef && <SceneCaptureBridge captureRef={sceneCaptureRef} lockstepRef={lockstep} />}
 
-            <color attach="background" args={[viewMode === 'PRODUCT' ? '#0f172a' : '#020617']} />
+            <color attach="background" args={[isEngineered ? '#0f172a' : '#020617']} />
             
-            <ambientLight intensity={viewMode === 'PRODUCT' ? 0.8 : 0.2} color={viewMode === 'PRODUCT' ? "#ffffff" : "#0f172a"} />
+            <ambientLight intensity={isEngineered ? 0.8 : 0.2} color={isEngineered ? "#ffffff" : "#0f172a"} />
             
             <spotLight 
                 position={[10, 15, 10]} 
                 angle={0.3} 
                 penumbra={0.5} 
-                intensity={viewMode === 'PRODUCT' ? 10 : 20} 
+                intensity={isEngineered ? 10 : 20} 
                 castShadow 
-                color={viewMode === 'PRODUCT' ? "#ffffff" : "#38bdf8"} 
+                color={isEngineered ? "#ffffff" : "#38bdf8"} 
             />
             
             {viewMode === 'NATURE' && <pointLight position={[-10, 0, -5]} intensity={5} color="#c026d3" />}
-            {viewMode === 'PRODUCT' && <pointLight position={[-5, 5, 0]} intensity={2} color="#ffffff" />}
+            {isEngineered && <pointLight position={[-5, 5, 0]} intensity={2} color="#ffffff" />}
 
             {viewMode === 'NATURE' && (
                 <>
@@ -394,19 +1184,37 @@ export const BioFilterCanvas = ({ simulationState, viewMode }: { simulationState
                 </>
             )}
 
-            <Float speed={viewMode === 'PRODUCT' ? 0 : 2} rotationIntensity={viewMode === 'PRODUCT' ? 0 : 0.1} floatIntensity={0.2}>
-                <group rotation={[0, 0, 0]}>
-                    <group rotation={[0, 0, viewMode === 'PRODUCT' ? 0 : Math.PI / 12]}> 
-                        {arches}
+            <Float speed={isEngineered ? 0 : 2} rotationIntensity={isEngineered ? 0 : 0.1} floatIntensity={0.2}>
+                {/* Cross-flow filter; slides aside in SIEVE mode and hides, paused, in CASCADE mode without remounting its engine */}
+                <group position={[isCompare ? -COMPARE_OFFSET : 0, 0, 0]} visible={!isCascade}>
+                    <group rotation={[0, 0, viewMode === 'NATURE' ? Math.PI / 12 : 0]}> 
+                        <FilterArches geometry={geometry} viewMode={viewMode} highlighted={tourHighlights?.includes('RAKERS')} />
                     </group>
 
-                    {viewMode === 'PRODUCT' && <ProductHousing />}
+                    {/* A guided tour's rings sit outside the NATURE tilt so their labels stay upright */}
+                    {tourHighlights?.filter(target => target !== 'RAKERS').map(target => (
+                        <HighlightRing key={target} target={target} geometry={geometry} />
+                    ))}
+
+                    {viewMode === 'PRODUCT' && <ProductHousing cycle={washCycle} completed={completedCycles} tank={sludgeTank} />}
 
                     <AdvancedParticleSystem 
                         flowRate={simulationState.flowRate} 
                         density={simulationState.particleDensity}
-                        isRunning={simulationState.isRunning}
+                        mix={simulationState.contaminantMix}
+                        sizes={simulationState.particleSizes}
+                        geometry={geometry}
+                        isRunning={simulationState.isRunning && !isCascade}
                         viewMode={viewMode}
+                        onMetrics={onMetrics}
+                        recorder={recorder}
+                        replay={replay}
+                        section={isCascade ? undefined : section}
+                        onSectionSummary={onSectionSummary}
+                        tracker={isCascade ? undefined : tracker}
+                        performance={performance}
+                        onPerformance={onPerformance}
+                        lockstepRef={lockstep}
                     />
 
                     {/* Ghostly Shell for Nature Mode */}
@@ -422,10 +1230,40 @@ export const BioFilterCanvas = ({ simulationState, viewMode }: { simulationState
                             />
                         </mesh>
                     )}
+
+                    {isCompare && <CompareLabel text="FISH-MOUTH CROSS-FLOW" color="#38bdf8" />}
                 </group>
+
+                {isCompare && (
+                    <group position={[COMPARE_OFFSET, 0, 0]}>
+                        <DeadEndSieve 
+                            flowRate={simulationState.flowRate} 
+                            density={simulationState.particleDensity}
+                            mix={simulationState.contaminantMix}
+                            sizes={simulationState.particleSizes}
+                            isRunning={simulationState.isRunning && !replay}
+                            viewMode={viewMode}
+                            onMetrics={onSieveMetrics}
+                        />
+                        <CompareLabel text="DEAD-END SIEVE" color="#f59e0b" />
+                    </group>
+                )}
+
+                {isCascade && cascadeStages && (
+                    <CascadeTrain
+                        stages={cascadeStages}
+                        flowRate={simulationState.flowRate}
+                        density={simulationState.particleDensity}
+                        mix={simulationState.contaminantMix}
+                        sizes={simulationState.particleSizes}
+                        isRunning={simulationState.isRunning}
+                        viewMode={viewMode}
+                        onMetrics={onCascadeMetrics}
+                    />
+                )}
             </Float>
 
-            <Environment preset={viewMode === 'PRODUCT' ? "studio" : "city"} />
+            <Environment preset={isEngineered ? "studio" : "city"} />
         </Canvas>
     )
 }
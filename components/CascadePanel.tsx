@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Layers, ChevronDown, ChevronUp, Plus, X } from 'lucide-react';
+import { CascadeStage, CascadeMetrics, FilterGeometry, FilterMetrics } from '../types';
+import { GEOMETRY_PRESETS } from '../simulation/filterGeometry';
+import { CASCADE_PRESETS, MAX_STAGES, FLOW_SPLIT_LIMITS } from '../simulation/cascadeEngine';
+import { WATER } from '../simulation/contaminants';
+import { getSolidsCapture } from '../simulation/metrics';
+
+interface CascadePanelProps {
+  stages: CascadeStage[];
+  onChange: (stages: CascadeStage[]) => void;
+  // The designer's geometry, offered as one more choice per stage
+  geometry: FilterGeometry;
+  latest?: CascadeMetrics;
+}
+
+const FEEDS: { id: CascadeStage['feedFrom']; label: string }[] = [
+  { id: 'permeate', label: 'Permeate' },
+  { id: 'sludge', label: 'Sludge' }
+];
+
+const Readouts = ({ metrics, className }: { metrics?: FilterMetrics, className: string }) => (
+  <div className={`grid grid-cols-5 gap-1 text-center font-mono text-[10px] ${className}`}>
+    <span>{metrics ? metrics.efficiency.toFixed(0) : '–'}</span>
+    <span>{metrics ? getSolidsCapture(metrics.separation).toFixed(0) : '–'}</span>
+    <span>{metrics ? metrics.separation[WATER].efficiency.toFixed(0) : '–'}</span>
+    <span>{metrics?.d50 != null ? metrics.d50.toFixed(2) : '–'}</span>
+    <span>{metrics ? metrics.concentrationFactor.toFixed(1) : '–'}</span>
+  </div>
+);
+
+const CascadePanel: React.FC<CascadePanelProps> = ({ stages, onChange, geometry, latest }) => {
+  const [open, setOpen] = useState(false);
+
+  const geometryChoices = [
+    ...GEOMETRY_PRESETS.map(p => ({ id: p.id, label: p.label, geometry: p.geometry })),
+    { id: 'designer', label: 'Designer', geometry }
+  ];
+  const updateStage = (index: number, patch: Partial<CascadeStage>) =>
+    onChange(stages.map((stage, i) => i === index ? { ...stage, ...patch } : stage));
+  const activePreset = CASCADE_PRESETS.find(p => p.stages === stages);
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Layers className="w-4 h-4 text-sky-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Cascade</span>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-slate-400">
+          <span className="font-mono">{stages.length} stage{stages.length > 1 ? 's' : ''}</span>
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          <div className="grid grid-cols-3 gap-1.5">
+            {CASCADE_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => onChange(preset.stages)}
+                className={`px-2 py-1.5 rounded-md text-[11px] font-medium transition-all duration-300 ${activePreset === preset ? 'bg-sky-500/20 text-sky-200 border border-sky-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          {stages.map((stage, i) => {
+            const chosen = geometryChoices.find(c => c.geometry === stage.geometry);
+            return (
+              <div key={i} className="space-y-2 border-t border-slate-800 pt-3">
+                <div className="flex items-center justify-between">
+                  <span className="text-[11px] font-medium text-slate-300">Stage {i + 1}</span>
+                  {i > 0 && (
+                    <button onClick={() => onChange(stages.filter((_, j) => j !== i))} className="text-slate-500 hover:text-rose-400 transition-colors" title="Remove stage">
+                      <X className="w-3.5 h-3.5" />
+                    </button>
+                  )}
+                </div>
+                <div className="grid grid-cols-3 gap-1.5">
+                  {geometryChoices.map(choice => (
+                    <button
+                      key={choice.id}
+                      onClick={() => updateStage(i, { geometry: choice.geometry })}
+                      className={`px-1.5 py-1 rounded-md text-[10px] font-medium transition-all duration-300 ${chosen === choice ? 'bg-sky-500/20 text-sky-200 border border-sky-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+                    >
+                      {choice.label}
+                    </button>
+                  ))}
+                </div>
+                {!chosen && <p className="text-[10px] text-slate-500">Custom geometry</p>}
+                {i > 0 && (
+                  <>
+                    <div className="flex items-center justify-between text-[10px] text-slate-500">
+                      <span>Treats stage {i}'s</span>
+                      <div className="flex gap-1">
+                        {FEEDS.map(feed => (
+                          <button
+                            key={feed.id}
+                            onClick={() => updateStage(i, { feedFrom: feed.id })}
+                            className={`px-2 py-0.5 rounded text-[10px] font-medium transition-colors ${stage.feedFrom === feed.id ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`}
+                          >
+                            {feed.label}
+                          </button>
+                        ))}
+                      </div>
+                    </div>
+                    <div className="space-y-1">
+                      <div className="flex justify-between text-[10px] text-slate-500">
+                        <span>Flow split</span>
+                        <span className="font-mono text-sky-300">{(stage.flowSplit * 100).toFixed(0)}%</span>
+                      </div>
+                      <input
+                        type="range"
+                        min={FLOW_SPLIT_LIMITS.min}
+                        max={FLOW_SPLIT_LIMITS.max}
+                        step={FLOW_SPLIT_LIMITS.step}
+                        value={stage.flowSplit}
+                        onChange={(e) => updateStage(i, { flowSplit: parseFloat(e.target.value) })}
+                        className="w-full h-1 accent-sky-500 cursor-pointer"
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })}
+
+          {stages.length < MAX_STAGES && (
+            <button
+              onClick={() => onChange([...stages, { geometry: stages[stages.length - 1].geometry, feedFrom: 'permeate', flowSplit: 1 }])}
+              className="w-full flex items-center justify-center gap-2 py-1.5 rounded-lg text-[11px] font-medium text-slate-400 border border-dashed border-slate-700 hover:text-white hover:bg-white/5 transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" />
+              Add Stage
+            </button>
+          )}
+
+          {/* Efficiency, solids capture and water recovery in %, d50 in mm, concentration factor */}
+          <div className="space-y-1 border-t border-slate-800 pt-3">
+            <div className="grid grid-cols-[3rem_1fr] gap-2 text-[9px] uppercase tracking-wide text-slate-500">
+              <span></span>
+              <div className="grid grid-cols-5 gap-1 text-center">
+                <span>Eff</span><span>Solids</span><span>Water</span><span>d50</span><span>CF</span>
+              </div>
+            </div>
+            {stages.map((_, i) => (
+              <div key={i} className="grid grid-cols-[3rem_1fr] gap-2 text-[10px] text-slate-400">
+                <span>Stage {i + 1}</span>
+                <Readouts metrics={latest?.stages[i]} className="text-slate-300" />
+              </div>
+            ))}
+            <div className="grid grid-cols-[3rem_1fr] gap-2 text-[10px] font-medium text-sky-300">
+              <span>Train</span>
+              <Readouts metrics={latest?.train} className="text-sky-200" />
+            </div>
+          </div>
+          {!latest && <p className="text-[10px] text-slate-500">Switch to the Cascade view to run the train.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CascadePanel;
@@ -0,0 +1,165 @@
+import React, { useState } from 'react';
+import { Microscope, ChevronDown, ChevronUp, RotateCcw } from 'lucide-react';
+import { ContaminantMix, ContaminantType, CutSizePoint, FilterGeometry, FilterMetrics, SizeDistribution, SizeDistributions } from '../types';
+import { CONTAMINANTS } from '../simulation/contaminants';
+import { getMixWeight } from '../simulation/population';
+import { getFilterZone, getRakerGap } from '../simulation/filterGeometry';
+import { CUT_SIZE_BIN_EDGES, CUT_SIZE_WINDOW, DEFAULT_SIZE_DISTRIBUTIONS, MM_PER_UNIT, SIZE_LIMITS } from '../simulation/particleSizes';
+import { MESH_APERTURE } from '../simulation/sieveEngine';
+
+interface CutSizePanelProps {
+  sizes: SizeDistributions;
+  // Only contaminants in the mix get size controls
+  mix: ContaminantMix;
+  onChange: (sizes: SizeDistributions) => void;
+  geometry: FilterGeometry;
+  latest?: FilterMetrics;
+  // Latest dead-end sieve sample in SIEVE mode, drawn dashed
+  comparison?: FilterMetrics;
+}
+
+const SIEVE_COLOR = '#f59e0b';
+const CROSS_FLOW_COLOR = '#22d3ee';
+const GAP_COLOR = '#f472b6';
+
+const CHART_WIDTH = 100;
+const CHART_HEIGHT = 48;
+const MIN_DIAMETER = CUT_SIZE_BIN_EDGES[0];
+const MAX_DIAMETER = CUT_SIZE_BIN_EDGES[CUT_SIZE_BIN_EDGES.length - 1];
+const AXIS_TICKS = [0.1, 0.3, 1, 3];
+
+// Log-scaled diameter axis
+const toX = (diameter: number) => {
+  const clamped = Math.min(MAX_DIAMETER, Math.max(MIN_DIAMETER, diameter));
+  return (Math.log(clamped / MIN_DIAMETER) / Math.log(MAX_DIAMETER / MIN_DIAMETER)) * CHART_WIDTH;
+};
+const toY = (capture: number) => CHART_HEIGHT - (capture / 100) * CHART_HEIGHT;
+
+const toPoints = (curve: CutSizePoint[]) => curve.map(p => `${toX(p.diameter).toFixed(2)},${toY(p.capture).toFixed(2)}`).join(' ');
+
+const formatDiameter = (diameter: number | null | undefined) => diameter == null ? '–' : `${diameter.toFixed(2)} mm`;
+
+const SizeSlider = ({ label, value, field, color, onChange }: {
+  label: string,
+  value: number,
+  field: keyof SizeDistribution,
+  color: string,
+  onChange: (value: number) => void
+}) => {
+  const { min, max, step } = SIZE_LIMITS[field];
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px] text-slate-500">
+        <span>{label}</span>
+        <span className="font-mono" style={{ color }}>{field === 'spread' ? `×${value.toFixed(1)}` : `${value.toFixed(2)} mm`}</span>
+      </div>
+      <div className="relative h-1 bg-slate-800 rounded-full overflow-hidden">
+        <div className="absolute top-0 left-0 h-full rounded-full" style={{ width: `${((value - min) / (max - min)) * 100}%`, background: color }}></div>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(parseFloat(e.target.value))}
+          className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+        />
+      </div>
+    </div>
+  );
+};
+
+const CutSizePanel: React.FC<CutSizePanelProps> = ({ sizes, mix, onChange, geometry, latest, comparison }) => {
+  const [open, setOpen] = useState(false);
+
+  // Raker spacing halfway down the filter, for reference against the curve
+  const zone = getFilterZone(geometry);
+  const rakerGap = getRakerGap(geometry, (zone.start + zone.end) / 2) * MM_PER_UNIT;
+
+  const update = (type: ContaminantType, patch: Partial<SizeDistribution>) =>
+    onChange({ ...sizes, [type]: { ...sizes[type], ...patch } });
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Microscope className="w-4 h-4 text-cyan-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Cut-Size Curve</span>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-slate-400">
+          <span className="font-mono">d50 {formatDiameter(latest?.d50)}</span>
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          <div className="space-y-1.5">
+            <div className="flex justify-between items-baseline text-[11px] font-medium text-slate-400">
+              <span>Capture vs. Diameter</span>
+              <span className="text-[10px] text-slate-500">last {CUT_SIZE_WINDOW}s</span>
+            </div>
+            <svg
+              viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+              preserveAspectRatio="none"
+              className="w-full h-24 bg-slate-900/60 rounded-md border border-slate-800"
+            >
+              <line x1={0} x2={CHART_WIDTH} y1={toY(50)} y2={toY(50)} stroke="#334155" strokeDasharray="2 2" vectorEffect="non-scaling-stroke" />
+              <line x1={toX(rakerGap)} x2={toX(rakerGap)} y1={0} y2={CHART_HEIGHT} stroke={GAP_COLOR} strokeOpacity={0.6} vectorEffect="non-scaling-stroke" />
+              {comparison && (
+                <line x1={toX(MESH_APERTURE)} x2={toX(MESH_APERTURE)} y1={0} y2={CHART_HEIGHT} stroke={SIEVE_COLOR} strokeOpacity={0.4} vectorEffect="non-scaling-stroke" />
+              )}
+              {comparison && (
+                <polyline points={toPoints(comparison.cutSizeCurve)} fill="none" stroke={SIEVE_COLOR} strokeWidth={1.2} strokeDasharray="3 2" vectorEffect="non-scaling-stroke" />
+              )}
+              {latest && (
+                <polyline points={toPoints(latest.cutSizeCurve)} fill="none" stroke={CROSS_FLOW_COLOR} strokeWidth={1.4} vectorEffect="non-scaling-stroke" />
+              )}
+            </svg>
+            <div className="relative h-3 text-[9px] font-mono text-slate-500">
+              {AXIS_TICKS.map(tick => (
+                <span key={tick} className="absolute -translate-x-1/2" style={{ left: `${toX(tick)}%` }}>{tick}</span>
+              ))}
+              <span className="absolute right-0">mm</span>
+            </div>
+            <div className="flex flex-wrap gap-x-3 gap-y-1 text-[10px] text-slate-400">
+              <span style={{ color: CROSS_FLOW_COLOR }}>Cross-flow d50 {formatDiameter(latest?.d50)}</span>
+              {comparison && <span style={{ color: SIEVE_COLOR }}>Sieve d50 {formatDiameter(comparison.d50)}</span>}
+              <span style={{ color: GAP_COLOR }}>Raker gap {formatDiameter(rakerGap)}</span>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <div className="flex justify-between items-center text-[11px] font-medium text-slate-400">
+              <span>Size Distributions</span>
+              <button
+                onClick={() => onChange(DEFAULT_SIZE_DISTRIBUTIONS)}
+                title="Restore default sizes"
+                className="p-1 rounded-md text-slate-500 hover:text-white hover:bg-white/5 transition-colors"
+              >
+                <RotateCcw className="w-3 h-3" />
+              </button>
+            </div>
+            {CONTAMINANTS.filter(c => getMixWeight(mix, c.id) > 0).map(({ id, label, color }) => (
+              <div key={id} className="space-y-1.5">
+                <div className="flex justify-between text-[11px]">
+                  <span className="font-medium" style={{ color }}>{label}</span>
+                  <span className="font-mono text-[10px] text-slate-500">{sizes[id].density.toFixed(2)} g/cm³</span>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <SizeSlider label="Median" field="medianDiameter" value={sizes[id].medianDiameter} color={color} onChange={v => update(id, { medianDiameter: v })} />
+                  <SizeSlider label="Spread" field="spread" value={sizes[id].spread} color={color} onChange={v => update(id, { spread: v })} />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CutSizePanel;
@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Clapperboard, ChevronDown, ChevronUp, Video, Images } from 'lucide-react';
+import {
+  ExportError,
+  ExportFormat,
+  ExportSettings,
+  FRAME_RATES,
+  MAX_EXPORT_SECONDS,
+  MAX_PNG_SEQUENCE_BYTES,
+  RESOLUTION_PRESETS,
+  SceneCapture,
+  estimatePngSequenceBytes,
+  exportScene
+} from '../services/sceneExport';
+
+interface ExportPanelProps {
+  captureRef: React.MutableRefObject<SceneCapture | null>;
+}
+
+const FORMATS: { id: ExportFormat; label: string; icon: typeof Video }[] = [
+  { id: 'webm', label: 'WebM Video', icon: Video },
+  { id: 'png', label: 'PNG Sequence', icon: Images }
+];
+
+const download = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoked later: some browsers start the download asynchronously
+  setTimeout(() => URL.revokeObjectURL(url), 10_000);
+};
+
+const ExportPanel: React.FC<ExportPanelProps> = ({ captureRef }) => {
+  const [open, setOpen] = useState(false);
+  const [settings, setSettings] = useState<ExportSettings>({ format: 'webm', width: 1920, height: 1080, fps: 30, seconds: 10 });
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+  const [notice, setNotice] = useState<{ text: string; error?: boolean } | null>(null);
+  const abort = useRef<AbortController | null>(null);
+
+  // PNG sequences are held in memory, so oversized ones are refused before rendering
+  const pngBytes = settings.format === 'png' ? estimatePngSequenceBytes(settings) : null;
+  const tooLarge = pngBytes !== null && pngBytes > MAX_PNG_SEQUENCE_BYTES;
+
+  const update = (patch: Partial<ExportSettings>) => setSettings(s => ({ ...s, ...patch }));
+
+  const startExport = async () => {
+    const capture = captureRef.current;
+    if (!capture || progress) return;
+    const controller = new AbortController();
+    abort.current = controller;
+    setNotice(null);
+    setProgress({ done: 0, total: Math.round(settings.seconds * settings.fps) });
+    try {
+      const { blob, fileName } = await exportScene(capture, settings, {
+        signal: controller.signal,
+        onProgress: (done, total) => setProgress({ done, total })
+      });
+      download(blob, fileName);
+      setNotice({ text: `Saved ${fileName} (${(blob.size / 1e6).toFixed(1)} MB).` });
+    } catch (error) {
+      console.error('Scene export failed:', error);
+      setNotice({ text: error instanceof ExportError ? error.message : 'Export failed. See the console for details.', error: true });
+    }
+    abort.current = null;
+    setProgress(null);
+  };
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Clapperboard className="w-4 h-4 text-violet-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Export Footage</span>
+        </div>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-3.5">
+          <div className="grid grid-cols-2 gap-1.5">
+            {FORMATS.map(({ id, label, icon: Icon }) => (
+              <button
+                key={id}
+                onClick={() => update({ format: id })}
+                className={`flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-[11px] font-medium transition-all duration-300 ${settings.format === id ? 'bg-violet-500/20 text-violet-200 border border-violet-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+              >
+                <Icon className="w-3 h-3" />
+                {label}
+              </button>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-4 gap-1.5">
+            {RESOLUTION_PRESETS.map(preset => (
+              <button
+                key={preset.label}
+                onClick={() => update({ width: preset.width, height: preset.height })}
+                title={`${preset.width}×${preset.height}`}
+                className={`px-1 py-1.5 rounded-md text-[10px] font-medium transition-all duration-300 ${settings.width === preset.width && settings.height === preset.height ? 'bg-violet-500/20 text-violet-200 border border-violet-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between text-[11px] font-medium text-slate-400">
+            <span>Frame Rate</span>
+            <div className="flex gap-1">
+              {FRAME_RATES.map(fps => (
+                <button
+                  key={fps}
+                  onClick={() => update({ fps })}
+                  className={`px-2 py-1 rounded-md font-mono text-[10px] transition-all duration-300 ${settings.fps === fps ? 'bg-violet-500/20 text-violet-200 border border-violet-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+                >
+                  {fps}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-[11px] font-medium text-slate-400">
+              <span>Duration</span>
+              <span className="font-mono text-violet-300">{settings.seconds}s · {settings.seconds * settings.fps} frames</span>
+            </div>
+            <div className="relative h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="absolute top-0 left-0 h-full bg-gradient-to-r from-violet-600 to-violet-400 rounded-full"
+                style={{ width: `${(settings.seconds / MAX_EXPORT_SECONDS) * 100}%` }}
+              ></div>
+              <input
+                type="range"
+                min="1"
+                max={MAX_EXPORT_SECONDS}
+                step="1"
+                value={settings.seconds}
+                onChange={(e) => update({ seconds: parseInt(e.target.value) })}
+                className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+              />
+            </div>
+          </div>
+
+          {pngBytes !== null && (
+            <p className={`text-[10px] leading-relaxed ${tooLarge ? 'text-amber-300' : 'text-slate-500'}`}>
+              {tooLarge
+                ? `About ${(pngBytes / 1024 ** 3).toFixed(1)} GB of PNGs, more than a browser tab can hold. Shorten it or lower the resolution or frame rate.`
+                : `About ${(pngBytes / 1024 ** 3).toFixed(1)} GB of PNGs.`}
+            </p>
+          )}
+          <button
+            onClick={startExport}
+            disabled={!!progress || tooLarge}
+            className="w-full py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-violet-500/10 text-violet-300 border border-violet-500/30 hover:bg-violet-500/20 disabled:opacity-50 transition-all"
+          >
+            Render
+          </button>
+          {notice && (
+            <p className={`text-[10px] leading-relaxed ${notice.error ? 'text-rose-300' : 'text-slate-400'}`}>{notice.text}</p>
+          )}
+        </div>
+      )}
+
+      {/* The canvas is resized for rendering, so cover it until it is handed back.
+          Portaled because the panel's backdrop blur would otherwise contain the fixed overlay. */}
+      {progress && createPortal(
+        <div className="fixed inset-0 z-50 bg-[#020617]/90 backdrop-blur-sm flex items-center justify-center">
+          <div className="w-80 space-y-3 text-center">
+            <p className="text-sm font-semibold text-white">Rendering frame {progress.done} of {progress.total}</p>
+            <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+              <div
+                className="h-full bg-gradient-to-r from-violet-600 to-violet-400 rounded-full transition-all"
+                style={{ width: `${(progress.done / progress.total) * 100}%` }}
+              ></div>
+            </div>
+            <button onClick={() => abort.current?.abort()} className="text-xs font-semibold text-rose-300 hover:text-rose-200 transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>,
+        document.body
+      )}
+    </div>
+  );
+};
+
+export default ExportPanel;
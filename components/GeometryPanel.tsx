@@ -0,0 +1,93 @@
+import React, { useState } from 'react';
+import { Ruler, ChevronDown, ChevronUp } from 'lucide-react';
+import { FilterGeometry } from '../types';
+import { GEOMETRY_PRESETS, GEOMETRY_LIMITS } from '../simulation/filterGeometry';
+
+interface GeometryPanelProps {
+  geometry: FilterGeometry;
+  onChange: (geometry: FilterGeometry) => void;
+}
+
+interface GeometryField {
+  key: keyof FilterGeometry;
+  label: string;
+  format: (value: number) => string;
+}
+
+// Slider ranges come from GEOMETRY_LIMITS so scenario files are validated against the same bounds
+const FIELDS: GeometryField[] = [
+  { key: 'archCount', label: 'Arches', format: v => `${v}` },
+  { key: 'archSpacing', label: 'Arch Spacing', format: v => v.toFixed(1) },
+  { key: 'inletRadius', label: 'Inlet Radius', format: v => v.toFixed(1) },
+  { key: 'coneTaper', label: 'Cone Taper', format: v => v.toFixed(3) },
+  { key: 'rakerCount', label: 'Rakers / Arch', format: v => `${v}` },
+  { key: 'rakerLength', label: 'Raker Length', format: v => v.toFixed(2) },
+  { key: 'rakerAngle', label: 'Raker Angle', format: v => `${v}°` }
+];
+
+const GeometryPanel: React.FC<GeometryPanelProps> = ({ geometry, onChange }) => {
+  const [open, setOpen] = useState(false);
+  const activePreset = GEOMETRY_PRESETS.find(p => p.geometry === geometry);
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Ruler className="w-4 h-4 text-pink-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Gill Raker Designer</span>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-slate-400">
+          <span>{activePreset?.label ?? 'Custom'}</span>
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          <div className="grid grid-cols-2 gap-1.5">
+            {GEOMETRY_PRESETS.map(preset => (
+              <button
+                key={preset.id}
+                onClick={() => onChange(preset.geometry)}
+                className={`px-2 py-1.5 rounded-md text-[11px] font-medium transition-all duration-300 ${activePreset === preset ? 'bg-pink-500/20 text-pink-200 border border-pink-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+              >
+                {preset.label}
+              </button>
+            ))}
+          </div>
+
+          <div className="space-y-3.5">
+            {FIELDS.map(field => (
+              <div key={field.key} className="space-y-1.5">
+                <div className="flex justify-between text-[11px] font-medium text-slate-400">
+                  <span>{field.label}</span>
+                  <span className="font-mono text-pink-300">{field.format(geometry[field.key])}</span>
+                </div>
+                <div className="relative h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                  <div
+                    className="absolute top-0 left-0 h-full bg-gradient-to-r from-pink-600 to-pink-400 rounded-full"
+                    style={{ width: `${((geometry[field.key] - GEOMETRY_LIMITS[field.key].min) / (GEOMETRY_LIMITS[field.key].max - GEOMETRY_LIMITS[field.key].min)) * 100}%` }}
+                  ></div>
+                  <input
+                    type="range"
+                    min={GEOMETRY_LIMITS[field.key].min}
+                    max={GEOMETRY_LIMITS[field.key].max}
+                    step={GEOMETRY_LIMITS[field.key].step}
+                    value={geometry[field.key]}
+                    onChange={(e) => onChange({ ...geometry, [field.key]: parseFloat(e.target.value) })}
+                    className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+                  />
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GeometryPanel;
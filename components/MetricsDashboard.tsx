@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { Activity, ChevronDown, ChevronUp } from 'lucide-react';
+import { FilterMetrics } from '../types';
+import { CONTAMINANTS, WATER, WATER_STYLE } from '../simulation/contaminants';
+
+interface MetricsDashboardProps {
+  history: FilterMetrics[];
+  // Dead-end sieve running alongside in SIEVE mode, drawn dashed
+  comparison?: FilterMetrics[];
+}
+
+interface Series {
+  label: string;
+  color: string;
+  values: number[];
+  dashed?: boolean;
+}
+
+interface TimeSeriesChartProps {
+  title: string;
+  unit: string;
+  series: Series[];
+  // Fixed upper bound (e.g. 100 for percentages); otherwise scales to the data
+  max?: number;
+}
+
+const CHART_WIDTH = 100;
+const CHART_HEIGHT = 32;
+
+const TimeSeriesChart: React.FC<TimeSeriesChartProps> = ({ title, unit, series, max }) => {
+  const peak = max ?? Math.max(1, ...series.flatMap(s => s.values)) * 1.1;
+  const toPoints = (values: number[]) => values
+    .map((v, i) => {
+      const x = values.length > 1 ? (i / (values.length - 1)) * CHART_WIDTH : CHART_WIDTH;
+      const y = CHART_HEIGHT - (Math.min(v, peak) / peak) * CHART_HEIGHT;
+      return `${x.toFixed(2)},${y.toFixed(2)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="space-y-1.5">
+      <div className="flex justify-between items-baseline text-[11px] font-medium text-slate-400">
+        <span>{title}</span>
+        <span className="flex gap-2 font-mono">
+          {series.map(s => (
+            <span key={s.label} style={{ color: s.color }}>
+              {s.values.length ? s.values[s.values.length - 1].toFixed(1) : '–'}{unit}
+            </span>
+          ))}
+        </span>
+      </div>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        preserveAspectRatio="none"
+        className="w-full h-12 bg-slate-900/60 rounded-md border border-slate-800"
+      >
+        {series.map(s => (
+          <polyline
+            key={s.label}
+            points={toPoints(s.values)}
+            fill="none"
+            stroke={s.color}
+            strokeWidth={1.2}
+            strokeDasharray={s.dashed ? '3 2' : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+    </div>
+  );
+};
+
+const CAPTURE_SERIES = [
+  { type: WATER, label: WATER_STYLE.label, color: WATER_STYLE.color },
+  ...CONTAMINANTS.map(c => ({ type: c.id, label: c.label, color: c.color }))
+];
+
+// Decayed outlet events below which a particle type is treated as absent from the feed
+const MIN_RECENT_EVENTS = 0.5;
+
+const SIEVE_COLOR = '#f59e0b';
+
+const MetricsDashboard: React.FC<MetricsDashboardProps> = ({ history, comparison }) => {
+  const [open, setOpen] = useState(false);
+
+  // Types missing from the current mix would only add flat lines
+  const latest = history[history.length - 1];
+  const captureSeries = CAPTURE_SERIES.filter(s => {
+    const stats = latest?.separation[s.type];
+    return stats && stats.permeate + stats.sludge >= MIN_RECENT_EVENTS;
+  });
+
+  const withSieve = (series: Series, pick: (m: FilterMetrics) => number): Series[] => comparison
+    ? [series, { label: 'Sieve', color: SIEVE_COLOR, values: comparison.map(pick), dashed: true }]
+    : [series];
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-80">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Activity className="w-4 h-4 text-cyan-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Live Metrics</span>
+        </div>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          {comparison && (
+            <div className="flex gap-4 text-[10px] text-slate-400">
+              <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 bg-slate-300"></span>Cross-flow</span>
+              <span className="flex items-center gap-1.5"><span className="w-3 h-0.5 border-t border-dashed border-slate-300"></span>Dead-end sieve</span>
+            </div>
+          )}
+          <TimeSeriesChart
+            title="Permeate Throughput"
+            unit="/s"
+            series={withSieve(
+              { label: 'Permeate', color: '#22d3ee', values: history.map(m => m.permeateThroughput) },
+              m => m.permeateThroughput
+            )}
+          />
+          <TimeSeriesChart
+            title="Sludge Concentration"
+            unit="x"
+            series={[{ label: 'Concentration', color: '#f59e0b', values: history.map(m => m.concentrationFactor) }]}
+          />
+          <TimeSeriesChart
+            title="Capture Rate"
+            unit="%"
+            max={100}
+            series={captureSeries.map(s => ({
+              label: s.label,
+              color: s.color,
+              values: history.map(m => m.separation[s.type].efficiency)
+            }))}
+          />
+          <TimeSeriesChart
+            title="Clog Index"
+            unit="%"
+            max={100}
+            series={withSieve(
+              { label: 'Clog', color: '#fb7185', values: history.map(m => m.clogIndex) },
+              m => m.clogIndex
+            )}
+          />
+          <TimeSeriesChart
+            title="Pressure Drop"
+            unit=" Pa"
+            series={withSieve(
+              { label: 'Pressure', color: '#a78bfa', values: history.map(m => m.pressureDrop) },
+              m => m.pressureDrop
+            )}
+          />
+          <p className="text-[10px] text-slate-500 leading-relaxed">
+            Last {history.length ? Math.round(history[history.length - 1].time - history[0].time) : 0}s of simulated flow. Capture shows water recovered to permeate and solids sent to sludge.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MetricsDashboard;
@@ -0,0 +1,116 @@
+import React, { useEffect, useState } from 'react';
+import { Crosshair, X } from 'lucide-react';
+import { ParticleType } from '../types';
+import { ParticleTracker, ParticleReading, TRACK_COLORS } from '../simulation/particleTracker';
+import { getContaminant, WATER, WATER_STYLE } from '../simulation/contaminants';
+import { MM_PER_UNIT } from '../simulation/particleSizes';
+
+interface ParticleInspectorProps {
+  tracker: ParticleTracker;
+  // Arch count of the live geometry, for "arch 3 of 15"
+  archCount: number;
+}
+
+// Readouts change every frame; a few refreshes a second are plenty to read them
+const REFRESH_SECONDS = 0.1;
+
+const getStyle = (type: ParticleType) => type === WATER
+  ? { label: WATER_STYLE.label, color: WATER_STYLE.color }
+  : { label: getContaminant(type)?.label ?? type, color: getContaminant(type)?.color ?? '#94a3b8' };
+
+/** Scene units per second as mm/s. */
+const formatSpeed = (value: number) => `${(value * MM_PER_UNIT).toFixed(1)}`;
+
+const Reading = ({ reading, archCount, status }: { reading: ParticleReading, archCount: number, status: string }) => (
+  <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-[11px] text-slate-400">
+    {reading.type !== WATER && (
+      <>
+        <span>Size</span>
+        <span className="font-mono text-right text-slate-200">{reading.diameter.toFixed(3)} mm · {reading.density.toFixed(2)} g/cm³</span>
+      </>
+    )}
+    <span>Speed</span>
+    <span className="font-mono text-right text-slate-200">{formatSpeed(reading.speed)} mm/s</span>
+    <span>Axial · radial · swirl</span>
+    <span className="font-mono text-right text-slate-300">{formatSpeed(reading.axial)} · {formatSpeed(reading.radial)} · {formatSpeed(reading.tangential)}</span>
+    <span>Status</span>
+    <span className={`text-right ${reading.filtered ? 'text-cyan-300' : 'text-slate-200'}`}>{status}</span>
+    <span>Raker contact</span>
+    <span className="font-mono text-right text-slate-200">{reading.arch === null ? '–' : `arch ${reading.arch + 1} of ${archCount}`}</span>
+    {reading.type !== WATER && (
+      <>
+        <span>Ricochets</span>
+        <span className="font-mono text-right text-amber-300">{reading.ricochets}</span>
+      </>
+    )}
+  </div>
+);
+
+const ParticleInspector: React.FC<ParticleInspectorProps> = ({ tracker, archCount }) => {
+  // The tracker changes inside the render loop; poll it for display
+  const [, setVersion] = useState(tracker.version);
+
+  useEffect(() => {
+    let frame: number;
+    let last = 0;
+    const poll = (now: number) => {
+      if (now - last >= REFRESH_SECONDS * 1000) {
+        last = now;
+        setVersion(tracker.version);
+      }
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [tracker]);
+
+  const { tracks, hovered } = tracker;
+  if (!hovered && tracks.length === 0) return null;
+
+  // The hovered particle takes the card; otherwise the newest followed one
+  const followed = tracks[tracks.length - 1];
+  const reading = hovered ? tracker.read(hovered) : followed.reading;
+  const style = getStyle(reading.type);
+  const exited = !hovered && followed.outlet;
+  const status = exited
+    ? `Left via ${followed.outlet}`
+    : reading.filtered ? 'Slipped between rakers' : 'In the main stream';
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-80 p-4 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <Crosshair className="w-4 h-4 text-slate-400" />
+          <span className="w-2.5 h-2.5 rounded-full" style={{ background: style.color }}></span>
+          <span className="font-semibold text-sm tracking-tight text-white">{style.label}</span>
+          <span className="text-[10px] text-slate-500">{hovered ? 'hovered' : 'followed'}</span>
+        </div>
+        {tracks.length > 0 && (
+          <button onClick={tracker.clear} className="text-[10px] font-medium text-slate-400 hover:text-white transition-colors">
+            Clear
+          </button>
+        )}
+      </div>
+
+      <Reading reading={reading} archCount={archCount} status={status} />
+
+      {tracks.length > 0 && (
+        <div className="flex flex-wrap gap-1.5">
+          {tracks.map(track => (
+            <span key={track.id} className="flex items-center gap-1.5 pl-2 pr-1 py-0.5 rounded-md border border-slate-800 text-[10px] text-slate-300">
+              <span className="w-2 h-0.5 rounded-full" style={{ background: TRACK_COLORS[track.colorIndex] }}></span>
+              {getStyle(track.reading.type).label}
+              <span className="font-mono text-slate-500">{track.outlet ?? `${track.reading.ricochets} bounces`}</span>
+              <button onClick={() => tracker.remove(track.id)} className="text-slate-500 hover:text-rose-400 transition-colors" title="Stop following">
+                <X className="w-3 h-3" />
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <p className="text-[10px] text-slate-500">Click a particle to follow it; shift-click to follow up to {TRACK_COLORS.length}. Dots on a trail mark ricochets.</p>
+    </div>
+  );
+};
+
+export default ParticleInspector;
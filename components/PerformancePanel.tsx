@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { Cpu, ChevronDown, ChevronUp } from 'lucide-react';
+import { PerformanceSettings, PerformanceReadings, SimulationThread } from '../types';
+import { DETAIL_LEVELS, getPopulationCapacity } from '../simulation/qualityGovernor';
+
+interface PerformancePanelProps {
+  settings: PerformanceSettings;
+  onChange: (settings: PerformanceSettings) => void;
+  readings: PerformanceReadings | null;
+}
+
+const THREADS: { id: SimulationThread; label: string }[] = [
+  { id: 'main', label: 'Main Thread' },
+  { id: 'worker', label: 'Web Worker' }
+];
+
+// Worker support is fixed for the page, so check once
+const WORKERS_AVAILABLE = typeof Worker !== 'undefined';
+
+const formatDetail = (detail: number) => `${detail}×`;
+
+const PerformancePanel: React.FC<PerformancePanelProps> = ({ settings, onChange, readings }) => {
+  const [open, setOpen] = useState(false);
+  const update = (patch: Partial<PerformanceSettings>) => onChange({ ...settings, ...patch });
+  const steppedDown = readings !== null && readings.detail < settings.detail;
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Cpu className="w-4 h-4 text-cyan-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Performance</span>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-slate-400">
+          <span className="font-mono">{readings ? `${Math.round(readings.fps)} fps` : '–'}</span>
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          <div className="grid grid-cols-2 gap-1.5">
+            {THREADS.map(thread => (
+              <button
+                key={thread.id}
+                onClick={() => update({ thread: thread.id })}
+                disabled={thread.id === 'worker' && !WORKERS_AVAILABLE}
+                className={`px-2 py-1.5 rounded-md text-[11px] font-medium transition-all duration-300 disabled:opacity-40 ${settings.thread === thread.id ? 'bg-cyan-500/20 text-cyan-200 border border-cyan-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+              >
+                {thread.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500 leading-relaxed">
+            The worker runs the cross-flow filter's physics off the page's thread and hands over ready-to-draw frames. Switching starts a fresh run.
+          </p>
+
+          <div className="space-y-1.5">
+            <div className="flex justify-between text-[10px] text-slate-500">
+              <span>Particle detail</span>
+              <span className="font-mono text-cyan-300">up to {getPopulationCapacity(settings.detail).toLocaleString('en-US')}</span>
+            </div>
+            <div className="grid grid-cols-7 gap-1">
+              {DETAIL_LEVELS.map(level => (
+                <button
+                  key={level}
+                  onClick={() => update({ detail: level })}
+                  className={`py-1 rounded text-[10px] font-mono transition-colors ${settings.detail === level ? 'bg-cyan-500/20 text-cyan-200 border border-cyan-500/40' : 'text-slate-500 border border-slate-800 hover:text-white'}`}
+                >
+                  {formatDetail(level)}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={() => update({ adaptive: !settings.adaptive })}
+            className={`w-full py-2 rounded-lg text-xs font-bold uppercase tracking-wide border transition-colors ${settings.adaptive ? 'bg-cyan-500/20 text-cyan-200 border-cyan-500/40' : 'text-slate-400 border-slate-800 hover:text-white hover:bg-white/5'}`}
+          >
+            Adaptive Quality {settings.adaptive ? 'On' : 'Off'}
+          </button>
+          <p className="text-[10px] text-slate-500 leading-relaxed">
+            Adaptive quality lowers the detail while the frame rate stays under 45 fps and raises it again once there is headroom. Metrics count feed particles, so they keep their scale at any detail.
+          </p>
+
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-[11px] text-slate-400">
+            <span>Frame rate</span>
+            <span className="font-mono text-right text-slate-200">{readings ? `${readings.fps.toFixed(0)} fps` : '–'}</span>
+            <span>Detail in use</span>
+            <span className={`font-mono text-right ${steppedDown ? 'text-amber-300' : 'text-slate-200'}`}>{readings ? formatDetail(readings.detail) : '–'}</span>
+            <span>Particles</span>
+            <span className="font-mono text-right text-slate-200">{readings ? readings.particles.toLocaleString('en-US') : '–'}</span>
+            <span>Worker step</span>
+            <span className="font-mono text-right text-slate-200">{readings?.stepMs != null ? `${readings.stepMs.toFixed(1)} ms` : '–'}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PerformancePanel;
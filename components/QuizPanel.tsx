@@ -0,0 +1,279 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ListChecks, ChevronDown, ChevronUp, FlaskConical, CheckCircle2, XCircle, Square, UserRound } from 'lucide-react';
+import {
+  QUIZ_QUESTIONS,
+  QUIZ_PREDICTIONS,
+  QuizQuestion,
+  QuizPrediction,
+  QuizRun,
+  formatQuizValue,
+  getQuizMetricLabel,
+  isQuizAnswerCorrect
+} from '../simulation/quiz';
+import {
+  QuestionStatus,
+  MAX_LEARNER_NAME_LENGTH,
+  loadQuizProgress,
+  saveQuizProgress,
+  selectLearner,
+  recordQuizAttempt,
+  getQuizScore,
+  getNextQuestion,
+  getLearnerAttempts
+} from '../services/quizProgress';
+
+// A BioGuide request to open a question; null asks for the learner's next unsolved one
+export interface QuizRequest {
+  questionId: string | null;
+  nonce: number;
+}
+
+interface QuizPanelProps {
+  run: QuizRun | null;
+  request: QuizRequest | null;
+  onStart: (question: QuizQuestion, prediction: QuizPrediction) => void;
+  // Applies the question's change for the learner
+  onMakeChange: () => void;
+  onStop: () => void;
+}
+
+const STATUS_STYLES: Record<QuestionStatus, string> = {
+  correct: 'bg-emerald-500/20 text-emerald-200 border-emerald-500/40',
+  incorrect: 'bg-rose-500/15 text-rose-200 border-rose-500/40',
+  unanswered: 'text-slate-400 border-slate-800'
+};
+
+const OUTCOME_TEXT: Record<QuizPrediction, string> = {
+  increase: 'went up',
+  decrease: 'went down',
+  same: 'stayed about the same'
+};
+
+const PREDICTION_TEXT: Record<QuizPrediction, string> = {
+  increase: 'go up',
+  decrease: 'go down',
+  same: 'stay about the same'
+};
+
+const QuizPanel: React.FC<QuizPanelProps> = ({ run, request, onStart, onMakeChange, onStop }) => {
+  const [open, setOpen] = useState(false);
+  const [progress, setProgress] = useState(() => loadQuizProgress());
+  const [learnerName, setLearnerName] = useState('');
+  const [questionId, setQuestionId] = useState(QUIZ_QUESTIONS[0].id);
+  const [prediction, setPrediction] = useState<QuizPrediction | null>(null);
+  const [storageFailed, setStorageFailed] = useState(false);
+  const recorded = useRef<QuizRun | null>(null);
+
+  const attempts = getLearnerAttempts(progress, progress.activeLearner);
+  const score = getQuizScore(attempts);
+  const question = QUIZ_QUESTIONS.find(q => q.id === questionId) ?? QUIZ_QUESTIONS[0];
+  // The running experiment's question takes over the panel until it is stopped or replaced
+  const shown = run?.question ?? question;
+
+  useEffect(() => {
+    setStorageFailed(!saveQuizProgress(progress));
+  }, [progress]);
+
+  // A finished run is scored once; done runs keep their identity, so the ref spots repeats
+  useEffect(() => {
+    if (!run || run.stage !== 'done' || recorded.current === run) return;
+    recorded.current = run;
+    setProgress(p => recordQuizAttempt(p, run));
+  }, [run]);
+
+  useEffect(() => {
+    if (!request) return;
+    setOpen(true);
+    setPrediction(null);
+    setQuestionId(request.questionId ?? getNextQuestion(attempts)?.id ?? QUIZ_QUESTIONS[0].id);
+  }, [request]);
+
+  const pickQuestion = (id: string) => {
+    if (run && run.stage !== 'done') return;
+    setQuestionId(id);
+    setPrediction(null);
+  };
+
+  const switchLearner = (name: string) => {
+    setProgress(p => selectLearner(p, name));
+    setLearnerName('');
+  };
+
+  const nextQuestion = () => {
+    onStop();
+    const next = QUIZ_QUESTIONS[(QUIZ_QUESTIONS.indexOf(shown) + 1) % QUIZ_QUESTIONS.length];
+    setQuestionId(next.id);
+    setPrediction(null);
+  };
+
+  const measuring = run !== null && run.stage !== 'done';
+  const metric = getQuizMetricLabel(shown);
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <ListChecks className="w-4 h-4 text-emerald-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">BioGuide Quiz</span>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-slate-400">
+          {progress.activeLearner && <span className="font-mono">{score.correct}/{score.total}</span>}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          {/* Learner */}
+          <div className="space-y-1.5">
+            <div className="flex items-center gap-1.5 text-[10px] text-slate-500">
+              <UserRound className="w-3 h-3" />
+              <span>{progress.activeLearner ? `Scoring for ${progress.activeLearner}` : 'Pick a learner to keep a score'}</span>
+            </div>
+            <div className="flex gap-1.5">
+              {Object.keys(progress.learners).length > 0 && (
+                <select
+                  value={progress.activeLearner ?? ''}
+                  onChange={(e) => e.target.value && switchLearner(e.target.value)}
+                  className="flex-1 min-w-0 bg-[#1e293b] text-[11px] text-white rounded-md py-1.5 px-2 border border-slate-700 focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+                >
+                  <option value="" disabled>Learner</option>
+                  {Object.keys(progress.learners).map(name => <option key={name} value={name}>{name}</option>)}
+                </select>
+              )}
+              <form
+                onSubmit={(e) => { e.preventDefault(); switchLearner(learnerName); }}
+                className="flex-1 min-w-0 flex gap-1.5"
+              >
+                <input
+                  type="text"
+                  value={learnerName}
+                  onChange={(e) => setLearnerName(e.target.value)}
+                  maxLength={MAX_LEARNER_NAME_LENGTH}
+                  placeholder="New learner"
+                  className="flex-1 min-w-0 bg-[#1e293b] text-[11px] text-white placeholder-slate-500 rounded-md py-1.5 px-2 border border-slate-700 focus:outline-none focus:ring-1 focus:ring-emerald-500/50"
+                />
+                <button type="submit" disabled={!learnerName.trim()} className="px-2 rounded-md text-[11px] text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 disabled:opacity-40">
+                  Add
+                </button>
+              </form>
+            </div>
+            {storageFailed && (
+              <p className="text-[10px] text-amber-300 leading-relaxed">This browser won't store data, so scores last only until the page closes.</p>
+            )}
+          </div>
+
+          {/* Question picker */}
+          <div className="grid grid-cols-5 gap-1">
+            {QUIZ_QUESTIONS.map((q, i) => (
+              <button
+                key={q.id}
+                onClick={() => pickQuestion(q.id)}
+                disabled={measuring && q !== shown}
+                title={q.prompt}
+                className={`py-1 rounded text-[10px] font-mono border transition-colors disabled:opacity-40 ${STATUS_STYLES[score.status[q.id]]} ${q === shown ? 'ring-1 ring-emerald-400/60' : ''}`}
+              >
+                Q{i + 1}
+              </button>
+            ))}
+          </div>
+
+          <p className="text-xs text-slate-200 leading-relaxed">{shown.prompt}</p>
+
+          {!run && (
+            <>
+              <div className="space-y-1.5">
+                {QUIZ_PREDICTIONS.map(p => (
+                  <button
+                    key={p.id}
+                    onClick={() => setPrediction(p.id)}
+                    className={`w-full px-3 py-1.5 rounded-md text-[11px] text-left transition-all duration-300 ${prediction === p.id ? 'bg-emerald-500/20 text-emerald-200 border border-emerald-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+                  >
+                    {p.label}
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => prediction && onStart(shown, prediction)}
+                disabled={!prediction}
+                className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-emerald-600 hover:bg-emerald-500 text-white disabled:opacity-40 disabled:hover:bg-emerald-600 transition-colors"
+              >
+                <FlaskConical className="w-3.5 h-3.5" />
+                Test It in the Simulation
+              </button>
+              <p className="text-[10px] text-slate-500 leading-relaxed">
+                The quiz sets up the starting point and measures {metric}. Then you make the change and it measures again.
+              </p>
+            </>
+          )}
+
+          {measuring && (
+            <div className="space-y-2">
+              <div className="text-[11px] text-slate-300 leading-relaxed">
+                {run.stage === 'baseline'
+                  ? run.settledFrom === null
+                    ? 'Waiting for the starting settings. Put back anything you changed.'
+                    : 'Measuring the starting point. Leave the controls alone.'
+                  : run.settledFrom === null
+                    ? <><span className="font-semibold text-emerald-300">Your turn:</span> {shown.instruction}</>
+                    : 'Measuring after your change. Watch the particles.'}
+              </div>
+              {run.baseline !== null && (
+                <div className="text-[10px] text-slate-500">Starting {metric}: <span className="font-mono text-slate-300">{formatQuizValue(shown, run.baseline)}</span></div>
+              )}
+              <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-emerald-500 transition-all duration-500" style={{ width: `${run.progress * 100}%` }} />
+              </div>
+              <div className="flex gap-1.5">
+                {run.stage === 'changed' && run.settledFrom === null && (
+                  <button onClick={onMakeChange} className="flex-1 py-1.5 rounded-md text-[11px] font-medium text-emerald-200 border border-emerald-500/30 hover:bg-emerald-500/10 transition-colors">
+                    Make the Change for Me
+                  </button>
+                )}
+                <button onClick={onStop} className="flex items-center justify-center gap-1.5 px-3 py-1.5 rounded-md text-[11px] font-medium text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 transition-colors">
+                  <Square className="w-3 h-3 fill-current" />
+                  Stop
+                </button>
+              </div>
+            </div>
+          )}
+
+          {run?.stage === 'done' && run.outcome && (
+            <div className="space-y-2">
+              <div className={`flex items-center gap-2 text-xs font-semibold ${isQuizAnswerCorrect(run) ? 'text-emerald-300' : 'text-rose-300'}`}>
+                {isQuizAnswerCorrect(run) ? <CheckCircle2 className="w-4 h-4" /> : <XCircle className="w-4 h-4" />}
+                {isQuizAnswerCorrect(run) ? 'Your prediction was right' : 'Not this time'}
+              </div>
+              <p className="text-[11px] text-slate-300 leading-relaxed">
+                Measured {metric}: <span className="font-mono">{formatQuizValue(shown, run.baseline!)}</span> → <span className="font-mono">{formatQuizValue(shown, run.changed!)}</span>. It {OUTCOME_TEXT[run.outcome]}; you predicted it would {PREDICTION_TEXT[run.prediction]}.
+              </p>
+              <p className="text-[10px] text-slate-400 leading-relaxed">{shown.explanation}</p>
+              {!progress.activeLearner && (
+                <p className="text-[10px] text-amber-300 leading-relaxed">No learner picked, so this answer wasn't scored.</p>
+              )}
+              <div className="grid grid-cols-2 gap-1.5">
+                <button onClick={onStop} className="py-1.5 rounded-md text-[11px] font-medium text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 transition-colors">
+                  Try Again
+                </button>
+                <button onClick={nextQuestion} className="py-1.5 rounded-md text-[11px] font-medium text-emerald-200 border border-emerald-500/30 hover:bg-emerald-500/10 transition-colors">
+                  Next Question
+                </button>
+              </div>
+            </div>
+          )}
+
+          {progress.activeLearner && score.attempts > 0 && (
+            <p className="text-[10px] text-slate-500">
+              {score.correct} of {score.total} predictions right after {score.attempts} {score.attempts === 1 ? 'attempt' : 'attempts'}.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QuizPanel;
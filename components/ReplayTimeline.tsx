@@ -0,0 +1,167 @@
+import React, { useEffect, useReducer, useState } from 'react';
+import { Circle, Square, Play, Pause, SkipBack, StepBack, StepForward, History, X } from 'lucide-react';
+import { RunRecorder, RunRecording, ReplayModel, REPLAY_SPEEDS, MAX_RECORD_SECONDS, MAX_RECORD_BYTES } from '../simulation/recording';
+
+interface ReplayTimelineProps {
+  recorder: RunRecorder;
+  isRecording: boolean;
+  // Last finished recording, if any
+  recording: RunRecording | null;
+  replay: ReplayModel | null;
+  onRecord: () => void;
+  onStopRecording: () => void;
+  onReplay: () => void;
+  onExitReplay: () => void;
+}
+
+const formatTime = (seconds: number) => `${seconds.toFixed(1)}s`;
+
+const ReplayTimeline: React.FC<ReplayTimelineProps> = ({
+  recorder,
+  isRecording,
+  recording,
+  replay,
+  onRecord,
+  onStopRecording,
+  onReplay,
+  onExitReplay
+}) => {
+  // The recorder and playhead advance inside the render loop; poll them for display
+  const [clock, setClock] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  // Re-render after poking the replay model directly
+  const [, refresh] = useReducer((n: number) => n + 1, 0);
+
+  useEffect(() => {
+    if (!isRecording && !replay) return;
+    let frame: number;
+    const poll = () => {
+      // The recorder stops itself at MAX_RECORD_SECONDS or MAX_RECORD_BYTES
+      if (isRecording && !recorder.isRecording) onStopRecording();
+      const time = replay ? replay.time : recorder.duration;
+      setClock(prev => Math.abs(prev - time) >= 0.05 || time === 0 ? time : prev);
+      // Playback pauses itself at the end
+      setIsPlaying(replay?.playing ?? false);
+      frame = requestAnimationFrame(poll);
+    };
+    frame = requestAnimationFrame(poll);
+    return () => cancelAnimationFrame(frame);
+  }, [isRecording, replay, recorder, onStopRecording]);
+
+  const buttonClass = 'p-1.5 rounded-md text-slate-300 hover:text-white hover:bg-white/5 transition-colors';
+
+  if (replay) {
+    const { duration, events } = replay.recording;
+    const jumpTo = (time: number) => {
+      replay.seek(time);
+      setClock(time);
+    };
+
+    return (
+      <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-[560px] px-5 py-4 space-y-3">
+        <div className="flex items-center gap-1">
+          <button onClick={() => jumpTo(0)} title="Rewind" className={buttonClass}>
+            <SkipBack className="w-4 h-4" />
+          </button>
+          <button onClick={() => { replay.stepFrame(-1); setClock(replay.time); }} title="Previous frame" className={buttonClass}>
+            <StepBack className="w-4 h-4" />
+          </button>
+          <button onClick={() => { replay.setPlaying(!replay.playing); setIsPlaying(replay.playing); }} title={isPlaying ? 'Pause' : 'Play'} className={`${buttonClass} text-cyan-300`}>
+            {isPlaying ? <Pause className="w-4 h-4 fill-current" /> : <Play className="w-4 h-4 fill-current" />}
+          </button>
+          <button onClick={() => { replay.stepFrame(1); setClock(replay.time); }} title="Next frame" className={buttonClass}>
+            <StepForward className="w-4 h-4" />
+          </button>
+
+          <div className="flex gap-1 ml-3">
+            {REPLAY_SPEEDS.map(speed => (
+              <button
+                key={speed}
+                onClick={() => { replay.setSpeed(speed); refresh(); }}
+                className={`px-2 py-1 rounded-md text-[10px] font-mono transition-all duration-300 ${replay.speed === speed ? 'bg-cyan-500/20 text-cyan-200 border border-cyan-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+              >
+                {speed}x
+              </button>
+            ))}
+          </div>
+
+          <span className="ml-auto font-mono text-[11px] text-slate-400">
+            <span className="text-cyan-300">{formatTime(clock)}</span> / {formatTime(duration)}
+          </span>
+          <button onClick={onExitReplay} title="Back to live simulation" className={`${buttonClass} ml-2`}>
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        {/* Scrubber with a marker for every parameter change made while recording */}
+        <div className="relative pt-3">
+          {events.map((event, i) => (
+            <button
+              key={i}
+              onClick={() => jumpTo(event.time)}
+              title={`${formatTime(event.time)}: ${event.label}`}
+              className="absolute top-0 w-1.5 h-3 -ml-[3px] rounded-sm bg-amber-400 hover:bg-amber-300"
+              style={{ left: `${(event.time / duration) * 100}%` }}
+            />
+          ))}
+          <div className="relative h-1.5 bg-slate-800 rounded-full overflow-hidden">
+            <div
+              className="absolute top-0 left-0 h-full bg-gradient-to-r from-cyan-600 to-cyan-400 rounded-full"
+              style={{ width: `${(clock / duration) * 100}%` }}
+            ></div>
+            <input
+              type="range"
+              min="0"
+              max={duration}
+              step="0.01"
+              value={clock}
+              onChange={(e) => jumpTo(parseFloat(e.target.value))}
+              className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl px-3 py-2 flex items-center gap-2">
+      {isRecording ? (
+        <button
+          onClick={onStopRecording}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold text-rose-300 bg-rose-500/10 border border-rose-500/30 hover:bg-rose-500/20 transition-all"
+        >
+          <span className="w-2 h-2 rounded-full bg-rose-500 animate-pulse"></span>
+          <Square className="w-3 h-3 fill-current" />
+          Stop
+          <span className="font-mono font-normal text-rose-200/80">{formatTime(clock)} / {MAX_RECORD_SECONDS}s</span>
+        </button>
+      ) : (
+        <button
+          onClick={onRecord}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 transition-all"
+        >
+          <Circle className="w-3 h-3 fill-rose-500 text-rose-500" />
+          Record
+        </button>
+      )}
+      {recording && !isRecording && (
+        <button
+          onClick={onReplay}
+          className="flex items-center gap-2 px-3 py-1.5 rounded-lg text-xs font-semibold text-cyan-300 border border-cyan-500/30 bg-cyan-500/10 hover:bg-cyan-500/20 transition-all"
+        >
+          <History className="w-3.5 h-3.5" />
+          Replay
+          <span className="font-mono font-normal text-cyan-200/80">{formatTime(recording.duration)}</span>
+        </button>
+      )}
+      {recording?.limit === 'memory' && !isRecording && (
+        <span className="text-[10px] text-amber-300 leading-relaxed">
+          Stopped early: the take filled its {MAX_RECORD_BYTES / 1024 ** 2} MB frame budget. Lower the density or detail to record longer.
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default ReplayTimeline;
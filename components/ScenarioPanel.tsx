@@ -0,0 +1,137 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark, ChevronDown, ChevronUp, Download, Upload, Link } from 'lucide-react';
+import { Scenario } from '../types';
+import {
+  ScenarioError,
+  getScenarioFileName,
+  getScenarioShareUrl,
+  parseScenario,
+  readScenarioFromUrl,
+  serializeScenario
+} from '../services/scenarioService';
+
+interface ScenarioPanelProps {
+  // Captures the current setup under the given name
+  getScenario: (name: string) => Scenario;
+  onLoad: (scenario: Scenario) => void;
+}
+
+type Notice = { text: string; error?: boolean } | null;
+
+const describeError = (error: unknown) =>
+  error instanceof ScenarioError ? error.message : 'Something went wrong reading the scenario.';
+
+const ScenarioPanel: React.FC<ScenarioPanelProps> = ({ getScenario, onLoad }) => {
+  const [open, setOpen] = useState(false);
+  const [name, setName] = useState('Untitled scenario');
+  const [notice, setNotice] = useState<Notice>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = (scenario: Scenario, source: string) => {
+    setName(scenario.name);
+    onLoad(scenario);
+    setNotice({ text: `Loaded "${scenario.name}" from ${source}.` });
+  };
+
+  // A shared link opens straight into its scenario
+  useEffect(() => {
+    try {
+      const scenario = readScenarioFromUrl();
+      if (scenario) load(scenario, 'the link');
+    } catch (error) {
+      setOpen(true);
+      setNotice({ text: `Couldn't open the shared scenario: ${describeError(error)}`, error: true });
+    }
+  }, []);
+
+  const exportFile = () => {
+    const scenario = getScenario(name);
+    const url = URL.createObjectURL(new Blob([serializeScenario(scenario)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = getScenarioFileName(scenario);
+    link.click();
+    URL.revokeObjectURL(url);
+    setNotice({ text: `Saved ${link.download}.` });
+  };
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires
+    e.target.value = '';
+    if (!file) return;
+    try {
+      load(parseScenario(await file.text()), file.name);
+    } catch (error) {
+      setNotice({ text: `${file.name}: ${describeError(error)}`, error: true });
+    }
+  };
+
+  const copyLink = async () => {
+    const url = getScenarioShareUrl(getScenario(name));
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({ text: 'Share link copied to the clipboard.' });
+    } catch {
+      // Clipboard access can be denied; the address bar still carries the link
+      window.history.replaceState(null, '', url);
+      setNotice({ text: 'Clipboard unavailable; the link is now in the address bar.' });
+    }
+  };
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Bookmark className="w-4 h-4 text-sky-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Scenarios</span>
+        </div>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-3">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="Scenario name"
+            className="w-full bg-[#1e293b] text-xs text-white placeholder-slate-500 rounded-md py-2 px-3 focus:outline-none focus:ring-1 focus:ring-sky-500/50 border border-slate-700"
+          />
+          <div className="grid grid-cols-3 gap-1.5">
+            <button
+              onClick={exportFile}
+              className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-[11px] font-medium text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 transition-all duration-300"
+            >
+              <Download className="w-3 h-3" />
+              Export
+            </button>
+            <button
+              onClick={() => fileInput.current?.click()}
+              className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-[11px] font-medium text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 transition-all duration-300"
+            >
+              <Upload className="w-3 h-3" />
+              Import
+            </button>
+            <button
+              onClick={copyLink}
+              className="flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-[11px] font-medium text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 transition-all duration-300"
+            >
+              <Link className="w-3 h-3" />
+              Share
+            </button>
+          </div>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+          {notice && (
+            <p className={`text-[10px] leading-relaxed ${notice.error ? 'text-rose-300' : 'text-slate-400'}`}>{notice.text}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScenarioPanel;
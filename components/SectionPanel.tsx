@@ -0,0 +1,110 @@
+import React, { useState } from 'react';
+import { Slice, ChevronDown, ChevronUp } from 'lucide-react';
+import { SectionSettings } from '../types';
+import { FlowSummary, SECTION_ANGLE_LIMITS } from '../simulation/flowField';
+import { MM_PER_UNIT } from '../simulation/particleSizes';
+
+interface SectionPanelProps {
+  settings: SectionSettings;
+  onChange: (settings: SectionSettings) => void;
+  summary: FlowSummary | null;
+  // The section cuts the single cross-flow filter, so it is unavailable in CASCADE view
+  available: boolean;
+}
+
+const LAYERS: { key: 'arrows' | 'streamlines' | 'recirculation'; label: string; swatch: string }[] = [
+  { key: 'arrows', label: 'Velocity', swatch: 'bg-gradient-to-r from-cyan-400 to-orange-500' },
+  { key: 'streamlines', label: 'Streamlines', swatch: 'bg-slate-100' },
+  { key: 'recirculation', label: 'Recirculation', swatch: 'bg-fuchsia-400' }
+];
+
+/** Scene units per second as mm/s. */
+const formatSpeed = (value: number) => `${(value * MM_PER_UNIT).toFixed(1)} mm/s`;
+
+const SectionPanel: React.FC<SectionPanelProps> = ({ settings, onChange, summary, available }) => {
+  const [open, setOpen] = useState(false);
+  const update = (patch: Partial<SectionSettings>) => onChange({ ...settings, ...patch });
+  const { min, max, step } = SECTION_ANGLE_LIMITS;
+  const shown = settings.enabled && available;
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Slice className="w-4 h-4 text-cyan-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Cross-Section</span>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-slate-400">
+          <span className={shown ? 'text-cyan-300' : ''}>{shown ? 'On' : 'Off'}</span>
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          <button
+            onClick={() => update({ enabled: !settings.enabled })}
+            disabled={!available}
+            className={`w-full py-2 rounded-lg text-xs font-bold uppercase tracking-wide border transition-colors disabled:opacity-40 ${settings.enabled ? 'bg-cyan-500/20 text-cyan-200 border-cyan-500/40' : 'text-slate-400 border-slate-800 hover:text-white hover:bg-white/5'}`}
+          >
+            {settings.enabled ? 'Hide Section' : 'Slice Filter'}
+          </button>
+          {!available && <p className="text-[10px] text-slate-500">The section cuts the single filter; leave the Cascade view to use it.</p>}
+
+          <div className="space-y-1">
+            <div className="flex justify-between text-[10px] text-slate-500">
+              <span>Plane angle</span>
+              <span className="font-mono text-cyan-300">{settings.angle}°</span>
+            </div>
+            <div className="relative h-1 bg-slate-800 rounded-full overflow-hidden">
+              <div className="absolute top-0 left-0 h-full rounded-full bg-cyan-500" style={{ width: `${((settings.angle - min) / (max - min)) * 100}%` }}></div>
+              <input
+                type="range"
+                min={min}
+                max={max}
+                step={step}
+                value={settings.angle}
+                onChange={(e) => update({ angle: parseFloat(e.target.value) })}
+                className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-3 gap-1.5">
+            {LAYERS.map(layer => (
+              <button
+                key={layer.key}
+                onClick={() => update({ [layer.key]: !settings[layer.key] })}
+                className={`flex flex-col items-center gap-1 px-1.5 py-1.5 rounded-md text-[10px] font-medium transition-all duration-300 ${settings[layer.key] ? 'bg-white/5 text-slate-200 border border-slate-600' : 'text-slate-500 border border-slate-800 hover:text-white'}`}
+              >
+                <span className={`w-6 h-1 rounded-full ${layer.swatch} ${settings[layer.key] ? '' : 'opacity-30'}`}></span>
+                {layer.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-[10px] text-slate-500 leading-relaxed">
+            Arrows show the mean in-plane velocity, cyan where the flow runs along the axis and orange where it swirls around it. Magenta marks solids turned back from the rakers towards the core.
+          </p>
+
+          {shown && (
+            <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-[11px] text-slate-400">
+              <span>Axial</span>
+              <span className="font-mono text-right text-cyan-300">{summary ? formatSpeed(summary.meanAxialSpeed) : '–'}</span>
+              <span>Cross-flow</span>
+              <span className="font-mono text-right text-slate-300">{summary ? formatSpeed(summary.meanRadialSpeed) : '–'}</span>
+              <span>Tangential</span>
+              <span className="font-mono text-right text-orange-300">{summary ? formatSpeed(summary.meanTangentialSpeed) : '–'}</span>
+              <span>Recirculation</span>
+              <span className="font-mono text-right text-fuchsia-300">{summary ? `${summary.recirculatingCells} / ${summary.occupiedCells} cells` : '–'}</span>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SectionPanel;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { Cylinder, ChevronDown, ChevronUp, Trash2 } from 'lucide-react';
+import { CONTAMINANTS } from '../simulation/contaminants';
+import {
+  SludgeTank,
+  SludgeTankConfig,
+  PurgeMode,
+  TankStatus,
+  TANK_LIMITS,
+  getTankFill,
+  getTankMass,
+  getTankForecast
+} from '../simulation/sludgeTank';
+
+interface SludgeTankPanelProps {
+  tank: SludgeTank;
+  onConfigChange: (config: SludgeTankConfig) => void;
+  onEmpty: () => void;
+}
+
+const STATUS_STYLES: Record<TankStatus, { label: string; className: string }> = {
+  filling: { label: 'Filling', className: 'text-slate-400' },
+  purging: { label: 'Purging', className: 'text-cyan-300' },
+  full: { label: 'Maintenance due', className: 'text-rose-400' }
+};
+
+const PURGE_MODES: { id: PurgeMode; label: string }[] = [
+  { id: 'auto', label: 'Auto Purge' },
+  { id: 'manual', label: 'Manual' }
+];
+
+/** Simulated seconds as "45 s" or "2.5 min". */
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return '–';
+  return seconds < 90 ? `${seconds.toFixed(0)} s` : `${(seconds / 60).toFixed(1)} min`;
+};
+
+const TankSlider = ({ label, value, display, field, onChange }: {
+  label: string,
+  value: number,
+  display: string,
+  field: keyof typeof TANK_LIMITS,
+  onChange: (value: number) => void
+}) => {
+  const { min, max, step } = TANK_LIMITS[field];
+  return (
+    <div className="space-y-1">
+      <div className="flex justify-between text-[10px] text-slate-500">
+        <span>{label}</span>
+        <span className="font-mono text-amber-300">{display}</span>
+      </div>
+      <div className="relative h-1 bg-slate-800 rounded-full overflow-hidden">
+        <div className="absolute top-0 left-0 h-full rounded-full bg-amber-500" style={{ width: `${((value - min) / (max - min)) * 100}%` }}></div>
+        <input
+          type="range"
+          min={min}
+          max={max}
+          step={step}
+          value={value}
+          onChange={(e) => onChange(parseFloat(e.target.value))}
+          className="absolute top-0 left-0 w-full h-full opacity-0 cursor-pointer"
+        />
+      </div>
+    </div>
+  );
+};
+
+const SludgeTankPanel: React.FC<SludgeTankPanelProps> = ({ tank, onConfigChange, onEmpty }) => {
+  const [open, setOpen] = useState(false);
+
+  const { config } = tank;
+  const fill = getTankFill(tank);
+  const forecast = getTankForecast(tank);
+  const status = STATUS_STYLES[tank.status];
+  const update = (patch: Partial<SludgeTankConfig>) => onConfigChange({ ...config, ...patch });
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <Cylinder className="w-4 h-4 text-amber-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Sludge Tank</span>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-slate-400">
+          <span className={`font-mono ${status.className}`}>{(fill * 100).toFixed(0)}%</span>
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          <div className="space-y-1.5">
+            <div className="flex justify-between items-baseline text-[11px]">
+              <span className={`font-medium ${status.className}`}>{status.label}</span>
+              <span className="font-mono text-[10px] text-slate-500">{getTankMass(tank).toFixed(2)} / {config.capacity} g</span>
+            </div>
+            {/* Fill level, stacked by contaminant; the tick marks the purge threshold */}
+            <div className="relative flex h-2.5 rounded-full overflow-hidden bg-slate-800">
+              {CONTAMINANTS.filter(c => tank.contents[c.id] > 0).map(c => (
+                <div key={c.id} className="h-full" style={{ width: `${(tank.contents[c.id] / config.capacity) * 100}%`, background: c.color }}></div>
+              ))}
+              <div className="absolute top-0 h-full w-0.5 bg-white/70" style={{ left: `${config.purgeThreshold * 100}%` }}></div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-x-4 gap-y-1.5 text-[11px] text-slate-400">
+            <span>Fill rate</span>
+            <span className="font-mono text-right text-slate-300">{(tank.fillRate * 60).toFixed(2)} g/min</span>
+            <span>{config.mode === 'auto' ? 'Next purge' : 'Next call'}</span>
+            <span className="font-mono text-right text-slate-300">{formatSeconds(forecast.secondsToThreshold)}</span>
+            <span>Empty every</span>
+            <span className="font-mono text-right text-amber-300">{formatSeconds(forecast.secondsPerCycle)}</span>
+            <span>Measured</span>
+            <span className="font-mono text-right text-slate-300">{formatSeconds(forecast.measuredInterval)}</span>
+            {tank.overflow > 0 && (
+              <>
+                <span className="text-rose-400">Overflow</span>
+                <span className="font-mono text-right text-rose-300">{tank.overflow.toFixed(2)} g</span>
+              </>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <div className="grid grid-cols-2 gap-1.5">
+              {PURGE_MODES.map(mode => (
+                <button
+                  key={mode.id}
+                  onClick={() => update({ mode: mode.id })}
+                  className={`px-2 py-1.5 rounded-md text-[11px] font-medium transition-all duration-300 ${config.mode === mode.id ? 'bg-amber-500/20 text-amber-200 border border-amber-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+                >
+                  {mode.label}
+                </button>
+              ))}
+            </div>
+            <TankSlider label="Capacity" field="capacity" value={config.capacity} display={`${config.capacity} g`} onChange={capacity => update({ capacity })} />
+            <TankSlider label="Purge at" field="purgeThreshold" value={config.purgeThreshold} display={`${(config.purgeThreshold * 100).toFixed(0)}%`} onChange={purgeThreshold => update({ purgeThreshold })} />
+            {config.mode === 'auto' && (
+              <TankSlider label="Flush time" field="purgeSeconds" value={config.purgeSeconds} display={`${config.purgeSeconds} s`} onChange={purgeSeconds => update({ purgeSeconds })} />
+            )}
+          </div>
+
+          <button
+            onClick={onEmpty}
+            className={`w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold uppercase tracking-wide border transition-colors ${tank.status === 'full' ? 'bg-rose-500/10 text-rose-400 hover:bg-rose-500/20 border-rose-500/30' : 'text-slate-400 border-slate-800 hover:text-white hover:bg-white/5'}`}
+          >
+            <Trash2 className="w-3.5 h-3.5" />
+            Empty Tank
+          </button>
+
+          {tank.events.length > 0 && (
+            <div className="space-y-1">
+              <span className="text-[11px] font-medium text-slate-400">Events</span>
+              {tank.events.slice(-4).reverse().map(event => (
+                <div key={`${event.time}-${event.kind}`} className="flex justify-between text-[10px] text-slate-400">
+                  <span>{event.kind === 'purge' ? 'Purged' : event.kind === 'maintenance' ? 'Maintenance call' : 'Emptied by hand'}</span>
+                  <span className="font-mono text-slate-300">{event.time.toFixed(0)} s · {event.mass.toFixed(2)} g</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SludgeTankPanel;
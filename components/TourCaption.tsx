@@ -0,0 +1,77 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GraduationCap, ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { Tour } from '../types';
+
+interface TourCaptionProps {
+  tour: Tour;
+  index: number;
+  onGoTo: (index: number) => void;
+  onExit: () => void;
+}
+
+const TourCaption: React.FC<TourCaptionProps> = ({ tour, index, onGoTo, onExit }) => {
+  const step = tour.steps[index];
+  const isLast = index === tour.steps.length - 1;
+  // Seconds until a timed step moves on by itself
+  const [remaining, setRemaining] = useState<number | null>(null);
+  // The parent re-renders with every metrics sample; keep the timer on the latest handler without restarting it
+  const goTo = useRef(onGoTo);
+  goTo.current = onGoTo;
+
+  useEffect(() => {
+    if (step.duration === null || isLast) {
+      setRemaining(null);
+      return;
+    }
+    const deadline = Date.now() + step.duration * 1000;
+    setRemaining(step.duration);
+    const timer = setInterval(() => {
+      const left = Math.ceil((deadline - Date.now()) / 1000);
+      if (left > 0) setRemaining(left);
+      else {
+        clearInterval(timer);
+        goTo.current(index + 1);
+      }
+    }, 250);
+    return () => clearInterval(timer);
+  }, [tour, index]);
+
+  const buttonClass = 'flex items-center gap-1 px-2.5 py-1.5 rounded-md text-[11px] font-medium transition-colors disabled:opacity-40';
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-yellow-500/30 rounded-2xl shadow-2xl w-[520px] px-5 py-4 space-y-2 animate-in fade-in slide-in-from-top-2 duration-300">
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2 min-w-0">
+          <GraduationCap className="w-4 h-4 text-yellow-400 shrink-0" />
+          <span className="text-[10px] uppercase tracking-wider text-slate-500 truncate">{tour.title}</span>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          <span className="text-[10px] font-mono text-slate-400">{index + 1} / {tour.steps.length}</span>
+          <button onClick={onExit} title="Leave the tour" className="p-1 rounded-md text-slate-400 hover:text-white hover:bg-white/5 transition-colors">
+            <X className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      </div>
+
+      <h2 className="text-sm font-semibold text-white">{step.title}</h2>
+      <p className="text-xs text-slate-300 leading-relaxed">{step.caption}</p>
+
+      <div className="flex items-center justify-between pt-1">
+        <button onClick={() => onGoTo(index - 1)} disabled={index === 0} className={`${buttonClass} text-slate-300 hover:text-white hover:bg-white/5`}>
+          <ChevronLeft className="w-3.5 h-3.5" />
+          Back
+        </button>
+        {remaining !== null && <span className="text-[10px] font-mono text-slate-500">next in {remaining}s</span>}
+        <button
+          onClick={() => isLast ? onExit() : onGoTo(index + 1)}
+          className={`${buttonClass} text-yellow-200 border border-yellow-500/30 hover:bg-yellow-500/10`}
+        >
+          {isLast ? 'Finish' : 'Next'}
+          {!isLast && <ChevronRight className="w-3.5 h-3.5" />}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default TourCaption;
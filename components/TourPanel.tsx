@@ -0,0 +1,116 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GraduationCap, ChevronDown, ChevronUp, Play, Upload, Link } from 'lucide-react';
+import { Tour } from '../types';
+import { BUILT_IN_TOURS, TourError, getTourShareUrl, parseTour, readTourFromUrl } from '../services/tourService';
+
+interface TourPanelProps {
+  // The tour being played, if any
+  active: Tour | null;
+  onStart: (tour: Tour) => void;
+}
+
+type Notice = { text: string; error?: boolean } | null;
+
+const describeError = (error: unknown) =>
+  error instanceof TourError ? error.message : 'Something went wrong reading the tour.';
+
+const TourPanel: React.FC<TourPanelProps> = ({ active, onStart }) => {
+  const [open, setOpen] = useState(false);
+  const [notice, setNotice] = useState<Notice>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  // A tour link starts its lesson straight away
+  useEffect(() => {
+    try {
+      const tour = readTourFromUrl();
+      if (tour) onStart(tour);
+    } catch (error) {
+      setOpen(true);
+      setNotice({ text: `Couldn't open the linked tour: ${describeError(error)}`, error: true });
+    }
+  }, []);
+
+  const importFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Clear the input so picking the same file again still fires
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const tour = parseTour(await file.text());
+      onStart(tour);
+      setNotice({ text: `Started "${tour.title}" from ${file.name}.` });
+    } catch (error) {
+      setNotice({ text: `${file.name}: ${describeError(error)}`, error: true });
+    }
+  };
+
+  const copyLink = async (tour: Tour) => {
+    const url = getTourShareUrl(tour);
+    try {
+      await navigator.clipboard.writeText(url);
+      setNotice({ text: `Link to "${tour.title}" copied to the clipboard.` });
+    } catch {
+      // Clipboard access can be denied; the address bar still carries the link
+      window.history.replaceState(null, '', url);
+      setNotice({ text: 'Clipboard unavailable; the link is now in the address bar.' });
+    }
+  };
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <GraduationCap className="w-4 h-4 text-yellow-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Guided Tours</span>
+        </div>
+        {open ? <ChevronUp className="w-4 h-4 text-slate-400" /> : <ChevronDown className="w-4 h-4 text-slate-400" />}
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-3">
+          {BUILT_IN_TOURS.map(tour => (
+            <div key={tour.id} className={`rounded-lg border p-3 space-y-2 ${active?.id === tour.id ? 'border-yellow-500/40 bg-yellow-500/10' : 'border-slate-800'}`}>
+              <div className="flex items-start justify-between gap-2">
+                <span className="text-xs font-semibold text-white">{tour.title}</span>
+                <span className="text-[10px] font-mono text-slate-500 whitespace-nowrap">{tour.steps.length} steps</span>
+              </div>
+              {tour.description && <p className="text-[10px] text-slate-400 leading-relaxed">{tour.description}</p>}
+              <div className="flex gap-1.5">
+                <button
+                  onClick={() => onStart(tour)}
+                  className="flex-1 flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-[11px] font-medium text-yellow-200 border border-yellow-500/30 hover:bg-yellow-500/10 transition-all duration-300"
+                >
+                  <Play className="w-3 h-3 fill-current" />
+                  {active?.id === tour.id ? 'Restart' : 'Start'}
+                </button>
+                <button
+                  onClick={() => copyLink(tour)}
+                  title="Copy a link that opens this tour"
+                  className="flex items-center justify-center px-2 py-1.5 rounded-md text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 transition-all duration-300"
+                >
+                  <Link className="w-3 h-3" />
+                </button>
+              </div>
+            </div>
+          ))}
+          <button
+            onClick={() => fileInput.current?.click()}
+            className="w-full flex items-center justify-center gap-1.5 px-2 py-1.5 rounded-md text-[11px] font-medium text-slate-300 border border-slate-800 hover:text-white hover:bg-white/5 transition-all duration-300"
+          >
+            <Upload className="w-3 h-3" />
+            Open Tour File
+          </button>
+          <input ref={fileInput} type="file" accept="application/json,.json" onChange={importFile} className="hidden" />
+          {notice && (
+            <p className={`text-[10px] leading-relaxed ${notice.error ? 'text-rose-300' : 'text-slate-400'}`}>{notice.text}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TourPanel;
@@ -0,0 +1,170 @@
+import React, { useState } from 'react';
+import { WashingMachine, ChevronDown, ChevronUp, Play, Square } from 'lucide-react';
+import {
+  WASH_PROGRAMS,
+  FABRIC_TYPES,
+  WashProgram,
+  FabricType,
+  WashCycleRun,
+  CyclePhaseKind,
+  getProgramDuration,
+  getFiberCapture
+} from '../simulation/washCycle';
+
+interface WashCyclePanelProps {
+  cycle: WashCycleRun | null;
+  // Newest first
+  completed: WashCycleRun[];
+  // Cycles are measured from the latest metrics sample, so starting waits for the first one
+  canStart: boolean;
+  onStart: (program: WashProgram, fabric: FabricType) => void;
+  onStop: () => void;
+}
+
+const PHASE_COLORS: Record<CyclePhaseKind, string> = {
+  wash: '#334155',
+  drain: '#0891b2',
+  spin: '#7c3aed'
+};
+
+const formatCapture = (run: WashCycleRun) => {
+  const capture = getFiberCapture(run);
+  return capture === null ? '–' : `${capture.toFixed(0)}%`;
+};
+
+const WashCyclePanel: React.FC<WashCyclePanelProps> = ({ cycle, completed, canStart, onStart, onStop }) => {
+  const [open, setOpen] = useState(false);
+  const [program, setProgram] = useState(WASH_PROGRAMS[0]);
+  const [fabric, setFabric] = useState(FABRIC_TYPES[0]);
+
+  const running = cycle !== null && !cycle.state.done;
+  // While a cycle runs its own program is shown; the pickers apply to the next one
+  const shownProgram = cycle?.program ?? program;
+  const duration = getProgramDuration(shownProgram);
+
+  return (
+    <div className="bg-[#0f172a]/95 backdrop-blur-xl border border-slate-800 rounded-2xl shadow-2xl w-72">
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="w-full flex items-center justify-between px-5 py-4 text-left"
+      >
+        <div className="flex items-center gap-2.5">
+          <WashingMachine className="w-4 h-4 text-cyan-400" />
+          <span className="font-semibold text-sm tracking-tight text-white">Washing Machine</span>
+        </div>
+        <div className="flex items-center gap-2 text-[11px] text-slate-400">
+          {running && <span className="font-mono">{cycle.state.phase.label}</span>}
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </div>
+      </button>
+
+      {open && (
+        <div className="px-5 pb-5 space-y-4">
+          <div className="space-y-1.5">
+            <span className="text-[11px] font-medium text-slate-400">Program</span>
+            <div className="grid grid-cols-3 gap-1.5">
+              {WASH_PROGRAMS.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => setProgram(p)}
+                  disabled={running}
+                  className={`px-2 py-1.5 rounded-md text-[11px] font-medium transition-all duration-300 disabled:opacity-50 ${program === p ? 'bg-cyan-500/20 text-cyan-200 border border-cyan-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+                >
+                  {p.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-1.5">
+            <span className="text-[11px] font-medium text-slate-400">Fabric</span>
+            <div className="grid grid-cols-2 gap-1.5">
+              {FABRIC_TYPES.map(f => (
+                <button
+                  key={f.id}
+                  onClick={() => setFabric(f)}
+                  disabled={running}
+                  className={`px-2 py-1.5 rounded-md text-[11px] font-medium transition-all duration-300 disabled:opacity-50 ${fabric === f ? 'bg-purple-500/20 text-purple-200 border border-purple-500/40' : 'text-slate-400 border border-slate-800 hover:text-white hover:bg-white/5'}`}
+                >
+                  {f.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {/* Drain profile: one segment per phase, scaled to its length */}
+          <div className="space-y-1.5">
+            <div className="relative flex h-2 rounded-full overflow-hidden bg-slate-800">
+              {shownProgram.phases.map((phase, i) => (
+                <div
+                  key={i}
+                  title={phase.label}
+                  className="h-full border-r border-slate-950 last:border-r-0"
+                  style={{ width: `${(phase.seconds / duration) * 100}%`, background: PHASE_COLORS[phase.kind], opacity: cycle && i > cycle.state.phaseIndex ? 0.4 : 1 }}
+                ></div>
+              ))}
+              {cycle && (
+                <div className="absolute top-0 h-full w-0.5 bg-white" style={{ left: `${cycle.state.progress * 100}%` }}></div>
+              )}
+            </div>
+            <div className="flex justify-between text-[10px] text-slate-500">
+              <span>{cycle ? `${cycle.state.phase.label}${cycle.state.done ? ' · done' : ''}` : `${shownProgram.phases.length} phases`}</span>
+              <span className="font-mono">{cycle ? `${cycle.state.elapsed.toFixed(0)}` : '0'} / {duration}s</span>
+            </div>
+          </div>
+
+          {cycle && (
+            <div className="grid grid-cols-3 gap-2 text-center">
+              <div className="bg-slate-900/60 rounded-md py-1.5">
+                <div className="font-mono text-sm text-amber-300">{cycle.captured}</div>
+                <div className="text-[9px] text-slate-500 uppercase tracking-wide">Captured</div>
+              </div>
+              <div className="bg-slate-900/60 rounded-md py-1.5">
+                <div className="font-mono text-sm text-sky-300">{cycle.escaped}</div>
+                <div className="text-[9px] text-slate-500 uppercase tracking-wide">Escaped</div>
+              </div>
+              <div className="bg-slate-900/60 rounded-md py-1.5">
+                <div className="font-mono text-sm text-emerald-300">{formatCapture(cycle)}</div>
+                <div className="text-[9px] text-slate-500 uppercase tracking-wide">Caught</div>
+              </div>
+            </div>
+          )}
+
+          {running ? (
+            <button
+              onClick={onStop}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-rose-500/10 text-rose-400 hover:bg-rose-500/20 border border-rose-500/30 transition-colors"
+            >
+              <Square className="w-3.5 h-3.5 fill-current" />
+              Stop Cycle
+            </button>
+          ) : (
+            <button
+              onClick={() => onStart(program, fabric)}
+              disabled={!canStart}
+              className="w-full flex items-center justify-center gap-2 py-2 rounded-lg text-xs font-bold uppercase tracking-wide bg-emerald-500/10 text-emerald-400 hover:bg-emerald-500/20 border border-emerald-500/30 transition-colors disabled:opacity-40"
+            >
+              <Play className="w-3.5 h-3.5 fill-current" />
+              Start Cycle
+            </button>
+          )}
+          {running && <p className="text-[10px] text-slate-500">The cycle sets flow and density until it ends.</p>}
+
+          {completed.length > 0 && (
+            <div className="space-y-1">
+              <span className="text-[11px] font-medium text-slate-400">Completed Cycles</span>
+              {completed.map((run, i) => (
+                <div key={completed.length - i} className="flex justify-between text-[10px] text-slate-400">
+                  <span>#{completed.length - i} {run.program.label} · {run.fabric.label}</span>
+                  <span className="font-mono text-slate-300">{run.captured} ({formatCapture(run)})</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default WashCyclePanel;
@@ -0,0 +1,51 @@
+import { readFileSync, writeFileSync, mkdirSync } from 'fs';
+import path from 'path';
+import { runSweep, getSweetSpots, getSweepPoints } from '../simulation/sweep';
+import { parseSweepConfig, sweepToCSV, sweepToJSON, getSweepFileName, SweepError } from '../services/sweepService';
+
+// Command-line sweep runner: `npm run sweep -- <config.json> [--out <dir>]`.
+// Writes <name>.csv and <name>.json to the output directory (default: the current one).
+
+const USAGE = 'Usage: npm run sweep -- <config.json> [--out <dir>]';
+
+const main = () => {
+  const args = process.argv.slice(2);
+  const outIndex = args.indexOf('--out');
+  const outDir = outIndex >= 0 ? args[outIndex + 1] : '.';
+  const configPath = args.filter((_, i) => outIndex < 0 || (i !== outIndex && i !== outIndex + 1))[0];
+  if (!configPath || !outDir) {
+    console.error(USAGE);
+    process.exit(1);
+  }
+
+  const config = parseSweepConfig(readFileSync(configPath, 'utf8'));
+  const total = getSweepPoints(config).length;
+  console.log(`${config.name}: ${total} points, ${config.warmupSeconds}s warm-up + ${config.durationSeconds}s measured each`);
+
+  const started = Date.now();
+  const results = runSweep(config, (result, index) => {
+    console.log(`[${index + 1}/${total}] ${result.geometryLabel} · flow ${result.flowRate} · density ${result.particleDensity}`
+      + ` → efficiency ${result.efficiency.toFixed(1)}%, ${result.permeateThroughput.toFixed(1)} water/s`);
+  });
+  console.log(`Done in ${((Date.now() - started) / 1000).toFixed(1)}s`);
+
+  mkdirSync(outDir, { recursive: true });
+  const csvPath = path.join(outDir, getSweepFileName(config, 'csv'));
+  const jsonPath = path.join(outDir, getSweepFileName(config, 'json'));
+  writeFileSync(csvPath, sweepToCSV(results));
+  writeFileSync(jsonPath, sweepToJSON(config, results));
+  console.log(`Wrote ${csvPath} and ${jsonPath}`);
+
+  console.log(`\nSweet spots (most throughput within ${config.sweetSpotTolerance} points of the best efficiency):`);
+  for (const spot of getSweetSpots(results, config.sweetSpotTolerance)) {
+    console.log(`  ${spot.geometryLabel} (gap ${spot.rakerGap.toFixed(2)} mm), density ${spot.particleDensity}: flow ${spot.flowRate}`
+      + ` → ${spot.efficiency.toFixed(1)}% efficiency, ${spot.permeateThroughput.toFixed(1)} water/s, CF ${spot.concentrationFactor.toFixed(2)}`);
+  }
+};
+
+try {
+  main();
+} catch (error) {
+  console.error(error instanceof SweepError ? `Invalid sweep config: ${error.message}` : error);
+  process.exit(1);
+}
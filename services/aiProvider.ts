@@ -0,0 +1,81 @@
+import { ChatMessage } from "../types";
+
+export type AIProviderId = 'gemini' | 'openai' | 'canned';
+
+export type AIErrorKind = 'MISSING_KEY' | 'RATE_LIMIT' | 'NETWORK' | 'BLOCKED' | 'UNKNOWN';
+
+export class AIProviderError extends Error {
+  kind: AIErrorKind;
+
+  constructor(kind: AIErrorKind, message: string) {
+    super(message);
+    this.name = 'AIProviderError';
+    this.kind = kind;
+  }
+}
+
+// Upper bound on call-and-respond rounds before the model must answer in text
+export const MAX_TOOL_ROUNDS = 3;
+
+export interface AIToolDefinition {
+  name: string;
+  description: string;
+  // JSON Schema for the arguments object
+  parameters: Record<string, unknown>;
+}
+
+export interface AIToolCall {
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface AIReplyRequest {
+  systemInstruction: string;
+  history: ChatMessage[];
+  signal?: AbortSignal;
+  onToken: (text: string) => void;
+  tools?: AIToolDefinition[];
+  /** Runs a tool the model asked for and returns the result to report back to it. */
+  onToolCall?: (call: AIToolCall) => string;
+}
+
+/** A chat backend. Implementations stream tokens and throw AIProviderError on failure. */
+export interface AIProvider {
+  id: AIProviderId;
+  label: string;
+  streamReply: (request: AIReplyRequest) => Promise<string>;
+}
+
+// Build-time configuration, injected by vite.config.ts from .env.local
+export const getConfiguredProviderId = (): AIProviderId => {
+  const id = process.env.AI_PROVIDER;
+  return id === 'openai' || id === 'canned' ? id : 'gemini';
+};
+
+/** What the user should read for each failure; missing-key text names the variables to set. */
+export const describeAIError = (error: AIProviderError, providerId: AIProviderId): string => {
+  switch (error.kind) {
+    case 'MISSING_KEY':
+      return providerId === 'openai'
+        ? "BioGuide can't reach the local model: the endpoint rejected the request. Check OPENAI_BASE_URL and OPENAI_API_KEY in .env.local."
+        : "BioGuide needs a Gemini API key. Add GEMINI_API_KEY to .env.local, or set AI_PROVIDER=canned for offline demos.";
+    case 'RATE_LIMIT':
+      return "BioGuide is getting too many questions right now. Please wait a moment and try again.";
+    case 'NETWORK':
+      return "The bio-simulation interface is currently offline. Please check your connection.";
+    case 'BLOCKED':
+      return "That question was blocked by the model's content filter. Try rephrasing it.";
+    default:
+      return "I couldn't process that request right now.";
+  }
+};
+
+// fetch() reports unreachable hosts, DNS failures and CORS rejections as a bare TypeError
+export const isNetworkFailure = (error: unknown) => error instanceof TypeError;
+
+export const errorKindForStatus = (status: number): AIErrorKind => {
+  if (status === 401 || status === 403) return 'MISSING_KEY';
+  if (status === 429) return 'RATE_LIMIT';
+  if (status >= 500) return 'NETWORK';
+  return 'UNKNOWN';
+};
@@ -0,0 +1,111 @@
+import { ChatMessage, SimulationSnapshot } from "../types";
+import { AIProvider, AIProviderId, AIToolCall, getConfiguredProviderId } from "./aiProvider";
+import { SIMULATION_TOOLS } from "./simulationTools";
+import { CONTAMINANTS } from "../simulation/contaminants";
+import { geminiProvider } from "./geminiService";
+import { openAIProvider } from "./openAIService";
+import { cannedProvider } from "./cannedService";
+
+const PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  canned: cannedProvider
+};
+
+export const activeProvider = PROVIDERS[getConfiguredProviderId()];
+
+// Older turns are dropped so long sessions stay within a sensible prompt size
+const MAX_HISTORY_MESSAGES = 20;
+
+export interface ExpertStreamOptions {
+  signal?: AbortSignal;
+  onToken: (text: string) => void;
+  /** When set, BioGuide may reconfigure the simulation through SIMULATION_TOOLS. */
+  onToolCall?: (call: AIToolCall) => string;
+}
+
+// One line per registry entry, so new contaminant types are explained without editing the prompt
+const CONTAMINANT_GUIDE = CONTAMINANTS
+  .map(c => `${c.id} = ${c.description} (deformability ${c.deformability}, rebound ${c.rebound})`)
+  .join('; ');
+
+// Explains the snapshot fields; everything numeric the model says should come from the snapshot itself
+const SNAPSHOT_GUIDE = `
+        - viewMode: NATURE shows the fish gill arches, PRODUCT the engineered housing, SIEVE puts a dead-end mesh
+          screen beside the cross-flow filter at the same flow and load.
+        - particleSizes: log-normal size distribution of each contaminant (median diameter in mm, geometric spread,
+          density in g/cm³). Solids slip between the rakers more often the smaller and lighter they are.
+        - population: particles of each type in the scene; only contaminants in the current mix are listed.
+          Water particles are a fixed carrier; particleDensity sets the contaminant count.
+        - Contaminant types: ${CONTAMINANT_GUIDE}.
+          Deformable particles squeeze through narrower gaps; low-rebound particles linger at the raker wall.
+        - measured.efficiency: Newton separation efficiency (%), solids sent to sludge minus water lost to sludge.
+        - measured.separation[type]: recent particles per outlet and the share sent to the right outlet
+          (permeate for water, sludge for solids).
+        - measured.permeateThroughput: water particles per second leaving through the permeate.
+        - measured.concentrationFactor: how many times richer in solids the sludge is than the feed.
+        - measured.clogIndex: % of solids in the raker zone pressed against the raker wall (for the sieve: % of screen blinded).
+        - measured.pressureDrop: Pa the water loses crossing the raker wall (for the sieve: the screen), from the flow
+          solver. It rises with flow rate and as captured solids cake the wall.
+        - measured.cutSizeCurve: % of solids captured per diameter bin (mm); d50 is the diameter captured half the time.
+        - washCycle: the running (or last finished) washing-machine cycle. Its drain profile sets flowRate and
+          particleDensity; microfibersCaptured and microfibersEscaped count MICROPLASTIC and NATURAL_FIBER particles
+          that reached the sludge or permeate since the cycle started. Cycles are compressed in time. Null if none ran.
+        - sludgeTank: collection tank on the sludge outlet, in grams of simulated solids. It purges itself (auto) or
+          calls for maintenance (manual) at purgeThresholdPercent; minutesPerEmptying answers "how often do I empty
+          it" at the current flow and load, measuredMinutesPerEmptying is what the run has shown so far.
+        - cascade: CASCADE view only. Filters in series: each later stage treats the permeate or sludge of the one
+          before (feedFrom), flowSplit of that stream passing through it and the rest bypassing it. stages[] are each
+          stage on its own feed; train is what finally leaves the whole train. solidsCapture and waterRecovery are %.
+        - quiz: the learner's prediction quiz. The simulation measures the metric at the starting setup (baseline),
+          then again after the learner makes the change; outcome is graded against a tolerance band. While stage is
+          not done, never reveal or hint at the answer. Once done, explain the measured baseline and changed values.
+        - trends: current, min, max and change of each metric over the last windowSeconds of simulated time.
+        - measured or sieve is null until metrics arrive; say so rather than guessing numbers.`;
+
+const buildSystemInstruction = (snapshot: SimulationSnapshot) => `
+        You are an expert Bio-Engineer and Ecologist specializing in biomimicry.
+        You are explaining a 3D simulation of a water filter inspired by filter-feeding fish (like basking sharks or paddlefish).
+
+        Live simulation snapshot (JSON, version ${snapshot.version}):
+        ${JSON.stringify(snapshot)}
+
+        Snapshot fields:
+        ${SNAPSHOT_GUIDE}
+
+        Human applications of the design: retrofit microfiber filters for washing machines, industrial wastewater
+        pre-screening and autonomous ocean-cleaning drones. It is a solid-state filter with no moving parts.
+
+        Explain the science clearly, focusing on how "cross-flow filtration" in fish mouths prevents clogging (unlike sieve filters).
+        Quote measured values from the snapshot when they support the point, and never invent figures it does not contain.
+        Keep the answer concise (under 100 words) but fascinating.
+        Use the earlier conversation to resolve follow-up questions.
+        When the user asks to see something ("show me 4x flow", "zoom in on the rakers"), use the tools to change
+        the simulation first, then tell them what to watch for.
+      `;
+
+const trimHistory = (history: ChatMessage[]) => {
+  const recent = history.filter(m => !m.error).slice(-MAX_HISTORY_MESSAGES);
+  // The conversation sent to a model must open with a user turn
+  const firstUser = recent.findIndex(m => m.role === 'user');
+  return firstUser === -1 ? [] : recent.slice(firstUser);
+};
+
+/**
+ * Streams the expert's reply to the last user message in `history` from the configured provider.
+ * Each chunk is passed to `onToken` as it arrives; the full reply is returned.
+ * Aborting via `signal` stops the stream and resolves with whatever arrived so far.
+ * Failures are thrown as AIProviderError.
+ */
+export const askBiomimicryExpert = (
+  history: ChatMessage[],
+  snapshot: SimulationSnapshot,
+  { signal, onToken, onToolCall }: ExpertStreamOptions
+): Promise<string> => activeProvider.streamReply({
+  systemInstruction: buildSystemInstruction(snapshot),
+  history: trimHistory(history),
+  signal,
+  onToken,
+  tools: onToolCall ? SIMULATION_TOOLS : undefined,
+  onToolCall
+});
@@ -0,0 +1,39 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AIToolCall } from './aiProvider';
+import { cannedProvider } from './cannedService';
+import { SIMULATION_TOOLS } from './simulationTools';
+
+const ask = async (question: string, onToolCall: (call: AIToolCall) => string = () => 'ok') => {
+  const reply = cannedProvider.streamReply({
+    systemInstruction: '',
+    history: [{ role: 'user', text: question }],
+    onToken: () => {},
+    tools: SIMULATION_TOOLS,
+    onToolCall: call => onToolCall(call)
+  });
+  await vi.runAllTimersAsync();
+  return reply;
+};
+
+describe('cannedProvider', () => {
+  beforeEach(() => { vi.useFakeTimers(); });
+  afterEach(() => { vi.useRealTimers(); });
+
+  it('sets the flow rate only when the question names the flow', async () => {
+    const onToolCall = vi.fn(() => 'ok');
+    await ask('Set the flow speed to 2x', onToolCall);
+    expect(onToolCall).toHaveBeenCalledWith({ name: 'set_flow_rate', args: { flowRate: 2 } });
+
+    onToolCall.mockClear();
+    await ask('What if there were 2x more algae?', onToolCall);
+    await ask('Are 10x smaller plastics caught?', onToolCall);
+    expect(onToolCall).not.toHaveBeenCalled();
+  });
+
+  it('reports refused changes as refusals, not as done', async () => {
+    const reply = await ask('Pause, and set the flow to 2x', call =>
+      call.name === 'set_running' ? 'Simulation paused' : 'Error: a wash cycle is running');
+    expect(reply).toMatch(/^Done: Simulation paused\. I couldn't change that: a wash cycle is running\. /);
+    expect(reply).not.toContain('Error');
+  });
+});
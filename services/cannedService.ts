@@ -0,0 +1,109 @@
+import { AIProvider, AIToolCall } from "./aiProvider";
+
+// Deterministic offline stand-in: the same question always gets the same answer,
+// streamed word by word so the chat behaves like a live model in demos and tests.
+
+const WORD_DELAY_MS = 25;
+
+interface CannedAnswer {
+  keywords: string[];
+  text: string;
+}
+
+const ANSWERS: CannedAnswer[] = [
+  {
+    keywords: ['quiz', 'test me'],
+    text: "Let's test your intuition. Pick what you think will happen in the quiz panel, then let the simulation run: it measures the starting point, you make the change, and it measures again. I won't give the answer away, but ask me about the results once they're in."
+  },
+  {
+    keywords: ['washing', 'laundry', 'microfib'],
+    text: "In a washing machine the drain water carries synthetic microfibers. Our cone sits in the drain line: water escapes sideways between the rakers while fibers skim along the surface into a small collection chamber. Because nothing is forced through a mesh, the filter keeps draining at full speed for the whole cycle."
+  },
+  {
+    keywords: ['clog', 'sieve', 'mesh', 'screen'],
+    text: "A sieve catches everything head-on, so a cake builds up and the flow drops. Fish mouths use cross-flow instead: water turns sideways through the gill rakers while particles keep moving along them toward the throat. The rakers are constantly swept clean, so they never blind."
+  },
+  {
+    keywords: ['shark', 'paddlefish', 'fish', 'raker', 'gill'],
+    text: "Basking sharks and paddlefish swim with their mouths open. Gill rakers line each arch like a comb, angled into the flow. Food particles bounce off the rakers and ride a vortex toward the back of the mouth, while water slips out through the gaps. That is the cross-flow trick this filter copies."
+  },
+  {
+    keywords: ['sediment', 'sand'],
+    text: "Sediment is dense, so its inertia keeps it going straight while the water turns to escape between the rakers. It ricochets off the raker wall and is carried down the cone to the sludge outlet."
+  },
+  {
+    keywords: ['plastic'],
+    text: "Microplastics are too large to follow the water through the raker gaps. They ricochet off the raker tips and are focused toward the axis, leaving through the concentrated sludge outlet instead of the clean permeate."
+  },
+  {
+    keywords: ['algae', 'organic'],
+    text: "Algae and organic matter are soft and light, but still larger than the raker gaps. Cross-flow rolls them along the raker wall instead of pressing them into it, so they reach the sludge outlet without smearing across the filter."
+  },
+  {
+    keywords: ['flow', 'speed', 'fast', 'velocity'],
+    text: "Faster flow pushes more water through in the same time, but particles also spend less time near the raker wall. Watch the metrics panel: permeate throughput rises with flow while the capture rate for each contaminant shows whether separation keeps up."
+  }
+];
+
+const FALLBACK = "This filter copies filter-feeding fish: water turns sideways through rows of gill rakers while solids keep moving along the cone into a sludge outlet. Try asking how it works in a washing machine, or why it doesn't clog like a sieve.";
+
+const pickAnswer = (question: string) => {
+  const q = question.toLowerCase();
+  return ANSWERS.find(a => a.keywords.some(k => q.includes(k)))?.text ?? FALLBACK;
+};
+
+// Keyword intents standing in for real function calling; only explicit commands trigger them
+const detectToolCalls = (question: string): AIToolCall[] => {
+  const q = question.toLowerCase();
+  const calls: AIToolCall[] = [];
+
+  const flow = q.match(/(\d+(?:\.\d+)?)\s*x\b/);
+  if (flow && /flow|speed|velocity/.test(q)) calls.push({ name: 'set_flow_rate', args: { flowRate: parseFloat(flow[1]) } });
+
+  const density = q.match(/(?:density|load)\D{0,12}(\d+)|(\d+)\s*particles/);
+  if (density) calls.push({ name: 'set_particle_density', args: { density: parseInt(density[1] ?? density[2]) } });
+
+  if (/\bpause\b|\bfreeze\b/.test(q)) calls.push({ name: 'set_running', args: { running: false } });
+  else if (/\bresume\b|\bunpause\b|\bplay\b/.test(q)) calls.push({ name: 'set_running', args: { running: true } });
+
+  const view = q.match(/\b(?:switch|show|open|go)\b.*\b(nature|product|sieve)\b/);
+  if (view) calls.push({ name: 'set_view_mode', args: { viewMode: view[1].toUpperCase() } });
+
+  const focus = q.match(/\b(?:show|zoom|focus|look)\b.*\b(inlet|rakers?|outlet|sludge)\b/);
+  if (focus) {
+    const target = focus[1] === 'inlet' ? 'INLET' : focus[1].startsWith('raker') ? 'RAKERS' : 'SLUDGE_OUTLET';
+    calls.push({ name: 'focus_camera', args: { target } });
+  }
+
+  if (/\bquiz\b|\btest me\b/.test(q)) calls.push({ name: 'start_quiz', args: {} });
+  return calls;
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export const cannedProvider: AIProvider = {
+  id: 'canned',
+  label: 'Offline demo',
+  streamReply: async ({ history, signal, onToken, tools, onToolCall }) => {
+    const question = [...history].reverse().find(m => m.role === 'user')?.text ?? '';
+    const available = new Set(tools?.map(t => t.name));
+    const results = onToolCall
+      ? detectToolCalls(question).filter(c => available.has(c.name)).map(onToolCall)
+      : [];
+    // Tool results starting with "Error" were refused, so they are reported as such rather than as done
+    const done = results.filter(r => !r.startsWith('Error'));
+    const refused = results.filter(r => r.startsWith('Error')).map(r => r.replace(/^Error:?\s*/, ''));
+    const preface = (done.length ? `Done: ${done.join('; ')}. ` : '')
+      + (refused.length ? `I couldn't change that: ${refused.join('; ')}. ` : '');
+    const words = (preface + pickAnswer(question)).split(' ');
+    let reply = '';
+    for (let i = 0; i < words.length; i++) {
+      if (signal?.aborted) break;
+      const token = i === 0 ? words[i] : ` ${words[i]}`;
+      reply += token;
+      onToken(token);
+      await wait(WORD_DELAY_MS);
+    }
+    return reply;
+  }
+};
@@ -1,30 +1,108 @@
-import { GoogleGenAI } from "@google/genai";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-
-export const askBiomimicryExpert = async (
-  prompt: string,
-  simulationContext: string
-): Promise<string> => {
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-flash-preview',
-      contents: `
-        You are an expert Bio-Engineer and Ecologist specializing in biomimicry. 
-        You are explaining a 3D simulation of a water filter inspired by filter-feeding fish (like basking sharks or paddlefish).
-        
-        The Simulation Context:
-        ${simulationContext}
-
-        User Question: "${prompt}"
-
-        Explain the science clearly, focusing on how "cross-flow filtration" in fish mouths prevents clogging (unlike sieve filters).
-        Keep the answer concise (under 100 words) but fascinating.
-      `,
-    });
-    return response.text || "I couldn't process that request right now.";
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    return "The bio-simulation interface is currently offline. Please check your connection.";
+import { GoogleGenAI, Content, Part, Tool, ApiError, FinishReason } from "@google/genai";
+import { ChatMessage } from "../types";
+import {
+  AIProvider,
+  AIProviderError,
+  AIToolDefinition,
+  MAX_TOOL_ROUNDS,
+  errorKindForStatus,
+  isNetworkFailure
+} from "./aiProvider";
+
+const DEFAULT_MODEL = 'gemini-3-flash-preview';
+
+// Finish reasons that mean the reply was withheld by a safety or policy filter
+const BLOCKED_FINISH_REASONS: (FinishReason | undefined)[] = [
+  FinishReason.SAFETY,
+  FinishReason.BLOCKLIST,
+  FinishReason.PROHIBITED_CONTENT,
+  FinishReason.SPII
+];
+
+// Created on first use so a missing key surfaces as a typed error, not an import-time crash
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+  if (!process.env.API_KEY) {
+    throw new AIProviderError('MISSING_KEY', 'GEMINI_API_KEY is not set');
+  }
+  client ??= new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+const toContents = (history: ChatMessage[]): Content[] =>
+  history.map(m => ({ role: m.role, parts: [{ text: m.text }] }));
+
+const toGeminiTools = (tools?: AIToolDefinition[]): Tool[] | undefined => tools?.length
+  ? [{ functionDeclarations: tools.map(t => ({ name: t.name, description: t.description, parametersJsonSchema: t.parameters })) }]
+  : undefined;
+
+const toProviderError = (error: unknown): AIProviderError => {
+  if (error instanceof AIProviderError) return error;
+  if (error instanceof ApiError) {
+    // Gemini answers an invalid key with 400 rather than 401
+    const kind = error.status === 400 && /api key/i.test(error.message) ? 'MISSING_KEY' : errorKindForStatus(error.status);
+    return new AIProviderError(kind, error.message);
+  }
+  if (isNetworkFailure(error)) return new AIProviderError('NETWORK', String(error));
+  return new AIProviderError('UNKNOWN', String(error));
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Gemini',
+  streamReply: async ({ systemInstruction, history, signal, onToken, tools, onToolCall }) => {
+    let reply = '';
+    try {
+      let contents = toContents(history);
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        const stream = await getClient().models.generateContentStream({
+          model: process.env.AI_MODEL || DEFAULT_MODEL,
+          contents,
+          config: {
+            systemInstruction,
+            abortSignal: signal,
+            // On the last round the model has to answer in words
+            tools: round < MAX_TOOL_ROUNDS ? toGeminiTools(tools) : undefined
+          }
+        });
+
+        // Function-call parts are kept verbatim: they carry thought signatures the model needs back
+        const callParts: Part[] = [];
+        for await (const chunk of stream) {
+          if (signal?.aborted) break;
+          if (chunk.promptFeedback?.blockReason) {
+            throw new AIProviderError('BLOCKED', chunk.promptFeedback.blockReasonMessage ?? chunk.promptFeedback.blockReason);
+          }
+          const candidate = chunk.candidates?.[0];
+          if (BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)) {
+            throw new AIProviderError('BLOCKED', `Reply stopped: ${candidate?.finishReason}`);
+          }
+          for (const part of candidate?.content?.parts ?? []) {
+            if (part.functionCall) {
+              callParts.push(part);
+            } else if (part.text && !part.thought) {
+              reply += part.text;
+              onToken(part.text);
+            }
+          }
+        }
+
+        if (!callParts.length || !onToolCall || signal?.aborted) break;
+        const responseParts: Part[] = callParts.map(({ functionCall }) => ({
+          functionResponse: {
+            id: functionCall?.id,
+            name: functionCall?.name,
+            response: { result: onToolCall({ name: functionCall?.name ?? '', args: functionCall?.args ?? {} }) }
+          }
+        }));
+        contents = [...contents, { role: 'model', parts: callParts }, { role: 'user', parts: responseParts }];
+      }
+      return reply;
+    } catch (error) {
+      if (signal?.aborted) return reply;
+      console.error("Gemini API Error:", error);
+      throw toProviderError(error);
+    }
   }
 };
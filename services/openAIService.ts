@@ -0,0 +1,145 @@
+import { ChatMessage } from "../types";
+import {
+  AIProvider,
+  AIProviderError,
+  AIToolDefinition,
+  MAX_TOOL_ROUNDS,
+  errorKindForStatus,
+  isNetworkFailure
+} from "./aiProvider";
+
+// Any server speaking the OpenAI chat-completions protocol (Ollama, LM Studio, vLLM, llama.cpp...)
+const DEFAULT_BASE_URL = 'http://localhost:11434/v1';
+const DEFAULT_MODEL = 'llama3.1';
+
+interface ToolCallDelta {
+  index: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
+}
+
+interface CompletionChunk {
+  choices?: { delta?: { content?: string; tool_calls?: ToolCallDelta[] }; finish_reason?: string | null }[];
+}
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+type CompletionMessage =
+  | { role: 'system' | 'user' | 'assistant'; content: string | null; tool_calls?: unknown[] }
+  | { role: 'tool'; tool_call_id: string; content: string };
+
+const toMessages = (systemInstruction: string, history: ChatMessage[]): CompletionMessage[] => [
+  { role: 'system', content: systemInstruction },
+  ...history.map((m): CompletionMessage => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text }))
+];
+
+const toOpenAITools = (tools?: AIToolDefinition[]) => tools?.length
+  ? tools.map(t => ({ type: 'function', function: { name: t.name, description: t.description, parameters: t.parameters } }))
+  : undefined;
+
+const parseArgs = (raw: string): Record<string, unknown> => {
+  try {
+    return raw ? JSON.parse(raw) : {};
+  } catch {
+    return {};
+  }
+};
+
+/** Streams one completion, forwarding text tokens and collecting any tool calls the model makes. */
+const streamCompletion = async (
+  messages: CompletionMessage[],
+  tools: ReturnType<typeof toOpenAITools>,
+  signal: AbortSignal | undefined,
+  onText: (token: string) => void
+) => {
+  const baseUrl = (process.env.OPENAI_BASE_URL || DEFAULT_BASE_URL).replace(/\/$/, '');
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.OPENAI_API_KEY ? { Authorization: `Bearer ${process.env.OPENAI_API_KEY}` } : {})
+    },
+    body: JSON.stringify({
+      model: process.env.AI_MODEL || DEFAULT_MODEL,
+      messages,
+      tools,
+      stream: true
+    }),
+    signal
+  });
+  if (!response.ok || !response.body) {
+    throw new AIProviderError(errorKindForStatus(response.status), `HTTP ${response.status}`);
+  }
+
+  // Server-sent events: one `data: {...}` JSON chunk per line, terminated by `data: [DONE]`
+  const toolCalls: PendingToolCall[] = [];
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+      const chunk: CompletionChunk = JSON.parse(data);
+      const choice = chunk.choices?.[0];
+      if (choice?.finish_reason === 'content_filter') {
+        throw new AIProviderError('BLOCKED', 'Reply stopped by the content filter');
+      }
+      // Tool calls arrive in fragments keyed by index; names and arguments are concatenated
+      for (const delta of choice?.delta?.tool_calls ?? []) {
+        const call = toolCalls[delta.index] ??= { id: '', name: '', arguments: '' };
+        if (delta.id) call.id = delta.id;
+        call.name += delta.function?.name ?? '';
+        call.arguments += delta.function?.arguments ?? '';
+      }
+      const token = choice?.delta?.content;
+      if (token) onText(token);
+    }
+  }
+  return toolCalls.filter(Boolean);
+};
+
+export const openAIProvider: AIProvider = {
+  id: 'openai',
+  label: 'Local model',
+  streamReply: async ({ systemInstruction, history, signal, onToken, tools, onToolCall }) => {
+    let reply = '';
+    try {
+      const messages = toMessages(systemInstruction, history);
+      for (let round = 0; round <= MAX_TOOL_ROUNDS; round++) {
+        let roundText = '';
+        // On the last round the model has to answer in words
+        const toolCalls = await streamCompletion(messages, round < MAX_TOOL_ROUNDS ? toOpenAITools(tools) : undefined, signal, token => {
+          roundText += token;
+          reply += token;
+          onToken(token);
+        });
+
+        if (!toolCalls.length || !onToolCall || signal?.aborted) break;
+        messages.push({
+          role: 'assistant',
+          content: roundText || null,
+          tool_calls: toolCalls.map(c => ({ id: c.id, type: 'function', function: { name: c.name, arguments: c.arguments } }))
+        });
+        for (const call of toolCalls) {
+          messages.push({ role: 'tool', tool_call_id: call.id, content: onToolCall({ name: call.name, args: parseArgs(call.arguments) }) });
+        }
+      }
+      return reply;
+    } catch (error) {
+      if (signal?.aborted) return reply;
+      if (error instanceof AIProviderError) throw error;
+      if (isNetworkFailure(error)) throw new AIProviderError('NETWORK', String(error));
+      throw new AIProviderError('UNKNOWN', String(error));
+    }
+  }
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { QUIZ_QUESTIONS, QuizRun, startQuizRun } from '../simulation/quiz';
+import {
+  createQuizProgress,
+  getLearnerAttempts,
+  getQuizScore,
+  loadQuizProgress,
+  recordQuizAttempt,
+  saveQuizProgress,
+  selectLearner
+} from './quizProgress';
+
+const createStorage = (): Storage => {
+  const items = new Map<string, string>();
+  return {
+    get length() { return items.size; },
+    clear: () => items.clear(),
+    getItem: (key) => items.get(key) ?? null,
+    key: (index) => [...items.keys()][index] ?? null,
+    removeItem: (key) => { items.delete(key); },
+    setItem: (key, value) => { items.set(key, value); }
+  };
+};
+
+const gradedRun = (): QuizRun => ({
+  ...startQuizRun(QUIZ_QUESTIONS[0], 'same'),
+  stage: 'done',
+  progress: 1,
+  baseline: 80,
+  changed: 81,
+  outcome: 'same'
+});
+
+describe('quiz progress', () => {
+  it('records graded runs for the active learner and scores them', () => {
+    const progress = recordQuizAttempt(selectLearner(createQuizProgress(), '  Ada  '), gradedRun());
+    expect(progress.activeLearner).toBe('Ada');
+    const score = getQuizScore(getLearnerAttempts(progress, 'Ada'));
+    expect(score.correct).toBe(1);
+    expect(score.status[QUIZ_QUESTIONS[0].id]).toBe('correct');
+  });
+
+  it('refuses learner names an object inherits', () => {
+    for (const name of ['constructor', 'toString', '__proto__', 'hasOwnProperty']) {
+      const progress = selectLearner(createQuizProgress(), name);
+      expect(progress.activeLearner).toBeNull();
+      expect(() => recordQuizAttempt(progress, gradedRun())).not.toThrow();
+      expect(getLearnerAttempts(progress, name)).toEqual([]);
+    }
+  });
+
+  it('round-trips through storage and drops inherited names on load', () => {
+    const storage = createStorage();
+    const progress = recordQuizAttempt(selectLearner(createQuizProgress(), 'Ada'), gradedRun());
+    expect(saveQuizProgress(progress, storage)).toBe(true);
+    expect(loadQuizProgress(storage)).toEqual(progress);
+
+    storage.setItem('fish-mouth-filtration.quiz-progress',
+      '{"version":1,"activeLearner":"__proto__","learners":{"__proto__":[],"constructor":[],"Ada":[]}}');
+    const loaded = loadQuizProgress(storage);
+    expect(Object.keys(loaded.learners)).toEqual(['Ada']);
+    expect(loaded.activeLearner).toBeNull();
+  });
+});
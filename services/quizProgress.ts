@@ -0,0 +1,136 @@
+import { QuizPrediction, QuizRun, QUIZ_QUESTIONS, isQuizAnswerCorrect } from "../simulation/quiz";
+
+// Quiz scores live in the browser's localStorage, one record per learner name, so a shared classroom
+// machine keeps each learner's progress apart. Nothing leaves the device.
+
+export const QUIZ_PROGRESS_VERSION = 1;
+const STORAGE_KEY = 'fish-mouth-filtration.quiz-progress';
+const MAX_LEARNERS = 50;
+const MAX_ATTEMPTS = 200;
+export const MAX_LEARNER_NAME_LENGTH = 40;
+
+export interface QuizAttempt {
+  questionId: string;
+  prediction: QuizPrediction;
+  outcome: QuizPrediction;       // What the simulation measured
+  correct: boolean;
+  baseline: number;
+  changed: number;
+  at: string;                    // ISO time the answer was graded
+}
+
+export interface QuizProgress {
+  version: number;
+  activeLearner: string | null;
+  learners: Record<string, QuizAttempt[]>;   // Oldest attempt first
+}
+
+export const createQuizProgress = (): QuizProgress => ({ version: QUIZ_PROGRESS_VERSION, activeLearner: null, learners: {} });
+
+// Learner names key a plain object, so names an object inherits ("constructor", "__proto__") are refused
+const isLearnerName = (name: string) => name.length > 0 && name !== '__proto__' && !(name in Object.prototype);
+
+/** The learner's attempts, oldest first; empty for a name with no record. */
+export const getLearnerAttempts = (progress: QuizProgress, name: string | null): QuizAttempt[] =>
+  name !== null && Object.hasOwn(progress.learners, name) ? progress.learners[name] : [];
+
+const isAttempt = (value: unknown): value is QuizAttempt => {
+  if (typeof value !== 'object' || value === null) return false;
+  const a = value as Record<string, unknown>;
+  return typeof a.questionId === 'string' && typeof a.prediction === 'string' && typeof a.outcome === 'string' &&
+    typeof a.correct === 'boolean' && typeof a.baseline === 'number' && typeof a.changed === 'number' && typeof a.at === 'string';
+};
+
+/** Reads the stored progress; anything unreadable (other versions, hand edits, blocked storage) starts afresh. */
+export const loadQuizProgress = (storage?: Storage): QuizProgress => {
+  try {
+    const value = JSON.parse((storage ?? window.localStorage).getItem(STORAGE_KEY) ?? 'null');
+    if (value?.version !== QUIZ_PROGRESS_VERSION || typeof value.learners !== 'object' || value.learners === null) {
+      return createQuizProgress();
+    }
+    const learners: Record<string, QuizAttempt[]> = {};
+    for (const [name, attempts] of Object.entries(value.learners)) {
+      if (isLearnerName(name) && Array.isArray(attempts)) learners[name] = attempts.filter(isAttempt);
+    }
+    const activeLearner = typeof value.activeLearner === 'string' && Object.hasOwn(learners, value.activeLearner) ? value.activeLearner : null;
+    return { version: QUIZ_PROGRESS_VERSION, activeLearner, learners };
+  } catch {
+    return createQuizProgress();
+  }
+};
+
+/** Stores the progress; returns false when the browser refuses (private mode, quota). */
+export const saveQuizProgress = (progress: QuizProgress, storage?: Storage) => {
+  try {
+    (storage ?? window.localStorage).setItem(STORAGE_KEY, JSON.stringify(progress));
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/** Switches to `name`, adding the learner if new. */
+export const selectLearner = (progress: QuizProgress, name: string): QuizProgress => {
+  const learner = name.trim().slice(0, MAX_LEARNER_NAME_LENGTH);
+  if (!isLearnerName(learner)) return progress;
+  if (Object.hasOwn(progress.learners, learner)) return { ...progress, activeLearner: learner };
+  // Past the limit the learner with the fewest attempts makes room
+  const names = Object.keys(progress.learners);
+  const evicted = names.length >= MAX_LEARNERS
+    ? names.reduce((least, n) => progress.learners[n].length < progress.learners[least].length ? n : least)
+    : null;
+  const learners = Object.fromEntries(Object.entries(progress.learners).filter(([n]) => n !== evicted));
+  return { ...progress, activeLearner: learner, learners: { ...learners, [learner]: [] } };
+};
+
+export const removeLearner = (progress: QuizProgress, name: string): QuizProgress => {
+  const learners = Object.fromEntries(Object.entries(progress.learners).filter(([n]) => n !== name));
+  return { ...progress, learners, activeLearner: progress.activeLearner === name ? null : progress.activeLearner };
+};
+
+/** Adds a graded run to the active learner's record; ungraded runs and a missing learner change nothing. */
+export const recordQuizAttempt = (progress: QuizProgress, run: QuizRun, at = new Date()): QuizProgress => {
+  const learner = progress.activeLearner;
+  if (!learner || run.outcome === null || run.baseline === null || run.changed === null) return progress;
+  const attempt: QuizAttempt = {
+    questionId: run.question.id,
+    prediction: run.prediction,
+    outcome: run.outcome,
+    correct: isQuizAnswerCorrect(run),
+    baseline: Math.round(run.baseline * 100) / 100,
+    changed: Math.round(run.changed * 100) / 100,
+    at: at.toISOString()
+  };
+  const attempts = [...getLearnerAttempts(progress, learner), attempt].slice(-MAX_ATTEMPTS);
+  return { ...progress, learners: { ...progress.learners, [learner]: attempts } };
+};
+
+export type QuestionStatus = 'correct' | 'incorrect' | 'unanswered';
+
+export interface QuizScore {
+  // A question counts as correct once its prediction was right on some attempt
+  status: Record<string, QuestionStatus>;
+  correct: number;
+  total: number;
+  attempts: number;
+}
+
+export const getQuizScore = (attempts: QuizAttempt[]): QuizScore => {
+  const status: Record<string, QuestionStatus> = {};
+  for (const question of QUIZ_QUESTIONS) {
+    const tries = attempts.filter(a => a.questionId === question.id);
+    status[question.id] = tries.some(a => a.correct) ? 'correct' : tries.length ? 'incorrect' : 'unanswered';
+  }
+  return {
+    status,
+    correct: QUIZ_QUESTIONS.filter(q => status[q.id] === 'correct').length,
+    total: QUIZ_QUESTIONS.length,
+    attempts: attempts.filter(a => QUIZ_QUESTIONS.some(q => q.id === a.questionId)).length
+  };
+};
+
+/** First question the learner has not yet got right, in bank order; null when every one is done. */
+export const getNextQuestion = (attempts: QuizAttempt[]) => {
+  const { status } = getQuizScore(attempts);
+  return QUIZ_QUESTIONS.find(q => status[q.id] !== 'correct') ?? null;
+};
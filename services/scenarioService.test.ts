@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationState } from '../types';
+import { createScenario, parseScenario, serializeScenario, ScenarioError } from './scenarioService';
+import { createEmptySeparation } from '../simulation/metrics';
+import { DEFAULT_MIX } from '../simulation/population';
+import { DEFAULT_GEOMETRY } from '../simulation/filterGeometry';
+import { DEFAULT_SIZE_DISTRIBUTIONS } from '../simulation/particleSizes';
+import { DEFAULT_CASCADE } from '../simulation/cascadeEngine';
+
+const simulationState: SimulationState = {
+  flowRate: 2.5,
+  particleDensity: 400,
+  efficiency: 0,
+  isRunning: false,
+  separation: createEmptySeparation(),
+  contaminantMix: DEFAULT_MIX,
+  particleSizes: DEFAULT_SIZE_DISTRIBUTIONS
+};
+
+const scenario = createScenario({
+  name: 'Round trip',
+  simulationState,
+  viewMode: 'PRODUCT',
+  geometry: DEFAULT_GEOMETRY,
+  cascadeStages: DEFAULT_CASCADE,
+  camera: { position: [1, 2, 3], target: [0, 0, -2] }
+});
+
+describe('scenario files', () => {
+  it('round-trip through JSON', () => {
+    expect(parseScenario(serializeScenario(scenario))).toEqual(scenario);
+  });
+
+  it('reject malformed JSON and out-of-range fields', () => {
+    expect(() => parseScenario('{')).toThrow(ScenarioError);
+    expect(() => parseScenario(JSON.stringify({ ...scenario, flowRate: 99 }))).toThrow(/flowRate/);
+    expect(() => parseScenario(JSON.stringify({ ...scenario, version: 2 }))).toThrow(/version/);
+  });
+});
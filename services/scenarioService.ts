@@ -0,0 +1,227 @@
+import { Scenario, CameraPose, ContaminantMix, FilterGeometry, ViewMode, SimulationState, SizeDistribution, SizeDistributions, CascadeStage } from "../types";
+import { CONTAMINANT_PRESETS, getMixWeight } from "../simulation/population";
+import { CONTAMINANT_TYPES, isContaminantType } from "../simulation/contaminants";
+import { GEOMETRY_LIMITS, GEOMETRY_PRESETS } from "../simulation/filterGeometry";
+import { DEFAULT_SIZE_DISTRIBUTIONS, SIZE_LIMITS } from "../simulation/particleSizes";
+import { CASCADE_PRESETS, MAX_STAGES, FLOW_SPLIT_LIMITS } from "../simulation/cascadeEngine";
+import { FLOW_RATE_RANGE, DENSITY_RANGE } from "./simulationTools";
+
+// Scenarios round-trip through JSON files and the `#scenario=` URL fragment.
+
+export const SCENARIO_VERSION = 1;
+export const SCENARIO_URL_PARAM = 'scenario';
+const MAX_NAME_LENGTH = 80;
+
+const VIEW_MODES: ViewMode[] = ['NATURE', 'PRODUCT', 'SIEVE', 'CASCADE'];
+
+export class ScenarioError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScenarioError';
+  }
+}
+
+export interface ScenarioSource {
+  name: string;
+  simulationState: SimulationState;
+  viewMode: ViewMode;
+  geometry: FilterGeometry;
+  cascadeStages: CascadeStage[];
+  camera: CameraPose | null;
+}
+
+export const createScenario = ({ name, simulationState, viewMode, geometry, cascadeStages, camera }: ScenarioSource): Scenario => ({
+  version: SCENARIO_VERSION,
+  name: name.trim().slice(0, MAX_NAME_LENGTH) || 'Untitled scenario',
+  viewMode,
+  flowRate: simulationState.flowRate,
+  particleDensity: simulationState.particleDensity,
+  isRunning: simulationState.isRunning,
+  contaminantMix: { ...simulationState.contaminantMix },
+  particleSizes: simulationState.particleSizes,
+  geometry: { ...geometry },
+  cascade: cascadeStages.map(stage => ({ ...stage, geometry: { ...stage.geometry } })),
+  camera
+});
+
+// --- Validation ---
+// The field readers are shared with sweep configs and tours, which embed the same mix, geometry, size and camera objects.
+
+export const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const readNumber = (source: Record<string, unknown> | readonly unknown[], key: string | number, path: string, range?: { min: number; max: number }) => {
+  const value = source[key];
+  if (typeof value !== 'number' || !Number.isFinite(value)) {
+    throw new ScenarioError(`"${path}${key}" must be a number`);
+  }
+  if (range && (value < range.min || value > range.max)) {
+    throw new ScenarioError(`"${path}${key}" must be between ${range.min} and ${range.max} (got ${value})`);
+  }
+  return value;
+};
+
+const readVector = (source: Record<string, unknown>, key: string, path: string): [number, number, number] => {
+  const value = source[key];
+  if (!Array.isArray(value) || value.length !== 3 || !value.every(v => typeof v === 'number' && Number.isFinite(v))) {
+    throw new ScenarioError(`"${path}${key}" must be an array of three numbers`);
+  }
+  return [value[0], value[1], value[2]];
+};
+
+export const readMix = (value: unknown): ContaminantMix => {
+  if (!isRecord(value)) throw new ScenarioError('"contaminantMix" must be an object');
+  const unknown = Object.keys(value).find(type => !isContaminantType(type));
+  if (unknown) throw new ScenarioError(`"contaminantMix.${unknown}" is not a known contaminant type`);
+  // Types the file leaves out weigh 0
+  const mix: ContaminantMix = {};
+  for (const type of Object.keys(value)) {
+    mix[type] = readNumber(value, type, 'contaminantMix.');
+    if (mix[type] < 0) throw new ScenarioError(`"contaminantMix.${type}" cannot be negative`);
+  }
+  if (CONTAMINANT_TYPES.every(type => getMixWeight(mix, type) === 0)) {
+    throw new ScenarioError('"contaminantMix" needs at least one contaminant with a weight above 0');
+  }
+  // Reuse the preset object when the mix matches one, so the preset buttons light up
+  return CONTAMINANT_PRESETS.find(p => CONTAMINANT_TYPES.every(type => getMixWeight(p.mix, type) === getMixWeight(mix, type)))?.mix ?? mix;
+};
+
+export const readGeometry = (value: unknown, path = 'geometry'): FilterGeometry => {
+  if (!isRecord(value)) throw new ScenarioError(`"${path}" must be an object`);
+  const geometry = {} as FilterGeometry;
+  for (const key of Object.keys(GEOMETRY_LIMITS) as (keyof FilterGeometry)[]) {
+    geometry[key] = readNumber(value, key, `${path}.`, GEOMETRY_LIMITS[key]);
+  }
+  const keys = Object.keys(geometry) as (keyof FilterGeometry)[];
+  return GEOMETRY_PRESETS.find(p => keys.every(key => p.geometry[key] === geometry[key]))?.geometry ?? geometry;
+};
+
+// Files saved before particle sizes existed use the defaults
+export const readSizes = (value: unknown): SizeDistributions => {
+  if (value === undefined) return DEFAULT_SIZE_DISTRIBUTIONS;
+  if (!isRecord(value)) throw new ScenarioError('"particleSizes" must be an object');
+  const sizes = {} as SizeDistributions;
+  for (const type of CONTAMINANT_TYPES) {
+    const dist = value[type];
+    // Types added to the registry after the file was saved keep their defaults
+    if (dist === undefined) {
+      sizes[type] = DEFAULT_SIZE_DISTRIBUTIONS[type];
+      continue;
+    }
+    if (!isRecord(dist)) throw new ScenarioError(`"particleSizes.${type}" must be an object`);
+    sizes[type] = {} as SizeDistribution;
+    for (const key of Object.keys(SIZE_LIMITS) as (keyof SizeDistribution)[]) {
+      sizes[type][key] = readNumber(dist, key, `particleSizes.${type}.`, SIZE_LIMITS[key]);
+    }
+  }
+  const keys = Object.keys(SIZE_LIMITS) as (keyof SizeDistribution)[];
+  const isDefault = CONTAMINANT_TYPES.every(type => keys.every(key => DEFAULT_SIZE_DISTRIBUTIONS[type][key] === sizes[type][key]));
+  return isDefault ? DEFAULT_SIZE_DISTRIBUTIONS : sizes;
+};
+
+// Files saved before cascades existed leave the current train alone
+const readCascade = (value: unknown): CascadeStage[] | undefined => {
+  if (value === undefined) return undefined;
+  if (!Array.isArray(value) || value.length === 0 || value.length > MAX_STAGES) {
+    throw new ScenarioError(`"cascade" must be an array of 1 to ${MAX_STAGES} stages`);
+  }
+  const stages = value.map((stage, i): CascadeStage => {
+    const path = `cascade.${i}`;
+    if (!isRecord(stage)) throw new ScenarioError(`"${path}" must be an object`);
+    if (stage.feedFrom !== 'permeate' && stage.feedFrom !== 'sludge') {
+      throw new ScenarioError(`"${path}.feedFrom" must be "permeate" or "sludge"`);
+    }
+    return {
+      geometry: readGeometry(stage.geometry, `${path}.geometry`),
+      feedFrom: stage.feedFrom,
+      flowSplit: readNumber(stage, 'flowSplit', `${path}.`, FLOW_SPLIT_LIMITS)
+    };
+  });
+  // Reuse the preset train when it matches one, so its button lights up
+  const matches = (preset: CascadeStage[]) => preset.length === stages.length && preset.every((stage, i) =>
+    stage.geometry === stages[i].geometry && stage.feedFrom === stages[i].feedFrom && stage.flowSplit === stages[i].flowSplit);
+  return CASCADE_PRESETS.find(p => matches(p.stages))?.stages ?? stages;
+};
+
+export const readCamera = (value: unknown, path = 'camera'): CameraPose | null => {
+  if (value === null || value === undefined) return null;
+  if (!isRecord(value)) throw new ScenarioError(`"${path}" must be an object or null`);
+  return { position: readVector(value, 'position', `${path}.`), target: readVector(value, 'target', `${path}.`) };
+};
+
+/** Checks an untrusted value against the scenario schema; throws ScenarioError naming the first bad field. */
+export const validateScenario = (value: unknown): Scenario => {
+  if (!isRecord(value)) throw new ScenarioError('A scenario must be a JSON object');
+  if (value.version !== SCENARIO_VERSION) {
+    throw new ScenarioError(typeof value.version === 'number'
+      ? `Unsupported scenario version ${value.version}; this app reads version ${SCENARIO_VERSION}`
+      : '"version" is missing; this does not look like a scenario file');
+  }
+  if (typeof value.name !== 'string') throw new ScenarioError('"name" must be a string');
+  if (!VIEW_MODES.includes(value.viewMode as ViewMode)) {
+    throw new ScenarioError(`"viewMode" must be one of ${VIEW_MODES.join(', ')}`);
+  }
+  if (typeof value.isRunning !== 'boolean') throw new ScenarioError('"isRunning" must be true or false');
+
+  return {
+    version: SCENARIO_VERSION,
+    name: value.name.slice(0, MAX_NAME_LENGTH),
+    viewMode: value.viewMode as ViewMode,
+    flowRate: readNumber(value, 'flowRate', '', FLOW_RATE_RANGE),
+    particleDensity: Math.round(readNumber(value, 'particleDensity', '', DENSITY_RANGE)),
+    isRunning: value.isRunning,
+    contaminantMix: readMix(value.contaminantMix),
+    particleSizes: readSizes(value.particleSizes),
+    geometry: readGeometry(value.geometry),
+    cascade: readCascade(value.cascade),
+    camera: readCamera(value.camera)
+  };
+};
+
+// --- JSON files ---
+
+export const serializeScenario = (scenario: Scenario) => JSON.stringify(scenario, null, 2);
+
+export const parseScenario = (json: string): Scenario => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new ScenarioError('The scenario is not valid JSON');
+  }
+  return validateScenario(value);
+};
+
+export const getScenarioFileName = (scenario: Scenario) =>
+  `${scenario.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'scenario'}.json`;
+
+// --- URLs ---
+
+// base64url of the compact JSON, so names with any characters survive the address bar
+const toBase64Url = (text: string) => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string) => {
+  const binary = atob(encoded.replace(/-/g, '+').replace(/_/g, '/'));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const getScenarioShareUrl = (scenario: Scenario, location: Location = window.location) =>
+  `${location.origin}${location.pathname}${location.search}#${SCENARIO_URL_PARAM}=${toBase64Url(JSON.stringify(scenario))}`;
+
+/** Reads a scenario from the URL fragment; null when the link carries none. */
+export const readScenarioFromUrl = (location: Location = window.location): Scenario | null => {
+  const encoded = new URLSearchParams(location.hash.slice(1)).get(SCENARIO_URL_PARAM);
+  if (!encoded) return null;
+  let json: string;
+  try {
+    json = fromBase64Url(encoded);
+  } catch {
+    throw new ScenarioError('The shared link is damaged; it may have been cut off when copied');
+  }
+  return parseScenario(json);
+};
@@ -0,0 +1,12 @@
+import { describe, expect, it, vi } from 'vitest';
+import { ExportError, MAX_PNG_SEQUENCE_BYTES, SceneCapture, estimatePngSequenceBytes, exportScene } from './sceneExport';
+
+describe('exportScene', () => {
+  it('refuses a PNG sequence too large to hold before rendering a frame', async () => {
+    const capture: SceneCapture = { renderFrames: vi.fn() };
+    const settings = { format: 'png' as const, width: 2560, height: 1440, fps: 60, seconds: 30 };
+    expect(estimatePngSequenceBytes(settings)).toBeGreaterThan(MAX_PNG_SEQUENCE_BYTES);
+    await expect(exportScene(capture, settings)).rejects.toThrow(ExportError);
+    expect(capture.renderFrames).not.toHaveBeenCalled();
+  });
+});
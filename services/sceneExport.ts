@@ -0,0 +1,160 @@
+import { createWebmMuxer, WebmCodec } from "./webmMuxer";
+import { createZipArchive } from "./zipArchive";
+
+// Offline rendering of the 3D scene to WebM video or a zipped PNG sequence.
+
+export type ExportFormat = 'webm' | 'png';
+
+export interface ExportSettings {
+  format: ExportFormat;
+  width: number;
+  height: number;
+  fps: number;
+  seconds: number;
+}
+
+export const RESOLUTION_PRESETS = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+  { label: '1440p', width: 2560, height: 1440 },
+  { label: 'Square', width: 1080, height: 1080 }
+];
+export const FRAME_RATES = [24, 30, 60];
+export const MAX_EXPORT_SECONDS = 30;
+
+// Roughly 8 Mbit/s at 1080p30
+const BITS_PER_PIXEL = 0.13;
+// Frames waiting in the encoder before rendering pauses to let it catch up
+const MAX_ENCODE_QUEUE = 4;
+// A PNG sequence is held in memory until it is saved; beyond this a tab is likely to run out
+export const MAX_PNG_SEQUENCE_BYTES = 2 * 1024 ** 3;
+// Typical PNG size of a rendered frame, for the up-front estimate
+const PNG_BYTES_PER_PIXEL = 1;
+
+export class ExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ExportError';
+  }
+}
+
+export interface FrameRequest {
+  width: number;
+  height: number;
+  fps: number;
+  frameCount: number;
+  signal?: AbortSignal;
+}
+
+/** Provided by the canvas: renders `frameCount` frames one fixed timestep apart, handing each to `onFrame`. */
+export interface SceneCapture {
+  renderFrames: (request: FrameRequest, onFrame: (canvas: HTMLCanvasElement, index: number) => Promise<void>) => Promise<void>;
+}
+
+export interface ExportOptions {
+  signal?: AbortSignal;
+  onProgress?: (done: number, total: number) => void;
+}
+
+export interface ExportResult {
+  blob: Blob;
+  fileName: string;
+}
+
+const CODEC_CANDIDATES: { codec: string; container: WebmCodec }[] = [
+  { codec: 'vp09.00.40.08', container: 'V_VP9' },
+  { codec: 'vp8', container: 'V_VP8' }
+];
+
+const pickCodec = async (config: Omit<VideoEncoderConfig, 'codec'>) => {
+  if (typeof VideoEncoder === 'undefined') {
+    throw new ExportError('This browser cannot encode video (WebCodecs is unavailable). Export a PNG sequence instead.');
+  }
+  for (const candidate of CODEC_CANDIDATES) {
+    const { supported } = await VideoEncoder.isConfigSupported({ ...config, codec: candidate.codec });
+    if (supported) return candidate;
+  }
+  throw new ExportError(`This browser cannot encode ${config.width}×${config.height} WebM video. Try a smaller resolution or a PNG sequence.`);
+};
+
+export const getFrameCount = (settings: ExportSettings) =>
+  Math.max(1, Math.round(Math.min(settings.seconds, MAX_EXPORT_SECONDS) * settings.fps));
+
+/** Rough size of the zipped PNG sequence `settings` would produce. */
+export const estimatePngSequenceBytes = (settings: ExportSettings) =>
+  getFrameCount(settings) * settings.width * settings.height * PNG_BYTES_PER_PIXEL;
+
+const formatGigabytes = (bytes: number) => `${(bytes / 1024 ** 3).toFixed(1)} GB`;
+
+const TOO_LARGE = 'Shorten it, lower the resolution or frame rate, or export WebM video instead.';
+
+const stamp = () => new Date().toISOString().slice(0, 19).replace(/[:T]/g, '-');
+
+const exportWebm = async (capture: SceneCapture, request: FrameRequest, onFrameDone: (index: number) => void) => {
+  const { width, height, fps } = request;
+  const config = { width, height, framerate: fps, bitrate: Math.round(width * height * fps * BITS_PER_PIXEL) };
+  const { codec, container } = await pickCodec(config);
+  const muxer = createWebmMuxer({ codec: container, width, height, frameRate: fps });
+
+  let encoderError: DOMException | null = null;
+  const encoder = new VideoEncoder({
+    output: (chunk) => {
+      const data = new Uint8Array(chunk.byteLength);
+      chunk.copyTo(data);
+      muxer.addFrame(data, chunk.timestamp, chunk.type === 'key');
+    },
+    error: (error) => { encoderError = error; }
+  });
+  encoder.configure({ ...config, codec });
+
+  try {
+    await capture.renderFrames(request, async (canvas, index) => {
+      const frame = new VideoFrame(canvas, { timestamp: Math.round((index * 1e6) / fps), duration: Math.round(1e6 / fps) });
+      // A keyframe every second keeps the file seekable
+      encoder.encode(frame, { keyFrame: index % fps === 0 });
+      frame.close();
+      while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE && !encoderError) {
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+      if (encoderError) throw new ExportError(`Video encoding failed: ${encoderError.message}`);
+      onFrameDone(index);
+    });
+    await encoder.flush();
+  } finally {
+    if (encoder.state !== 'closed') encoder.close();
+  }
+  return muxer.finish();
+};
+
+const exportPngSequence = async (capture: SceneCapture, request: FrameRequest, onFrameDone: (index: number) => void) => {
+  const zip = createZipArchive();
+  const digits = String(request.frameCount - 1).length;
+  await capture.renderFrames(request, async (canvas, index) => {
+    // toBlob snapshots the canvas immediately, before the next frame is drawn
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new ExportError(`Frame ${index} could not be captured.`);
+    // The estimate is only typical; stop before frames busier than usual outgrow the tab or the ZIP format
+    if (zip.size + blob.size > MAX_PNG_SEQUENCE_BYTES) {
+      throw new ExportError(`The PNG sequence passed ${formatGigabytes(MAX_PNG_SEQUENCE_BYTES)} at frame ${index}. ${TOO_LARGE}`);
+    }
+    zip.add(`frame-${String(index).padStart(digits, '0')}.png`, new Uint8Array(await blob.arrayBuffer()));
+    onFrameDone(index);
+  });
+  return zip.toBlob();
+};
+
+/** Renders the scene offline at a fixed timestep, so output is smooth however slowly each frame renders. */
+export const exportScene = async (capture: SceneCapture, settings: ExportSettings, { signal, onProgress }: ExportOptions = {}): Promise<ExportResult> => {
+  const frameCount = getFrameCount(settings);
+  if (settings.format === 'png' && estimatePngSequenceBytes(settings) > MAX_PNG_SEQUENCE_BYTES) {
+    throw new ExportError(`This PNG sequence would be about ${formatGigabytes(estimatePngSequenceBytes(settings))}, more than the ${formatGigabytes(MAX_PNG_SEQUENCE_BYTES)} a browser tab can hold. ${TOO_LARGE}`);
+  }
+  const request: FrameRequest = { width: settings.width, height: settings.height, fps: settings.fps, frameCount, signal };
+  const onFrameDone = (index: number) => onProgress?.(index + 1, frameCount);
+
+  const blob = settings.format === 'webm'
+    ? await exportWebm(capture, request, onFrameDone)
+    : await exportPngSequence(capture, request, onFrameDone);
+  const extension = settings.format === 'webm' ? 'webm' : 'zip';
+  return { blob, fileName: `bioflow-${settings.width}x${settings.height}-${settings.fps}fps-${stamp()}.${extension}` };
+};
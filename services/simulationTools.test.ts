@@ -0,0 +1,49 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createSimulationToolHandler, SimulationActions } from './simulationTools';
+
+const createActions = (lock: string | null = null): SimulationActions => ({
+  setFlowRate: vi.fn(),
+  setParticleDensity: vi.fn(),
+  getControlLock: () => lock,
+  setRunning: vi.fn(),
+  setViewMode: vi.fn(),
+  focusCamera: vi.fn(),
+  startQuiz: vi.fn()
+});
+
+describe('createSimulationToolHandler', () => {
+  it('clamps and rounds the flow rate', () => {
+    const actions = createActions();
+    expect(createSimulationToolHandler(actions)({ name: 'set_flow_rate', args: { flowRate: 9.87 } })).toBe('Flow velocity set to 5.0x');
+    expect(actions.setFlowRate).toHaveBeenCalledWith(5);
+  });
+
+  it('leaves the flow and load alone while something else drives them', () => {
+    const actions = createActions('a wash cycle is running');
+    const run = createSimulationToolHandler(actions);
+    expect(run({ name: 'set_flow_rate', args: { flowRate: 2 } })).toBe('Error: a wash cycle is running');
+    expect(run({ name: 'set_particle_density', args: { density: 200 } })).toMatch(/^Error/);
+    expect(actions.setFlowRate).not.toHaveBeenCalled();
+    expect(actions.setParticleDensity).not.toHaveBeenCalled();
+  });
+
+  it('pauses and resumes only on a boolean', () => {
+    const actions = createActions();
+    const run = createSimulationToolHandler(actions);
+    expect(run({ name: 'set_running', args: { running: false } })).toBe('Simulation paused');
+    expect(actions.setRunning).toHaveBeenCalledWith(false);
+    for (const running of ['false', '0', 1, undefined]) {
+      expect(run({ name: 'set_running', args: { running } })).toMatch(/^Error/);
+    }
+    expect(actions.setRunning).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects unknown quiz questions and tools', () => {
+    const actions = createActions();
+    const run = createSimulationToolHandler(actions);
+    expect(run({ name: 'start_quiz', args: { questionId: 'nope' } })).toMatch(/^Error/);
+    expect(run({ name: 'start_quiz', args: {} })).toMatch(/^Quiz opened/);
+    expect(actions.startQuiz).toHaveBeenCalledWith(null);
+    expect(run({ name: 'explode', args: {} })).toMatch(/^Error/);
+  });
+});
@@ -0,0 +1,139 @@
+import { ViewMode, CameraTarget } from "../types";
+import { AIToolDefinition, AIToolCall } from "./aiProvider";
+import { QUIZ_QUESTIONS, getQuizQuestion } from "../simulation/quiz";
+
+// Tools that let BioGuide reconfigure the running simulation.
+
+export const FLOW_RATE_RANGE = { min: 0.1, max: 5.0 };
+export const DENSITY_RANGE = { min: 50, max: 1000 };
+
+const VIEW_MODES: ViewMode[] = ['NATURE', 'PRODUCT', 'SIEVE', 'CASCADE'];
+const CAMERA_TARGETS: CameraTarget[] = ['INLET', 'RAKERS', 'SLUDGE_OUTLET'];
+
+export interface SimulationActions {
+  setFlowRate: (flowRate: number) => void;
+  setParticleDensity: (density: number) => void;
+  // Why the flow and load cannot be changed right now, e.g. a wash cycle drives them; null when they can
+  getControlLock: () => string | null;
+  setRunning: (isRunning: boolean) => void;
+  setViewMode: (viewMode: ViewMode) => void;
+  focusCamera: (target: CameraTarget) => void;
+  // Opens the quiz panel on a question; null picks the learner's next unsolved one
+  startQuiz: (questionId: string | null) => void;
+}
+
+export const SIMULATION_TOOLS: AIToolDefinition[] = [
+  {
+    name: 'set_flow_rate',
+    description: `Set the flow velocity multiplier of the water entering the filter (${FLOW_RATE_RANGE.min}-${FLOW_RATE_RANGE.max}, 1 = normal).`,
+    parameters: {
+      type: 'object',
+      properties: { flowRate: { type: 'number', minimum: FLOW_RATE_RANGE.min, maximum: FLOW_RATE_RANGE.max } },
+      required: ['flowRate']
+    }
+  },
+  {
+    name: 'set_particle_density',
+    description: `Set how many contaminant particles are in the water (${DENSITY_RANGE.min}-${DENSITY_RANGE.max}).`,
+    parameters: {
+      type: 'object',
+      properties: { density: { type: 'integer', minimum: DENSITY_RANGE.min, maximum: DENSITY_RANGE.max } },
+      required: ['density']
+    }
+  },
+  {
+    name: 'set_running',
+    description: 'Pause or resume the simulation.',
+    parameters: {
+      type: 'object',
+      properties: { running: { type: 'boolean' } },
+      required: ['running']
+    }
+  },
+  {
+    name: 'set_view_mode',
+    description: 'Switch the scene: NATURE shows the fish mouth, PRODUCT the engineered filter, SIEVE a side-by-side comparison with a clogging mesh screen, CASCADE the multi-stage filter train.',
+    parameters: {
+      type: 'object',
+      properties: { viewMode: { type: 'string', enum: VIEW_MODES } },
+      required: ['viewMode']
+    }
+  },
+  {
+    name: 'focus_camera',
+    description: 'Move the camera to a part of the filter: the INLET, the RAKERS (gill-raker wall) or the SLUDGE_OUTLET.',
+    parameters: {
+      type: 'object',
+      properties: { target: { type: 'string', enum: CAMERA_TARGETS } },
+      required: ['target']
+    }
+  },
+  {
+    name: 'start_quiz',
+    description: `Open the prediction quiz for the learner. They pick a prediction and the simulation grades it, so never tell them the answer. Questions: ${QUIZ_QUESTIONS.map(q => `${q.id} (${q.prompt})`).join('; ')}. Leave out questionId to start at their next unsolved question.`,
+    parameters: {
+      type: 'object',
+      properties: { questionId: { type: 'string', enum: QUIZ_QUESTIONS.map(q => q.id) } }
+    }
+  }
+];
+
+const clamp = (value: number, range: { min: number; max: number }) => Math.min(range.max, Math.max(range.min, value));
+
+/**
+ * Builds the executor for tool calls: validates and clamps arguments, applies them,
+ * and returns a one-line summary that is shown in the chat and reported back to the model.
+ */
+export const createSimulationToolHandler = (actions: SimulationActions) => (call: AIToolCall): string => {
+  const { args } = call;
+  switch (call.name) {
+    case 'set_flow_rate': {
+      const lock = actions.getControlLock();
+      if (lock) return `Error: ${lock}`;
+      const value = Number(args.flowRate);
+      if (!Number.isFinite(value)) return 'Error: flowRate must be a number';
+      const flowRate = Math.round(clamp(value, FLOW_RATE_RANGE) * 10) / 10;
+      actions.setFlowRate(flowRate);
+      return `Flow velocity set to ${flowRate.toFixed(1)}x`;
+    }
+    case 'set_particle_density': {
+      const lock = actions.getControlLock();
+      if (lock) return `Error: ${lock}`;
+      const value = Number(args.density);
+      if (!Number.isFinite(value)) return 'Error: density must be a number';
+      const density = Math.round(clamp(value, DENSITY_RANGE));
+      actions.setParticleDensity(density);
+      return `Particle density set to ${density}`;
+    }
+    case 'set_running': {
+      const running = args.running;
+      if (typeof running !== 'boolean') return 'Error: running must be true or false';
+      actions.setRunning(running);
+      return running ? 'Simulation resumed' : 'Simulation paused';
+    }
+    case 'set_view_mode': {
+      const viewMode = String(args.viewMode).toUpperCase() as ViewMode;
+      if (!VIEW_MODES.includes(viewMode)) return `Error: unknown view mode ${args.viewMode}`;
+      actions.setViewMode(viewMode);
+      return `Switched to ${viewMode} view`;
+    }
+    case 'focus_camera': {
+      const target = String(args.target).toUpperCase() as CameraTarget;
+      if (!CAMERA_TARGETS.includes(target)) return `Error: unknown camera target ${args.target}`;
+      actions.focusCamera(target);
+      return `Camera focused on the ${target.toLowerCase().replace('_', ' ')}`;
+    }
+    case 'start_quiz': {
+      if (args.questionId === undefined || args.questionId === null) {
+        actions.startQuiz(null);
+        return 'Quiz opened at the next unsolved question';
+      }
+      const question = getQuizQuestion(String(args.questionId));
+      if (!question) return `Error: unknown quiz question ${args.questionId}`;
+      actions.startQuiz(question.id);
+      return `Quiz opened: ${question.prompt}`;
+    }
+    default:
+      return `Error: unknown tool ${call.name}`;
+  }
+};
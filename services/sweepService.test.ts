@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_SWEEP_POINTS, SweepError, validateSweepConfig } from './sweepService';
+import { getSweepPoints } from '../simulation/sweep';
+
+describe('validateSweepConfig', () => {
+  it('expands numbers, lists and ranges into sweep points', () => {
+    const config = validateSweepConfig({
+      flowRate: { from: 0.5, to: 1.5, step: 0.5 },
+      particleDensity: [100, 200],
+      geometry: ['basking-shark', { preset: 'paddlefish', rakerCount: [12, 24] }]
+    });
+    expect(config.flowRates).toEqual([0.5, 1, 1.5]);
+    expect(config.densities).toEqual([100, 200]);
+    expect(config.geometries).toHaveLength(3);
+    expect(getSweepPoints(config)).toHaveLength(18);
+  });
+
+  it('refuses a range with too many steps before expanding it', () => {
+    expect(() => validateSweepConfig({ flowRate: { from: 0.1, to: 5, step: 1e-9 } })).toThrow(SweepError);
+    expect(() => validateSweepConfig({ flowRate: { from: 0.1, to: 5, step: 1e-9 } })).toThrow(/flowRate/);
+  });
+
+  it('refuses geometry combinations past the point limit', () => {
+    const wide = { from: 4, to: 40, step: 1 };
+    expect(() => validateSweepConfig({ geometry: { rakerCount: wide, archCount: { from: 6, to: 20, step: 1 } } }))
+      .toThrow(new RegExp(String(MAX_SWEEP_POINTS)));
+  });
+
+  it('names the bad entry of a list', () => {
+    expect(() => validateSweepConfig({ particleDensity: [100, 'many'] })).toThrow(/particleDensity\.1/);
+  });
+});
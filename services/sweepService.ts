@@ -0,0 +1,191 @@
+import { FilterGeometry } from "../types";
+import { CONTAMINANT_PRESETS } from "../simulation/population";
+import { GEOMETRY_LIMITS, GEOMETRY_PRESETS } from "../simulation/filterGeometry";
+import { DEFAULT_SEED, DEFAULT_DENSITY } from "../simulation/particles";
+import { SweepConfig, SweepGeometry, SweepResult, createSweepConfig, getSweepPoints, getSweetSpots, DEFAULT_WARMUP_SECONDS, DEFAULT_DURATION_SECONDS, DEFAULT_SWEET_SPOT_TOLERANCE } from "../simulation/sweep";
+import { ScenarioError, isRecord, readNumber, readMix, readSizes } from "./scenarioService";
+import { FLOW_RATE_RANGE, DENSITY_RANGE } from "./simulationTools";
+
+// Sweep configs are JSON files written by hand; results go out as CSV for spreadsheets and JSON for scripts.
+// Any swept value is a number, a list of numbers or a `{ from, to, step }` range.
+
+export const SWEEP_VERSION = 1;
+// Each point simulates warm-up plus duration seconds; keep a sweep to minutes of wall-clock time
+export const MAX_SWEEP_POINTS = 500;
+export const DURATION_LIMITS = { min: 1, max: 600 };
+export const WARMUP_LIMITS = { min: 0, max: 600 };
+export const TOLERANCE_LIMITS = { min: 0, max: 100 };
+const MAX_NAME_LENGTH = 80;
+
+export class SweepError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SweepError';
+  }
+}
+
+// --- Validation ---
+
+/** Rounds away the float drift of stepping, e.g. 0.1 + 0.2. */
+const roundStep = (value: number) => Math.round(value * 1e6) / 1e6;
+
+const readSteps = (source: Record<string, unknown>, key: string, path: string, range: { min: number; max: number }): number[] => {
+  const value = source[key];
+  if (typeof value === 'number') return [readNumber(source, key, path, range)];
+  if (Array.isArray(value)) {
+    if (value.length === 0) throw new SweepError(`"${path}${key}" must list at least one value`);
+    return value.map((_, i) => readNumber(value, i, `${path}${key}.`, range));
+  }
+  if (!isRecord(value)) throw new SweepError(`"${path}${key}" must be a number, a list of numbers or a { from, to, step } range`);
+  const from = readNumber(value, 'from', `${path}${key}.`, range);
+  const to = readNumber(value, 'to', `${path}${key}.`, range);
+  const step = readNumber(value, 'step', `${path}${key}.`);
+  if (step <= 0) throw new SweepError(`"${path}${key}.step" must be above 0`);
+  if (to < from) throw new SweepError(`"${path}${key}.to" must not be below "from"`);
+  // Counted before expanding, so a tiny step is refused instead of filling memory
+  const count = Math.floor((to - from) / step + 0.5) + 1;
+  if (count > MAX_SWEEP_POINTS) {
+    throw new SweepError(`"${path}${key}" has ${count} steps; use a step that gives at most ${MAX_SWEEP_POINTS}`);
+  }
+  const steps: number[] = [];
+  // Half a step of slack so `to` itself is reached despite rounding
+  for (let i = 0; from + i * step <= to + step / 2; i++) steps.push(roundStep(Math.min(to, from + i * step)));
+  return steps;
+};
+
+const findPreset = (id: unknown, path: string) => {
+  const preset = GEOMETRY_PRESETS.find(p => p.id === id);
+  if (!preset) throw new SweepError(`"${path}" must be one of ${GEOMETRY_PRESETS.map(p => p.id).join(', ')}`);
+  return preset;
+};
+
+/**
+ * A geometry entry is a preset id, or an object with an optional base `preset` and `label` whose
+ * geometry fields override the base; fields given as lists or ranges expand into one geometry per combination.
+ */
+const readGeometries = (value: unknown): SweepGeometry[] => {
+  if (value === undefined) return [{ label: GEOMETRY_PRESETS[0].label, geometry: GEOMETRY_PRESETS[0].geometry }];
+  const entries = Array.isArray(value) ? value : [value];
+  if (entries.length === 0) throw new SweepError('"geometry" must list at least one geometry');
+  return entries.flatMap((entry, i): SweepGeometry[] => {
+    const path = Array.isArray(value) ? `geometry.${i}` : 'geometry';
+    if (typeof entry === 'string') {
+      const preset = findPreset(entry, path);
+      return [{ label: preset.label, geometry: preset.geometry }];
+    }
+    if (!isRecord(entry)) throw new SweepError(`"${path}" must be a preset id or an object`);
+    const keys = Object.keys(GEOMETRY_LIMITS) as (keyof FilterGeometry)[];
+    const unknown = Object.keys(entry).find(key => key !== 'preset' && key !== 'label' && !keys.includes(key as keyof FilterGeometry));
+    if (unknown) throw new SweepError(`"${path}.${unknown}" is not a geometry field`);
+    const preset = findPreset(entry.preset ?? GEOMETRY_PRESETS[0].id, `${path}.preset`);
+    if (entry.label !== undefined && typeof entry.label !== 'string') throw new SweepError(`"${path}.label" must be a string`);
+    const label = (entry.label as string | undefined) ?? preset.label;
+
+    const varied = keys.filter(key => entry[key] !== undefined);
+    let geometries: SweepGeometry[] = [{ label, geometry: preset.geometry }];
+    for (const key of varied) {
+      const steps = readSteps(entry, key, `${path}.`, GEOMETRY_LIMITS[key]);
+      geometries = geometries.flatMap(g => steps.map(step => ({
+        // Only swept fields go into the label; fixed overrides are part of the entry's own name
+        label: steps.length > 1 ? `${g.label} · ${key} ${step}` : g.label,
+        geometry: { ...g.geometry, [key]: step }
+      })));
+      // Several swept fields multiply; stop before the combinations outgrow the point limit
+      if (geometries.length > MAX_SWEEP_POINTS) {
+        throw new SweepError(`"${path}" expands into more than ${MAX_SWEEP_POINTS} geometries; narrow its ranges`);
+      }
+    }
+    return geometries;
+  });
+};
+
+const readOptional = (source: Record<string, unknown>, key: string, fallback: number, range: { min: number; max: number }) =>
+  source[key] === undefined ? fallback : readNumber(source, key, '', range);
+
+/** Checks an untrusted sweep config; throws SweepError naming the first bad field. */
+export const validateSweepConfig = (value: unknown): SweepConfig => {
+  if (!isRecord(value)) throw new SweepError('A sweep config must be a JSON object');
+  if (value.name !== undefined && typeof value.name !== 'string') throw new SweepError('"name" must be a string');
+  try {
+    const mix = typeof value.contaminantMix === 'string'
+      ? CONTAMINANT_PRESETS.find(p => p.id === value.contaminantMix)?.mix
+      : value.contaminantMix === undefined ? undefined : readMix(value.contaminantMix);
+    if (typeof value.contaminantMix === 'string' && !mix) {
+      throw new SweepError(`"contaminantMix" must be one of ${CONTAMINANT_PRESETS.map(p => p.id).join(', ')} or an object`);
+    }
+    const config = createSweepConfig({
+      name: ((value.name as string | undefined) ?? '').trim().slice(0, MAX_NAME_LENGTH) || 'Sweep',
+      flowRates: value.flowRate === undefined ? [1] : readSteps(value, 'flowRate', '', FLOW_RATE_RANGE),
+      densities: (value.particleDensity === undefined ? [DEFAULT_DENSITY] : readSteps(value, 'particleDensity', '', DENSITY_RANGE)).map(Math.round),
+      geometries: readGeometries(value.geometry),
+      warmupSeconds: readOptional(value, 'warmupSeconds', DEFAULT_WARMUP_SECONDS, WARMUP_LIMITS),
+      durationSeconds: readOptional(value, 'durationSeconds', DEFAULT_DURATION_SECONDS, DURATION_LIMITS),
+      sweetSpotTolerance: readOptional(value, 'sweetSpotTolerance', DEFAULT_SWEET_SPOT_TOLERANCE, TOLERANCE_LIMITS),
+      seed: value.seed === undefined ? DEFAULT_SEED : Math.round(readNumber(value, 'seed', '')),
+      ...(mix && { mix }),
+      ...(value.particleSizes !== undefined && { sizes: readSizes(value.particleSizes) })
+    });
+    const points = getSweepPoints(config).length;
+    if (points > MAX_SWEEP_POINTS) {
+      throw new SweepError(`The sweep has ${points} points; narrow its ranges to at most ${MAX_SWEEP_POINTS}`);
+    }
+    return config;
+  } catch (error) {
+    // The shared field readers speak in scenario terms; report them as sweep errors
+    if (error instanceof ScenarioError) throw new SweepError(error.message);
+    throw error;
+  }
+};
+
+export const parseSweepConfig = (json: string): SweepConfig => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new SweepError('The sweep config is not valid JSON');
+  }
+  return validateSweepConfig(value);
+};
+
+// --- Export ---
+
+const GEOMETRY_KEYS = Object.keys(GEOMETRY_LIMITS) as (keyof FilterGeometry)[];
+
+const CSV_COLUMNS: { header: string; value: (r: SweepResult) => string | number | null }[] = [
+  { header: 'geometry', value: r => r.geometryLabel },
+  ...GEOMETRY_KEYS.map(key => ({ header: key, value: (r: SweepResult) => r.geometry[key] })),
+  { header: 'raker_gap_mm', value: r => r.rakerGap.toFixed(3) },
+  { header: 'flow_rate', value: r => r.flowRate },
+  { header: 'particle_density', value: r => r.particleDensity },
+  { header: 'efficiency_pct', value: r => r.efficiency.toFixed(2) },
+  { header: 'solids_capture_pct', value: r => r.solidsCapture.toFixed(2) },
+  { header: 'water_recovery_pct', value: r => r.waterRecovery.toFixed(2) },
+  { header: 'permeate_throughput_per_s', value: r => r.permeateThroughput.toFixed(2) },
+  { header: 'concentration_factor', value: r => r.concentrationFactor.toFixed(3) },
+  { header: 'sludge_mass_rate_mg_per_s', value: r => r.sludgeMassRate.toFixed(4) },
+  { header: 'd50_mm', value: r => r.d50 === null ? null : r.d50.toFixed(3) },
+  { header: 'clog_index_pct', value: r => r.clogIndex.toFixed(2) },
+  { header: 'pressure_drop_pa', value: r => r.pressureDrop.toFixed(3) }
+];
+
+const toCsvField = (value: string | number | null) => {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One row per sweep point; an empty d50 means the cut-size curve never crossed 50%. */
+export const sweepToCSV = (results: SweepResult[]) => [
+  CSV_COLUMNS.map(c => c.header).join(','),
+  ...results.map(r => CSV_COLUMNS.map(c => toCsvField(c.value(r))).join(','))
+].join('\n') + '\n';
+
+export const sweepToJSON = (config: SweepConfig, results: SweepResult[]) => JSON.stringify({
+  version: SWEEP_VERSION,
+  config,
+  results,
+  sweetSpots: getSweetSpots(results, config.sweetSpotTolerance)
+}, null, 2);
+
+export const getSweepFileName = (config: SweepConfig, extension: 'csv' | 'json') =>
+  `${config.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'sweep'}.${extension}`;
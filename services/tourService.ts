@@ -0,0 +1,198 @@
+/// <reference types="vite/client" />
+import { Tour, TourStep, TourSettings, CameraTarget, CameraPose, SceneHighlight, ViewMode } from "../types";
+import { CONTAMINANT_PRESETS } from "../simulation/population";
+import { GEOMETRY_PRESETS } from "../simulation/filterGeometry";
+import { ScenarioError, isRecord, readNumber, readMix, readGeometry, readCamera } from "./scenarioService";
+import { FLOW_RATE_RANGE, DENSITY_RANGE } from "./simulationTools";
+
+// Guided tours are JSON files: the ones in tours/ ship with the app and any other can be opened from disk,
+// so a new lesson needs no code. Each step may switch the view, move the camera, change settings and
+// highlight parts of the filter while its caption is shown.
+
+export const TOUR_VERSION = 1;
+export const TOUR_URL_PARAM = 'tour';
+const MAX_STEPS = 50;
+const MAX_TITLE_LENGTH = 80;
+const MAX_TEXT_LENGTH = 600;
+export const STEP_DURATION_LIMITS = { min: 1, max: 600 };
+
+const VIEW_MODES: ViewMode[] = ['NATURE', 'PRODUCT', 'SIEVE', 'CASCADE'];
+const HIGHLIGHTS: SceneHighlight[] = ['INLET', 'RAKERS', 'SLUDGE_OUTLET'];
+const SETTING_KEYS: (keyof TourSettings)[] = ['flowRate', 'particleDensity', 'isRunning', 'contaminantMix', 'geometry'];
+
+export class TourError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TourError';
+  }
+}
+
+// --- Validation ---
+
+const readText = (source: Record<string, unknown>, key: string, path: string, maxLength: number) => {
+  const value = source[key];
+  if (typeof value !== 'string' || !value.trim()) throw new TourError(`"${path}${key}" must be a non-empty string`);
+  return value.trim().slice(0, maxLength);
+};
+
+// Mixes and geometries may name a preset instead of spelling out every field
+const readSettings = (value: unknown, path: string): TourSettings => {
+  if (value === undefined) return {};
+  if (!isRecord(value)) throw new TourError(`"${path}" must be an object`);
+  const unknown = Object.keys(value).find(key => !SETTING_KEYS.includes(key as keyof TourSettings));
+  if (unknown) throw new TourError(`"${path}.${unknown}" is not a tour setting; use one of ${SETTING_KEYS.join(', ')}`);
+  const settings: TourSettings = {};
+  if (value.flowRate !== undefined) settings.flowRate = readNumber(value, 'flowRate', `${path}.`, FLOW_RATE_RANGE);
+  if (value.particleDensity !== undefined) {
+    settings.particleDensity = Math.round(readNumber(value, 'particleDensity', `${path}.`, DENSITY_RANGE));
+  }
+  if (value.isRunning !== undefined) {
+    if (typeof value.isRunning !== 'boolean') throw new TourError(`"${path}.isRunning" must be true or false`);
+    settings.isRunning = value.isRunning;
+  }
+  if (typeof value.contaminantMix === 'string') {
+    const preset = CONTAMINANT_PRESETS.find(p => p.id === value.contaminantMix);
+    if (!preset) throw new TourError(`"${path}.contaminantMix" must be one of ${CONTAMINANT_PRESETS.map(p => p.id).join(', ')} or an object`);
+    settings.contaminantMix = preset.mix;
+  } else if (value.contaminantMix !== undefined) {
+    settings.contaminantMix = readMix(value.contaminantMix);
+  }
+  if (typeof value.geometry === 'string') {
+    const preset = GEOMETRY_PRESETS.find(p => p.id === value.geometry);
+    if (!preset) throw new TourError(`"${path}.geometry" must be one of ${GEOMETRY_PRESETS.map(p => p.id).join(', ')} or an object`);
+    settings.geometry = preset.geometry;
+  } else if (value.geometry !== undefined) {
+    settings.geometry = readGeometry(value.geometry, `${path}.geometry`);
+  }
+  return settings;
+};
+
+const readStepCamera = (value: unknown, path: string): CameraTarget | CameraPose | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === 'string') {
+    if (!HIGHLIGHTS.includes(value as CameraTarget)) throw new TourError(`"${path}" must be one of ${HIGHLIGHTS.join(', ')} or a camera pose`);
+    return value as CameraTarget;
+  }
+  return readCamera(value, path) ?? undefined;
+};
+
+const readHighlight = (value: unknown, path: string): SceneHighlight[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw new TourError(`"${path}" must be a list`);
+  const bad = value.find(item => !HIGHLIGHTS.includes(item as SceneHighlight));
+  if (bad !== undefined) throw new TourError(`"${path}" may only contain ${HIGHLIGHTS.join(', ')} (got ${JSON.stringify(bad)})`);
+  return [...new Set(value as SceneHighlight[])];
+};
+
+const readStep = (value: unknown, index: number): TourStep => {
+  const path = `steps.${index}`;
+  if (!isRecord(value)) throw new TourError(`"${path}" must be an object`);
+  if (value.viewMode !== undefined && !VIEW_MODES.includes(value.viewMode as ViewMode)) {
+    throw new TourError(`"${path}.viewMode" must be one of ${VIEW_MODES.join(', ')}`);
+  }
+  return {
+    title: readText(value, 'title', `${path}.`, MAX_TITLE_LENGTH),
+    caption: readText(value, 'caption', `${path}.`, MAX_TEXT_LENGTH),
+    viewMode: value.viewMode as ViewMode | undefined,
+    camera: readStepCamera(value.camera, `${path}.camera`),
+    settings: readSettings(value.settings, `${path}.settings`),
+    highlight: readHighlight(value.highlight, `${path}.highlight`),
+    duration: value.duration === undefined || value.duration === null
+      ? null
+      : readNumber(value, 'duration', `${path}.`, STEP_DURATION_LIMITS)
+  };
+};
+
+/** Checks an untrusted value against the tour schema; throws TourError naming the first bad field. */
+export const validateTour = (value: unknown): Tour => {
+  if (!isRecord(value)) throw new TourError('A tour must be a JSON object');
+  if (value.version !== TOUR_VERSION) {
+    throw new TourError(typeof value.version === 'number'
+      ? `Unsupported tour version ${value.version}; this app reads version ${TOUR_VERSION}`
+      : '"version" is missing; this does not look like a tour file');
+  }
+  if (typeof value.id !== 'string' || !/^[a-z0-9-]+$/.test(value.id)) {
+    throw new TourError('"id" must be lowercase letters, digits and dashes');
+  }
+  if (!Array.isArray(value.steps) || value.steps.length === 0 || value.steps.length > MAX_STEPS) {
+    throw new TourError(`"steps" must be an array of 1 to ${MAX_STEPS} steps`);
+  }
+  try {
+    return {
+      version: TOUR_VERSION,
+      id: value.id,
+      title: readText(value, 'title', '', MAX_TITLE_LENGTH),
+      description: value.description === undefined ? '' : readText(value, 'description', '', MAX_TEXT_LENGTH),
+      steps: value.steps.map(readStep)
+    };
+  } catch (error) {
+    // The shared field readers speak in scenario terms; report them as tour errors
+    if (error instanceof ScenarioError) throw new TourError(error.message);
+    throw error;
+  }
+};
+
+export const parseTour = (json: string): Tour => {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new TourError('The tour is not valid JSON');
+  }
+  return validateTour(value);
+};
+
+// --- Playback ---
+
+export interface TourStepState {
+  step: TourStep;
+  viewMode?: ViewMode;
+  camera?: CameraTarget | CameraPose;
+  settings: TourSettings;
+}
+
+/**
+ * The changes to make on arriving at step `index` from step `from`. Moving on to the next step applies
+ * just that step, leaving alone whatever the learner changed meanwhile; any other jump (the start, Back)
+ * replays every step up to `index`, so it lands on the same picture as playing through.
+ */
+export const getTourStepState = (tour: Tour, index: number, from: number | null): TourStepState => {
+  const steps = from === index - 1 ? [tour.steps[index]] : tour.steps.slice(0, index + 1);
+  return {
+    step: tour.steps[index],
+    viewMode: steps.reduce<ViewMode | undefined>((mode, step) => step.viewMode ?? mode, undefined),
+    camera: steps.reduce<CameraTarget | CameraPose | undefined>((camera, step) => step.camera ?? camera, undefined),
+    settings: steps.reduce<TourSettings>((settings, step) => ({ ...settings, ...step.settings }), {})
+  };
+};
+
+// --- Built-in tours ---
+
+// Bundled at build time and listed in file-name order; a broken file is left out with a console warning
+// rather than taking the app down
+const loadBuiltInTours = () => {
+  const files = import.meta.glob<unknown>('../tours/*.json', { eager: true, import: 'default' });
+  return Object.keys(files).sort().flatMap(file => {
+    const value = files[file];
+    try {
+      return [validateTour(value)];
+    } catch (error) {
+      console.warn(`Skipping tour ${file}:`, error instanceof TourError ? error.message : error);
+      return [];
+    }
+  });
+};
+
+export const BUILT_IN_TOURS: Tour[] = loadBuiltInTours();
+
+/** The built-in tour named by the `#tour=<id>` URL fragment; null when the link names none. */
+export const readTourFromUrl = (location: Location = window.location): Tour | null => {
+  const id = new URLSearchParams(location.hash.slice(1)).get(TOUR_URL_PARAM);
+  if (!id) return null;
+  const tour = BUILT_IN_TOURS.find(t => t.id === id);
+  if (!tour) throw new TourError(`There is no tour called "${id}"`);
+  return tour;
+};
+
+export const getTourShareUrl = (tour: Tour, location: Location = window.location) =>
+  `${location.origin}${location.pathname}${location.search}#${TOUR_URL_PARAM}=${tour.id}`;
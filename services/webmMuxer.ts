@@ -0,0 +1,159 @@
+// Minimal WebM (Matroska) writer for a single video track encoded with WebCodecs.
+// The whole file is built in memory, so every element size is known and no seeking is needed.
+
+export type WebmCodec = 'V_VP8' | 'V_VP9';
+
+type Bytes = Uint8Array;
+
+const concat = (parts: Bytes[]) => {
+  const out = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  for (const p of parts) {
+    out.set(p, offset);
+    offset += p.length;
+  }
+  return out;
+};
+
+// Big-endian bytes of an unsigned integer, as few as possible
+const uintBytes = (value: number) => {
+  const bytes: number[] = [];
+  do {
+    bytes.unshift(value % 256);
+    value = Math.floor(value / 256);
+  } while (value > 0);
+  return new Uint8Array(bytes);
+};
+
+// EBML variable-length size: the leading 1 bit marks how many bytes follow
+const sizeBytes = (size: number) => {
+  let length = 1;
+  while (size >= 2 ** (7 * length) - 1) length++;
+  const bytes = new Uint8Array(length);
+  let value = size;
+  for (let i = length - 1; i >= 0; i--) {
+    bytes[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+  bytes[0] |= 0x80 >> (length - 1);
+  return bytes;
+};
+
+const element = (id: number, payload: Bytes | Bytes[]) => {
+  const body = Array.isArray(payload) ? concat(payload) : payload;
+  return concat([uintBytes(id), sizeBytes(body.length), body]);
+};
+
+const uint = (id: number, value: number) => element(id, uintBytes(value));
+const text = (id: number, value: string) => element(id, new TextEncoder().encode(value));
+const float = (id: number, value: number) => {
+  const view = new DataView(new ArrayBuffer(8));
+  view.setFloat64(0, value);
+  return element(id, new Uint8Array(view.buffer));
+};
+
+// Element IDs from the Matroska specification
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  CodecID: 0x86,
+  TrackType: 0x83,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3
+};
+
+// Millisecond timecodes; SimpleBlock offsets are int16, so clusters must stay under ~32 s
+const TIMECODE_SCALE = 1_000_000;
+const MAX_CLUSTER_MS = 30_000;
+
+export interface WebmOptions {
+  codec: WebmCodec;
+  width: number;
+  height: number;
+  frameRate: number;
+}
+
+export const createWebmMuxer = ({ codec, width, height, frameRate }: WebmOptions) => {
+  const clusters: Bytes[] = [];
+  let blocks: Bytes[] = [];
+  let clusterStart = 0;
+  let lastTimecode = 0;
+
+  const closeCluster = () => {
+    if (!blocks.length) return;
+    clusters.push(element(ID.Cluster, [uint(ID.Timecode, clusterStart), ...blocks]));
+    blocks = [];
+  };
+
+  return {
+    /** Adds one encoded frame; `timestamp` is in microseconds, as WebCodecs reports it. */
+    addFrame: (data: Bytes, timestamp: number, keyFrame: boolean) => {
+      const timecode = Math.round(timestamp / 1000);
+      // Clusters start on keyframes so players can seek to them
+      if (!blocks.length || (keyFrame && timecode > clusterStart) || timecode - clusterStart > MAX_CLUSTER_MS) {
+        closeCluster();
+        clusterStart = timecode;
+      }
+      const header = new Uint8Array(4);
+      header[0] = 0x81;                            // Track number 1 as a one-byte size
+      new DataView(header.buffer).setInt16(1, timecode - clusterStart);
+      header[3] = keyFrame ? 0x80 : 0;
+      blocks.push(element(ID.SimpleBlock, [header, data]));
+      lastTimecode = timecode;
+    },
+    finish: () => {
+      closeCluster();
+      const header = element(ID.EBML, [
+        uint(ID.EBMLVersion, 1),
+        uint(ID.EBMLReadVersion, 1),
+        uint(ID.EBMLMaxIDLength, 4),
+        uint(ID.EBMLMaxSizeLength, 8),
+        text(ID.DocType, 'webm'),
+        uint(ID.DocTypeVersion, 2),
+        uint(ID.DocTypeReadVersion, 2)
+      ]);
+      const frameDuration = 1000 / frameRate;
+      const body = [
+        element(ID.Info, [
+          uint(ID.TimecodeScale, TIMECODE_SCALE),
+          text(ID.MuxingApp, 'BioFlow'),
+          text(ID.WritingApp, 'BioFlow'),
+          float(ID.Duration, lastTimecode + frameDuration)
+        ]),
+        element(ID.Tracks, element(ID.TrackEntry, [
+          uint(ID.TrackNumber, 1),
+          uint(ID.TrackUID, 1),
+          text(ID.CodecID, codec),
+          uint(ID.TrackType, 1),                   // Video
+          uint(ID.DefaultDuration, Math.round(TIMECODE_SCALE * frameDuration)),
+          element(ID.Video, [uint(ID.PixelWidth, width), uint(ID.PixelHeight, height)])
+        ])),
+        ...clusters
+      ];
+      // Segment header written separately so the clusters are not copied into one more buffer
+      const segmentHeader = concat([uintBytes(ID.Segment), sizeBytes(body.reduce((sum, p) => sum + p.length, 0))]);
+      return new Blob([header, segmentHeader, ...body], { type: 'video/webm' });
+    }
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { createZipArchive, MAX_ZIP_BYTES } from './zipArchive';
+
+const readEndRecord = async (blob: Blob) => {
+  const view = new DataView(await blob.arrayBuffer());
+  const end = view.byteLength - 22;
+  return {
+    signature: view.getUint32(end, true),
+    entries: view.getUint16(end + 10, true),
+    directorySize: view.getUint32(end + 12, true),
+    directoryStart: view.getUint32(end + 16, true)
+  };
+};
+
+describe('createZipArchive', () => {
+  it('lays out stored entries and the central directory', async () => {
+    const zip = createZipArchive();
+    zip.add('a.txt', new TextEncoder().encode('hello'));
+    zip.add('b.txt', new TextEncoder().encode('fish'));
+    expect(zip.size).toBe(2 * 30 + 5 + 5 + 5 + 4);
+    const written = zip.size;
+    const blob = zip.toBlob();
+    const end = await readEndRecord(blob);
+    expect(end.signature).toBe(0x06054b50);
+    expect(end.entries).toBe(2);
+    expect(end.directoryStart).toBe(written);
+    expect(end.directorySize).toBe(2 * (46 + 5));
+    expect(blob.size).toBe(end.directoryStart + end.directorySize + 22);
+  });
+
+  it('stores the CRC-32 of each entry', async () => {
+    const zip = createZipArchive();
+    zip.add('check.txt', new TextEncoder().encode('123456789'));
+    const view = new DataView(await zip.toBlob().arrayBuffer());
+    expect(view.getUint32(14, true)).toBe(0xcbf43926);
+  });
+
+  it('refuses an entry that would pass the 32-bit size limit', () => {
+    const zip = createZipArchive();
+    // A view claiming more bytes than ZIP can address, without allocating them
+    const huge = { length: MAX_ZIP_BYTES } as Uint8Array;
+    expect(() => zip.add('huge.bin', huge)).toThrow(RangeError);
+    expect(zip.size).toBe(0);
+  });
+});
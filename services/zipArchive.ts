@@ -0,0 +1,104 @@
+// Minimal ZIP writer for frame sequences. Entries are stored uncompressed: PNGs are already deflated.
+// Without ZIP64 records, sizes and offsets are 32-bit and the entry count 16-bit.
+
+export const MAX_ZIP_BYTES = 0xffffffff;
+export const MAX_ZIP_ENTRIES = 0xffff;
+// End of central directory record
+const END_RECORD_BYTES = 22;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff;
+  for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// MS-DOS date and time fields, as ZIP stores them
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+interface ZipEntry {
+  name: Uint8Array;
+  data: Uint8Array;
+  crc: number;
+  offset: number;
+}
+
+export const createZipArchive = () => {
+  const entries: ZipEntry[] = [];
+  const parts: Uint8Array[] = [];
+  const { time, date } = dosDateTime(new Date());
+  let offset = 0;
+  // Bytes the central directory and end record will add once the archive is finished
+  let directorySize = END_RECORD_BYTES;
+
+  const push = (bytes: Uint8Array) => {
+    parts.push(bytes);
+    offset += bytes.length;
+  };
+
+  return {
+    /** Bytes written so far, not counting the central directory. */
+    get size() { return offset; },
+    /** Throws a RangeError when the entry would take the archive past what 32-bit ZIP fields can address. */
+    add: (fileName: string, data: Uint8Array) => {
+      const name = new TextEncoder().encode(fileName);
+      if (entries.length >= MAX_ZIP_ENTRIES) throw new RangeError(`A ZIP archive holds at most ${MAX_ZIP_ENTRIES} files`);
+      if (offset + 30 + name.length + data.length + directorySize + 46 + name.length > MAX_ZIP_BYTES) {
+        throw new RangeError('The ZIP archive would exceed 4 GiB');
+      }
+      const entry: ZipEntry = { name, data, crc: crc32(data), offset };
+      const header = new DataView(new ArrayBuffer(30));
+      header.setUint32(0, 0x04034b50, true);      // Local file header signature
+      header.setUint16(4, 20, true);              // Version needed
+      header.setUint16(10, time, true);
+      header.setUint16(12, date, true);
+      header.setUint32(14, entry.crc, true);
+      header.setUint32(18, data.length, true);    // Compressed size (stored)
+      header.setUint32(22, data.length, true);
+      header.setUint16(26, name.length, true);
+      push(new Uint8Array(header.buffer));
+      push(name);
+      push(data);
+      entries.push(entry);
+      directorySize += 46 + name.length;
+    },
+    toBlob: () => {
+      const directoryStart = offset;
+      for (const entry of entries) {
+        const header = new DataView(new ArrayBuffer(46));
+        header.setUint32(0, 0x02014b50, true);    // Central directory signature
+        header.setUint16(4, 20, true);            // Version made by
+        header.setUint16(6, 20, true);            // Version needed
+        header.setUint16(12, time, true);
+        header.setUint16(14, date, true);
+        header.setUint32(16, entry.crc, true);
+        header.setUint32(20, entry.data.length, true);
+        header.setUint32(24, entry.data.length, true);
+        header.setUint16(28, entry.name.length, true);
+        header.setUint32(42, entry.offset, true);
+        push(new Uint8Array(header.buffer));
+        push(entry.name);
+      }
+      const end = new DataView(new ArrayBuffer(22));
+      end.setUint32(0, 0x06054b50, true);         // End of central directory signature
+      end.setUint16(8, entries.length, true);
+      end.setUint16(10, entries.length, true);
+      end.setUint32(12, offset - directoryStart, true);
+      end.setUint32(16, directoryStart, true);
+      push(new Uint8Array(end.buffer));
+      return new Blob(parts, { type: 'application/zip' });
+    }
+  };
+};
@@ -0,0 +1,234 @@
+import { CascadeMetrics, CascadeStage, ContaminantMix, SizeDistributions } from '../types';
+import { createRandom } from './random';
+import { getPopulationCounts, DEFAULT_MIX } from './population';
+import { GEOMETRY_PRESETS } from './filterGeometry';
+import { DEFAULT_SIZE_DISTRIBUTIONS, assignSize } from './particleSizes';
+import { WATER } from './contaminants';
+import { OutletTally, createOutletTally, decayOutletTally, countOutlet, getTallyMetrics } from './outletTally';
+import { RakerWall, createRakerWall, stepParticle, getClogIndex, updateFlow } from './filtrationEngine';
+import { FlowSolution } from './flowSolver';
+import {
+  Particle,
+  FIXED_TIMESTEP,
+  DEFAULT_SEED,
+  DEFAULT_DENSITY,
+  spawn,
+  createParticles,
+  resizeParticles,
+  createFixedStepClock
+} from './particles';
+
+// Several fish-mouth filters in series. Particles are conserved across the train: one leaving a stage
+// through the outlet the next stage treats is handed on with its size intact (or bypasses it, per the
+// next stage's flow split); anything else leaves the train and is replaced by fresh feed at stage 1.
+// Every stage uses the filtration engine's particle step in its own local frame.
+
+export const MAX_STAGES = 3;
+export const FLOW_SPLIT_LIMITS = { min: 0.1, max: 1, step: 0.05 };
+
+const [BASKING_SHARK, PADDLEFISH] = GEOMETRY_PRESETS.map(p => p.geometry);
+
+export interface CascadePreset {
+  id: string;
+  label: string;
+  stages: CascadeStage[];
+}
+
+export const CASCADE_PRESETS: CascadePreset[] = [
+  {
+    // Coarse rakers take the bulk, dense ones polish what got through
+    id: 'polish',
+    label: 'Coarse → Fine',
+    stages: [
+      { geometry: BASKING_SHARK, feedFrom: 'permeate', flowSplit: 1 },
+      { geometry: PADDLEFISH, feedFrom: 'permeate', flowSplit: 1 }
+    ]
+  },
+  {
+    // A second pass over the sludge recovers water and concentrates the solids
+    id: 'thickener',
+    label: 'Sludge Thickener',
+    stages: [
+      { geometry: BASKING_SHARK, feedFrom: 'permeate', flowSplit: 1 },
+      { geometry: BASKING_SHARK, feedFrom: 'sludge', flowSplit: 1 }
+    ]
+  },
+  {
+    id: 'triple',
+    label: 'Three-Stage',
+    stages: [
+      { geometry: BASKING_SHARK, feedFrom: 'permeate', flowSplit: 1 },
+      { geometry: PADDLEFISH, feedFrom: 'permeate', flowSplit: 1 },
+      { geometry: PADDLEFISH, feedFrom: 'permeate', flowSplit: 0.5 }
+    ]
+  }
+];
+
+export const DEFAULT_CASCADE = CASCADE_PRESETS[0].stages;
+
+export interface CascadeEngineOptions {
+  seed?: number;
+  flowRate?: number;
+  density?: number;
+  mix?: ContaminantMix;
+  sizes?: SizeDistributions;
+  stages?: CascadeStage[];
+}
+
+export interface CascadeStageView {
+  readonly config: CascadeStage;
+  readonly particles: readonly Particle[];
+}
+
+export interface CascadeEngine {
+  readonly stages: readonly CascadeStageView[];
+  readonly time: number;
+  readonly stepCount: number;
+  getMetrics: () => CascadeMetrics;
+  setFlowRate: (flowRate: number) => void;
+  setPopulation: (density: number, mix: ContaminantMix) => void;
+  setSizeDistributions: (sizes: SizeDistributions) => void;
+  /** Rebuilds the train; particles in stages that no longer exist return to stage 1 and all counters restart. */
+  setStages: (stages: CascadeStage[]) => void;
+  step: () => void;
+  advance: (delta: number) => number;
+  reset: (seed?: number) => void;
+}
+
+interface StageRuntime {
+  config: CascadeStage;
+  wall: RakerWall;
+  flow: FlowSolution | null;
+  particles: Particle[];
+  tally: OutletTally;
+}
+
+const createStage = (config: CascadeStage, particles: Particle[] = []): StageRuntime => ({
+  config,
+  wall: createRakerWall(config.geometry),
+  flow: null,
+  particles,
+  tally: createOutletTally()
+});
+
+export const createCascadeEngine = (options: CascadeEngineOptions = {}): CascadeEngine => {
+  let seed = options.seed ?? DEFAULT_SEED;
+  let flowRate = options.flowRate ?? 1.0;
+  let density = options.density ?? DEFAULT_DENSITY;
+  let mix = options.mix ?? DEFAULT_MIX;
+  let sizes = options.sizes ?? DEFAULT_SIZE_DISTRIBUTIONS;
+  let configs = (options.stages ?? DEFAULT_CASCADE).slice(0, MAX_STAGES);
+  let random = createRandom(seed);
+  let stepCount = 0;
+  let trainTally = createOutletTally();
+
+  const inletRadius = () => configs[0].geometry.inletRadius;
+  // The whole feed starts at stage 1 and spreads down the train as it runs
+  const build = () => configs.map((config, i) =>
+    createStage(config, i === 0 ? createParticles(getPopulationCounts(density, mix), random, inletRadius(), sizes) : []));
+  let stages = build();
+
+  const step = () => {
+    decayOutletTally(trainTally);
+    for (const stage of stages) decayOutletTally(stage.tally);
+    const returning: Particle[] = [];
+    // Downstream first, so a particle handed on this step is not stepped twice
+    for (let i = stages.length - 1; i >= 0; i--) {
+      const stage = stages[i];
+      const next = stages[i + 1];
+      const stageFlow = flowRate * (i === 0 ? 1 : stage.config.flowSplit);
+      stage.flow = updateFlow(stage.flow, stage.wall, stageFlow, stage.particles, 1, stepCount);
+      const kept: Particle[] = [];
+      for (const p of stage.particles) {
+        const outlet = stepParticle(p, stageFlow, random, stage.wall, stage.flow);
+        if (!outlet) {
+          kept.push(p);
+          continue;
+        }
+        countOutlet(stage.tally, p, outlet);
+        if (next && outlet === next.config.feedFrom && random() < next.config.flowSplit) {
+          spawn(p, random, 5, next.config.geometry.inletRadius);
+          next.particles.push(p);
+          continue;
+        }
+        countOutlet(trainTally, p, outlet);
+        // Replaced by a new draw from the feed at stage 1
+        if (p.type !== WATER) assignSize(p, random, sizes);
+        if (i === 0) kept.push(p);
+        else {
+          spawn(p, random, 5, inletRadius());
+          returning.push(p);
+        }
+      }
+      stage.particles = kept;
+    }
+    stages[0].particles.push(...returning);
+    stepCount++;
+  };
+  const clock = createFixedStepClock(step);
+
+  const time = () => stepCount * FIXED_TIMESTEP;
+
+  return {
+    get stages() { return stages; },
+    get time() { return time(); },
+    get stepCount() { return stepCount; },
+    getMetrics: () => {
+      const stageMetrics = stages.map(stage => getTallyMetrics(stage.tally, {
+        time: time(),
+        clogIndex: getClogIndex(stage.particles, stage.wall),
+        pressureDrop: stage.flow?.pressureDrop ?? 0
+      }));
+      return {
+        time: time(),
+        // The train clogs where its worst stage does, and the feed has to push through every stage in turn
+        train: getTallyMetrics(trainTally, {
+          time: time(),
+          clogIndex: Math.max(...stageMetrics.map(m => m.clogIndex)),
+          pressureDrop: stageMetrics.reduce((sum, m) => sum + m.pressureDrop, 0)
+        }),
+        stages: stageMetrics
+      };
+    },
+    setFlowRate: (value) => { flowRate = value; },
+    setPopulation: (nextDensity, nextMix) => {
+      density = nextDensity;
+      mix = nextMix;
+      const all = stages.flatMap(stage => stage.particles);
+      const resized = resizeParticles(all, getPopulationCounts(density, mix), random, inletRadius(), sizes);
+      const kept = new Set(resized);
+      for (const stage of stages) stage.particles = stage.particles.filter(p => kept.has(p));
+      // New particles join the feed at stage 1
+      const existing = new Set(all);
+      stages[0].particles.push(...resized.filter(p => !existing.has(p)));
+    },
+    setSizeDistributions: (value) => {
+      sizes = value;
+      for (const stage of stages) for (const p of stage.particles) assignSize(p, random, sizes);
+      trainTally = createOutletTally();
+      for (const stage of stages) stage.tally = createOutletTally();
+    },
+    setStages: (value) => {
+      configs = value.slice(0, MAX_STAGES);
+      const previous = stages;
+      stages = configs.map((config, i) => createStage(config, previous[i]?.particles ?? []));
+      for (const stage of previous.slice(configs.length)) {
+        for (const p of stage.particles) {
+          spawn(p, random, 5, inletRadius());
+          stages[0].particles.push(p);
+        }
+      }
+      trainTally = createOutletTally();
+    },
+    step,
+    advance: clock.advance,
+    reset: (nextSeed) => {
+      if (nextSeed !== undefined) seed = nextSeed;
+      random = createRandom(seed);
+      stages = build();
+      stepCount = 0;
+      clock.reset();
+      trainTally = createOutletTally();
+    }
+  };
+};
@@ -0,0 +1,141 @@
+import { ContaminantType, ParticleType, SizeDistribution } from '../types';
+
+// Registry of contaminant types. The engines, renderer, legend, charts and scenario files are all
+// generated from CONTAMINANTS, so a new type needs only a new entry here (and, optionally, a mix preset).
+
+// The carrier fluid; not a contaminant, so it has no registry entry
+export const WATER: ParticleType = 'WATER';
+export const WATER_STYLE = { label: 'Water', description: 'Clean Water', color: '#60a5fa' };
+
+export type ContaminantShape = 'sphere' | 'box' | 'tetrahedron' | 'octahedron' | 'dodecahedron' | 'icosahedron';
+
+interface ContaminantEntry<Id extends string> {
+  id: Id;                        // Stable key used in mixes, metrics, recordings and scenario files
+  label: string;                 // Short name for charts and readouts
+  description: string;           // Legend text
+  color: string;
+  shape: ContaminantShape;
+  drawScale: number;             // Drawn radius (scene units) of a particle at the default median diameter
+  material: { roughness: number; metalness: number; emissive?: string };
+  size: SizeDistribution;        // Default size distribution and density
+  sizeRange: { min: number; max: number };   // Diameters (mm) outside this range are never drawn
+  // How much the particle squeezes through an opening: 0 = rigid, 1 = passes any gap.
+  // The rakers and the sieve mesh see the diameter shrunk by this fraction.
+  deformability: number;
+  // Strength of the bounce off a raker tip, relative to a rigid grain (1)
+  rebound: number;
+}
+
+// Infers the id union from the entries, so ContaminantType (types.ts) follows the registry
+const defineContaminants = <Id extends string>(entries: ContaminantEntry<Id>[]) => entries;
+
+export const CONTAMINANTS = defineContaminants([
+  {
+    id: 'MICROPLASTIC',
+    label: 'Plastic',
+    description: 'Plastic (Microfibers)',
+    color: '#ef4444',
+    shape: 'dodecahedron',
+    drawScale: 0.15,
+    material: { roughness: 0.2, metalness: 0.5, emissive: '#991b1b' },
+    size: { medianDiameter: 0.5, spread: 2.0, density: 1.2 },
+    sizeRange: { min: 0.02, max: 5 },
+    deformability: 0,
+    rebound: 1
+  },
+  {
+    id: 'ALGAE',
+    label: 'Algae',
+    description: 'Algae / Organic',
+    color: '#22c55e',
+    shape: 'icosahedron',
+    drawScale: 0.12,
+    material: { roughness: 0.8, metalness: 0.1 },
+    size: { medianDiameter: 0.3, spread: 1.8, density: 1.03 },
+    sizeRange: { min: 0.02, max: 3 },
+    deformability: 0,
+    rebound: 1
+  },
+  {
+    id: 'SEDIMENT',
+    label: 'Sediment',
+    description: 'Sediment / Sand',
+    color: '#a16207',
+    shape: 'box',
+    drawScale: 0.1,
+    material: { roughness: 0.9, metalness: 0.2 },
+    size: { medianDiameter: 0.6, spread: 1.6, density: 2.65 },
+    sizeRange: { min: 0.02, max: 4 },
+    deformability: 0,
+    rebound: 1
+  },
+  {
+    // Rubber and road-surface grit worn off tyres; fine and dense
+    id: 'TIRE_WEAR',
+    label: 'Tire Wear',
+    description: 'Tire-Wear Particles',
+    color: '#52525b',
+    shape: 'tetrahedron',
+    drawScale: 0.09,
+    material: { roughness: 0.95, metalness: 0 },
+    size: { medianDiameter: 0.1, spread: 2.0, density: 1.8 },
+    sizeRange: { min: 0.01, max: 1 },
+    deformability: 0,
+    rebound: 0.8
+  },
+  {
+    // Soft, near-neutrally buoyant spheres that should be recovered intact
+    id: 'FISH_EGG',
+    label: 'Fish Eggs',
+    description: 'Fish Eggs',
+    color: '#fb923c',
+    shape: 'sphere',
+    drawScale: 0.2,
+    material: { roughness: 0.3, metalness: 0, emissive: '#9a3412' },
+    size: { medianDiameter: 1.5, spread: 1.2, density: 1.02 },
+    sizeRange: { min: 0.8, max: 3 },
+    deformability: 0.3,
+    rebound: 0.4
+  },
+  {
+    // Droplets deform through openings and barely bounce, so they are the hardest to catch
+    id: 'OIL',
+    label: 'Oil',
+    description: 'Oil Droplets',
+    color: '#eab308',
+    shape: 'sphere',
+    drawScale: 0.1,
+    material: { roughness: 0.05, metalness: 0.3, emissive: '#713f12' },
+    size: { medianDiameter: 0.2, spread: 2.2, density: 0.85 },
+    sizeRange: { min: 0.01, max: 2 },
+    deformability: 0.8,
+    rebound: 0.2
+  },
+  {
+    // Cotton and other cellulose fibers shed in the wash; flexible, so they bend through slightly narrower gaps
+    id: 'NATURAL_FIBER',
+    label: 'Natural Fiber',
+    description: 'Natural Fibers (Cotton)',
+    color: '#e2e8f0',
+    shape: 'octahedron',
+    drawScale: 0.12,
+    material: { roughness: 0.9, metalness: 0 },
+    size: { medianDiameter: 0.4, spread: 1.8, density: 1.5 },
+    sizeRange: { min: 0.02, max: 3 },
+    deformability: 0.2,
+    rebound: 0.6
+  }
+]);
+
+export type ContaminantId = typeof CONTAMINANTS[number]['id'];
+export type ContaminantDefinition = ContaminantEntry<ContaminantId>;
+
+export const CONTAMINANT_TYPES: ContaminantType[] = CONTAMINANTS.map(c => c.id);
+// Every particle type in a fixed order; recordings store types as indices into this list
+export const PARTICLE_TYPES: ParticleType[] = [WATER, ...CONTAMINANT_TYPES];
+
+const BY_ID = new Map<string, ContaminantDefinition>(CONTAMINANTS.map(c => [c.id, c]));
+
+// Undefined for water, which has no registry entry
+export const getContaminant = (id: ParticleType) => BY_ID.get(id);
+export const isContaminantType = (id: unknown): id is ContaminantType => typeof id === 'string' && BY_ID.has(id);
@@ -0,0 +1,81 @@
+import { FilterGeometry } from '../types';
+
+// Shared gill-raker layout: the renderer builds arches from it and the engine derives its collision cone.
+
+export const FIRST_ARCH_Z = 2;
+export const MIN_CONE_RADIUS = 0.5;
+// Angular span of each arch, centred on the +x axis
+export const ARCH_ARC = Math.PI * 1.2;
+
+export interface GeometryPreset {
+  id: string;
+  label: string;
+  geometry: FilterGeometry;
+}
+
+export const GEOMETRY_PRESETS: GeometryPreset[] = [
+  {
+    // Closely spaced arches with short, sparse, radial rakers
+    id: 'basking-shark',
+    label: 'Basking Shark',
+    geometry: {
+      archCount: 15,
+      archSpacing: 1.2,
+      inletRadius: 2.5,
+      coneTaper: 0.125,
+      rakerCount: 16,
+      rakerLength: 0.6,
+      rakerAngle: 0
+    }
+  },
+  {
+    // Longer, gentler cone lined with dense, swept-back rakers
+    id: 'paddlefish',
+    label: 'Paddlefish',
+    geometry: {
+      archCount: 10,
+      archSpacing: 1.6,
+      inletRadius: 2.2,
+      coneTaper: 0.1,
+      rakerCount: 28,
+      rakerLength: 0.9,
+      rakerAngle: 25
+    }
+  }
+];
+
+export const DEFAULT_GEOMETRY = GEOMETRY_PRESETS[0].geometry;
+
+// Designable range of each parameter; outside these the cone or raker wall stops making sense
+export const GEOMETRY_LIMITS: Record<keyof FilterGeometry, { min: number; max: number; step: number }> = {
+  archCount: { min: 6, max: 20, step: 1 },
+  archSpacing: { min: 0.6, max: 1.8, step: 0.1 },
+  inletRadius: { min: 1.5, max: 3.0, step: 0.1 },
+  coneTaper: { min: 0.05, max: 0.2, step: 0.005 },
+  rakerCount: { min: 4, max: 40, step: 1 },
+  rakerLength: { min: 0.2, max: 1.2, step: 0.05 },
+  rakerAngle: { min: 0, max: 60, step: 5 }
+};
+
+export const getArchZ = (geometry: FilterGeometry, index: number) => FIRST_ARCH_Z - index * geometry.archSpacing;
+
+export const getConeRadius = (geometry: FilterGeometry, z: number) =>
+  Math.max(MIN_CONE_RADIUS, geometry.inletRadius - (FIRST_ARCH_Z - z) * geometry.coneTaper);
+
+/** How far the raker tips reach inwards from the arch, after tilting them downstream. */
+export const getRakerReach = (geometry: FilterGeometry) =>
+  (geometry.rakerLength / 2) * Math.cos((geometry.rakerAngle * Math.PI) / 180);
+
+/** Index of the arch nearest depth `z`. */
+export const getNearestArch = (geometry: FilterGeometry, z: number) =>
+  Math.min(geometry.archCount - 1, Math.max(0, Math.round((FIRST_ARCH_Z - z) / geometry.archSpacing)));
+
+/** Axial extent of the raker wall, from half a spacing ahead of the first arch to the last arch. */
+export const getFilterZone = (geometry: FilterGeometry) => ({
+  start: FIRST_ARCH_Z + geometry.archSpacing / 2,
+  end: getArchZ(geometry, geometry.archCount - 1)
+});
+
+/** Clear spacing between neighbouring raker tips at depth `z`, in scene units. */
+export const getRakerGap = (geometry: FilterGeometry, z: number) =>
+  (ARCH_ARC * Math.max(0, getConeRadius(geometry, z) - getRakerReach(geometry))) / geometry.rakerCount;
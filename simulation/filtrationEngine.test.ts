@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { createFiltrationEngine, FiltrationEngine } from './filtrationEngine';
+
+const STEPS = 300;
+
+const run = (seed: number) => {
+  const engine = createFiltrationEngine({ seed });
+  for (let i = 0; i < STEPS; i++) engine.step();
+  return engine;
+};
+
+const positions = (engine: FiltrationEngine) => engine.particles.map(p => [p.x, p.y, p.z]);
+
+describe('createFiltrationEngine', () => {
+  it('gives the same particles for the same seed', () => {
+    expect(positions(run(7))).toEqual(positions(run(7)));
+  });
+
+  it('gives the same metrics for the same seed', () => {
+    expect(run(7).getMetrics()).toEqual(run(7).getMetrics());
+  });
+
+  it('gives different particles for a different seed', () => {
+    expect(positions(run(7))).not.toEqual(positions(run(8)));
+  });
+
+  it('replays the same run after a reset to the same seed', () => {
+    const engine = run(7);
+    const first = positions(engine);
+    engine.reset(7);
+    expect(engine.time).toBe(0);
+    for (let i = 0; i < STEPS; i++) engine.step();
+    expect(positions(engine)).toEqual(first);
+  });
+});
@@ -0,0 +1,249 @@
+import { ContaminantMix, FilterGeometry, SizeDistributions } from '../types';
+import { createRandom, RandomSource } from './random';
+import { getPopulationCounts, DEFAULT_MIX } from './population';
+import { DEFAULT_GEOMETRY, getConeRadius, getFilterZone, getRakerReach, getRakerGap, getNearestArch } from './filterGeometry';
+import { DEFAULT_SIZE_DISTRIBUTIONS, MM_PER_UNIT, assignSize, getPassingDiameter, getSlipChance, getStokesNumber, createSizeBinCounts } from './particleSizes';
+import { FlowSolution, SLICE_COUNT, SLICE_LENGTH, solveFlow, getAxialSpeed, getRadialSpeed, getSliceIndex, getSliceZ } from './flowSolver';
+import { createOutletTally, decayOutletTally, countOutlet, getTallyMetrics } from './outletTally';
+import { WATER, getContaminant } from './contaminants';
+import {
+  Particle,
+  Outlet,
+  FilterModel,
+  END_Z,
+  FIXED_TIMESTEP,
+  DEFAULT_SEED,
+  DEFAULT_DENSITY,
+  spawn,
+  createParticles,
+  resizeParticles,
+  moveParticle,
+  createFixedStepClock
+} from './particles';
+
+// Headless particle model of the fish-mouth filter. It has no dependency on
+// three.js or the DOM, so it runs the same in the browser and in Node.
+
+// Solids bounce once they come this close to the raker tips
+const RICOCHET_MARGIN = 0.1;
+// Solids within this distance of the raker tips count towards the clog index
+const CLOG_BAND = 0.25;
+// Fraction of the gap between a particle's velocity and the water's that drag closes each step, for a tracer
+const FLOW_DRAG = 0.1;
+// Shear-induced lift that keeps solids off the raker wall: an inward drift of this fraction of the
+// crossflow speed at the wall, fading towards the axis
+const SHEAR_LIFT = 0.04;
+// Open raker area one solid pressed against the wall covers, relative to its own cross-section
+const CAKE_SPREAD = 4;
+// The cake never seals a slice completely; water always finds a way round
+const MAX_BLOCKAGE = 0.95;
+// Steps between re-solving the flow around the current cake, so the solids captured feed back into it
+const FLOW_UPDATE_STEPS = 30;
+
+export interface FiltrationEngineOptions {
+  seed?: number;
+  flowRate?: number;
+  density?: number;
+  mix?: ContaminantMix;
+  geometry?: FilterGeometry;
+  sizes?: SizeDistributions;
+  detail?: number;
+}
+
+export interface FiltrationEngine extends FilterModel {
+  setGeometry: (geometry: FilterGeometry) => void;
+  /** Scales the particle count; outlet counts stay in feed particles, so metrics keep their scale. */
+  setDetail: (detail: number) => void;
+}
+
+// Collision surface derived from the filter geometry, rebuilt only when the geometry changes
+export interface RakerWall {
+  geometry: FilterGeometry;
+  zoneStart: number;
+  zoneEnd: number;
+  rakerReach: number;
+}
+
+export const createRakerWall = (geometry: FilterGeometry): RakerWall => {
+  const zone = getFilterZone(geometry);
+  return {
+    geometry,
+    zoneStart: zone.start,
+    zoneEnd: Math.max(zone.end, END_Z),
+    rakerReach: getRakerReach(geometry)
+  };
+};
+
+/** Advances one particle through `flow` and returns the outlet it left through, if it left the filter this step. */
+export const stepParticle = (p: Particle, flowRate: number, random: RandomSource, wall: RakerWall, flow: FlowSolution): Outlet | null => {
+  // 1. Drag: water follows the flow; solids lag it the more the heavier and larger they are, and the crossflow lifts them off the wall
+  if (!p.filtered) {
+    const r = Math.sqrt(p.x ** 2 + p.y ** 2);
+    const lift = p.type === WATER ? 0 : (SHEAR_LIFT * getAxialSpeed(flow, p.z)) / getConeRadius(wall.geometry, p.z);
+    const radial = r > 0 ? getRadialSpeed(flow, r, p.z) / r - lift : 0;
+    const drag = p.type === WATER ? FLOW_DRAG : FLOW_DRAG / (1 + getStokesNumber(p.diameter, p.density, flowRate));
+    p.vx += (p.x * radial - p.vx) * drag;
+    p.vy += (p.y * radial - p.vy) * drag;
+    p.vz += (-getAxialSpeed(flow, p.z) - p.vz) * drag;
+  }
+  moveParticle(p, flowRate);
+
+  // 2. Filter Interaction
+  const currentConeRadius = getConeRadius(wall.geometry, p.z);
+  const tipRadius = currentConeRadius - wall.rakerReach;
+  const distFromCenter = Math.sqrt(p.x ** 2 + p.y ** 2);
+
+  if (p.z < wall.zoneStart && p.z > wall.zoneEnd && !p.filtered) {
+    if (p.type !== WATER) {
+      // SOLIDS (Plastic, Algae, Sediment) Ricochet off the raker tips
+      if (distFromCenter >= tipRadius + RICOCHET_MARGIN) {
+        const angle = Math.atan2(p.y, p.x);
+        const gap = getRakerGap(wall.geometry, p.z) * MM_PER_UNIT;
+        p.arch = getNearestArch(wall.geometry, p.z);
+        if (random() < getSlipChance(getPassingDiameter(p), p.density, gap, flowRate)) {
+          // Small and light enough to follow the water out between the rakers
+          p.filtered = true;
+          p.vx += Math.cos(angle) * 0.3;
+          p.vy += Math.sin(angle) * 0.3;
+        } else {
+          const kick = 0.5 * (getContaminant(p.type)?.rebound ?? 1);
+          p.x = Math.cos(angle) * tipRadius;
+          p.y = Math.sin(angle) * tipRadius;
+          p.vx += -Math.cos(angle) * kick;
+          p.vy += -Math.sin(angle) * kick;
+          p.vz *= 1.1; // Accelerate down the chute
+          p.ricochets++;
+        }
+      }
+    } else if (distFromCenter > currentConeRadius) {
+      // Water Permeation: carried out through the slots by the leak flow
+      p.filtered = true;
+      p.arch = getNearestArch(wall.geometry, p.z);
+    }
+  }
+
+  // 3. Reset
+  if (p.z < END_Z || Math.abs(p.x) > 5) {
+    const outlet: Outlet = p.filtered ? 'permeate' : 'sludge';
+    spawn(p, random, 5, wall.geometry.inletRadius);
+    return outlet;
+  }
+  return null;
+};
+
+// In the raker zone and pressed against the raker wall
+const isInZone = (p: Particle, wall: RakerWall) => p.type !== WATER && p.z < wall.zoneStart && p.z > wall.zoneEnd;
+const isAtWall = (p: Particle, wall: RakerWall) =>
+  Math.sqrt(p.x ** 2 + p.y ** 2) >= getConeRadius(wall.geometry, p.z) - wall.rakerReach - CLOG_BAND;
+
+/** % of the solids in the raker zone pressed against the raker wall. */
+export const getClogIndex = (particles: readonly Particle[], wall: RakerWall) => {
+  let inZone = 0;
+  let atWall = 0;
+  for (const p of particles) {
+    if (!isInZone(p, wall)) continue;
+    inZone++;
+    if (isAtWall(p, wall)) atWall++;
+  }
+  return inZone === 0 ? 0 : (atWall / inZone) * 100;
+};
+
+/** Fraction of each flow slice's raker wall covered by solids pressed against it; `weight` is feed particles per particle. */
+export const getWallBlockage = (particles: readonly Particle[], wall: RakerWall, weight = 1) => {
+  const blockage = new Float64Array(SLICE_COUNT);
+  for (const p of particles) {
+    if (p.filtered || !isInZone(p, wall) || !isAtWall(p, wall)) continue;
+    blockage[getSliceIndex(p.z)] += CAKE_SPREAD * Math.PI * (p.diameter / 2) ** 2 * weight;
+  }
+  for (let i = 0; i < SLICE_COUNT; i++) {
+    if (blockage[i] === 0) continue;
+    const wallArea = 2 * Math.PI * getConeRadius(wall.geometry, getSliceZ(i)) * SLICE_LENGTH * MM_PER_UNIT ** 2;
+    blockage[i] = Math.min(MAX_BLOCKAGE, blockage[i] / wallArea);
+  }
+  return blockage;
+};
+
+/** The flow through `wall`, re-solved when the flow rate or the walls changed and every so often around the current cake. */
+export const updateFlow = (
+  flow: FlowSolution | null,
+  wall: RakerWall,
+  flowRate: number,
+  particles: readonly Particle[],
+  weight: number,
+  stepCount: number
+) => flow && flow.flowRate === flowRate && flow.geometry === wall.geometry && stepCount % FLOW_UPDATE_STEPS !== 0
+  ? flow
+  : solveFlow(wall.geometry, flowRate, getWallBlockage(particles, wall, weight));
+
+export const createFiltrationEngine = (options: FiltrationEngineOptions = {}): FiltrationEngine => {
+  let seed = options.seed ?? DEFAULT_SEED;
+  let flowRate = options.flowRate ?? 1.0;
+  let density = options.density ?? DEFAULT_DENSITY;
+  let mix = options.mix ?? DEFAULT_MIX;
+  let geometry = options.geometry ?? DEFAULT_GEOMETRY;
+  let sizes = options.sizes ?? DEFAULT_SIZE_DISTRIBUTIONS;
+  let detail = options.detail ?? 1;
+  let wall = createRakerWall(geometry);
+  let random = createRandom(seed);
+  let particles = createParticles(getPopulationCounts(density, mix, detail), random, geometry.inletRadius, sizes);
+  let stepCount = 0;
+  let tally = createOutletTally();
+  let flow = solveFlow(geometry, flowRate);
+
+  const step = () => {
+    flow = updateFlow(flow, wall, flowRate, particles, 1 / detail, stepCount);
+    decayOutletTally(tally);
+    for (const p of particles) {
+      const outlet = stepParticle(p, flowRate, random, wall, flow);
+      if (!outlet) continue;
+      countOutlet(tally, p, outlet, 1 / detail);
+      // Respawned solids are a new draw from the feed
+      if (p.type !== WATER) assignSize(p, random, sizes);
+    }
+    stepCount++;
+  };
+  const clock = createFixedStepClock(step);
+
+  return {
+    get particles() { return particles; },
+    get time() { return stepCount * FIXED_TIMESTEP; },
+    get stepCount() { return stepCount; },
+    getMetrics: () => getTallyMetrics(tally, {
+      time: stepCount * FIXED_TIMESTEP,
+      clogIndex: getClogIndex(particles, wall),
+      pressureDrop: flow.pressureDrop
+    }),
+    setFlowRate: (value) => { flowRate = value; },
+    setPopulation: (nextDensity, nextMix) => {
+      density = nextDensity;
+      mix = nextMix;
+      particles = resizeParticles(particles, getPopulationCounts(density, mix, detail), random, geometry.inletRadius, sizes);
+    },
+    setSizeDistributions: (value) => {
+      sizes = value;
+      for (const p of particles) assignSize(p, random, sizes);
+      // Old counts describe a different feed
+      tally.sizeCounts = createSizeBinCounts();
+    },
+    setGeometry: (value) => {
+      geometry = value;
+      wall = createRakerWall(geometry);
+    },
+    setDetail: (value) => {
+      if (value === detail) return;
+      detail = value;
+      particles = resizeParticles(particles, getPopulationCounts(density, mix, detail), random, geometry.inletRadius, sizes);
+    },
+    step,
+    advance: clock.advance,
+    reset: (nextSeed) => {
+      if (nextSeed !== undefined) seed = nextSeed;
+      random = createRandom(seed);
+      particles = createParticles(getPopulationCounts(density, mix, detail), random, geometry.inletRadius, sizes);
+      stepCount = 0;
+      clock.reset();
+      tally = createOutletTally();
+      flow = solveFlow(geometry, flowRate);
+    }
+  };
+};
@@ -0,0 +1,39 @@
+import { createFiltrationEngine, FiltrationEngine } from './filtrationEngine';
+import { createParticleFrame, writeParticleFrame } from './particleFrame';
+import { WorkerRequest, WorkerFrame } from './workerEngine';
+
+// Worker entry: runs a filtration engine off the main thread and answers each `advance` with a filled
+// frame in the buffer it was sent. Requests arrive in order, so settings always apply before the next advance.
+
+let engine: FiltrationEngine = createFiltrationEngine();
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'init': engine = createFiltrationEngine(request.options); break;
+    case 'flowRate': engine.setFlowRate(request.value); break;
+    case 'population': engine.setPopulation(request.density, request.mix); break;
+    case 'sizes': engine.setSizeDistributions(request.sizes); break;
+    case 'geometry': engine.setGeometry(request.geometry); break;
+    case 'detail': engine.setDetail(request.detail); break;
+    case 'step': engine.step(); break;
+    case 'reset': engine.reset(request.seed); break;
+    case 'advance': {
+      const started = performance.now();
+      const steps = engine.advance(request.delta);
+      const frame = createParticleFrame(0, request.buffer);
+      writeParticleFrame(frame, engine.particles, true);
+      const reply: WorkerFrame = {
+        type: 'frame',
+        buffer: request.buffer,
+        steps,
+        stepCount: engine.stepCount,
+        time: engine.time,
+        metrics: engine.getMetrics(),
+        stepMs: performance.now() - started
+      };
+      self.postMessage(reply, { transfer: [request.buffer] });
+      break;
+    }
+  }
+};
@@ -0,0 +1,212 @@
+import { FilterGeometry, SectionSettings } from '../types';
+import { Particle, START_Z, END_Z } from './particles';
+import { getConeRadius, getFilterZone, getRakerReach } from './filterGeometry';
+import { WATER } from './contaminants';
+
+// Eulerian view of the particle model: particle velocities near a slicing plane through the filter axis,
+// binned onto a grid and averaged over time. The plane is set by its angle around the axis; in-plane
+// position `s` is signed distance from the axis, so one grid covers both walls of the cone.
+
+export const DEFAULT_SECTION: SectionSettings = {
+  enabled: false,
+  angle: 0,
+  arrows: true,
+  streamlines: true,
+  recirculation: true
+};
+
+// The model is symmetric about the axis, so half a turn shows every plane
+export const SECTION_ANGLE_LIMITS = { min: 0, max: 180, step: 5 };
+
+export const CELL_SIZE = 0.5;
+export const HALF_WIDTH = 5;
+const COLUMNS = Math.round((2 * HALF_WIDTH) / CELL_SIZE);
+const ROWS = Math.round((START_Z - END_Z) / CELL_SIZE);
+// Particles this close to the plane count towards it
+const SLAB_HALF_THICKNESS = 0.5;
+// Time constant (simulated seconds) of the running averages
+const FIELD_WINDOW = 3;
+// Cells with less decayed weight than this are treated as empty
+const MIN_WEIGHT = 2;
+// Solids falling back towards the axis faster than this (units/s) near the rakers mark a recirculation zone
+const RECIRCULATION_SPEED = 0.3;
+// Raker band: from this far inside the raker tips out to the arches
+const RAKER_BAND = 0.5;
+
+export interface FlowCell {
+  s: number;                     // Cell centre: signed distance from the axis in the plane
+  z: number;
+  axial: number;                 // Mean velocity along the axis (units/s), negative downstream
+  radial: number;                // Mean velocity away from the axis; positive is cross-flow out through the wall
+  tangential: number;            // Mean swirl around the axis, out of the plane
+  solidsRadial: number | null;   // Radial velocity of the solids alone; null where none passed
+  samples: number;               // Decayed particle count behind the averages
+  recirculating: boolean;        // Solids turned back from the raker wall towards the core
+}
+
+export interface FlowSummary {
+  meanAxialSpeed: number;        // Sample-weighted mean |axial| over the occupied cells
+  meanRadialSpeed: number;
+  meanTangentialSpeed: number;
+  recirculatingCells: number;
+  occupiedCells: number;
+}
+
+interface CellSums {
+  weight: number;
+  axial: number;
+  inPlane: number;               // Along the plane direction, not yet signed by side of the axis
+  outOfPlane: number;
+  solidsWeight: number;
+  solidsInPlane: number;
+}
+
+const createSums = (): CellSums[] => Array.from({ length: COLUMNS * ROWS }, () => ({
+  weight: 0, axial: 0, inPlane: 0, outOfPlane: 0, solidsWeight: 0, solidsInPlane: 0
+}));
+
+const getColumn = (s: number) => Math.floor((s + HALF_WIDTH) / CELL_SIZE);
+const getRow = (z: number) => Math.floor((START_Z - z) / CELL_SIZE);
+
+export type FlowField = ReturnType<typeof createFlowField>;
+
+export const createFlowField = (initialAngle = 0) => {
+  let angle = initialAngle;
+  let sums = createSums();
+  let lastTime: number | null = null;
+
+  const reset = () => {
+    sums = createSums();
+    lastTime = null;
+  };
+
+  const getMean = (column: number, row: number) => {
+    if (column < 0 || column >= COLUMNS || row < 0 || row >= ROWS) return null;
+    const cell = sums[row * COLUMNS + column];
+    return cell.weight < MIN_WEIGHT ? null : cell;
+  };
+
+  return {
+    get angle() { return angle; },
+    /** Turns the slicing plane; averages from the old plane are dropped. */
+    setAngle: (value: number) => {
+      if (value === angle) return;
+      angle = value;
+      reset();
+    },
+    reset,
+    /** Folds the particles near the plane into the averages; call once per advance with the model's time. */
+    sample: (particles: readonly Particle[], flowRate: number, time: number) => {
+      // A model reset restarts its clock; start the averages over with it
+      if (lastTime !== null && time < lastTime) reset();
+      if (lastTime !== null) {
+        if (time === lastTime) return;
+        const decay = Math.exp(-(time - lastTime) / FIELD_WINDOW);
+        for (const cell of sums) {
+          cell.weight *= decay;
+          cell.axial *= decay;
+          cell.inPlane *= decay;
+          cell.outOfPlane *= decay;
+          cell.solidsWeight *= decay;
+          cell.solidsInPlane *= decay;
+        }
+      }
+      lastTime = time;
+
+      // Particle velocities are per unit of flow; see moveParticle
+      const speed = flowRate * 10;
+      const ux = Math.cos(angle);
+      const uy = Math.sin(angle);
+      for (const p of particles) {
+        const depth = -p.x * uy + p.y * ux;
+        if (Math.abs(depth) > SLAB_HALF_THICKNESS) continue;
+        const column = getColumn(p.x * ux + p.y * uy);
+        const row = getRow(p.z);
+        if (column < 0 || column >= COLUMNS || row < 0 || row >= ROWS) continue;
+        const cell = sums[row * COLUMNS + column];
+        const inPlane = (p.vx * ux + p.vy * uy) * speed;
+        cell.weight++;
+        cell.axial += p.vz * speed;
+        cell.inPlane += inPlane;
+        cell.outOfPlane += (-p.vx * uy + p.vy * ux) * speed;
+        if (p.type !== WATER) {
+          cell.solidsWeight++;
+          cell.solidsInPlane += inPlane;
+        }
+      }
+    },
+    /** Occupied cells, with recirculation judged against the raker wall of `geometry`. */
+    getCells: (geometry: FilterGeometry): FlowCell[] => {
+      const zone = getFilterZone(geometry);
+      const reach = getRakerReach(geometry);
+      const cells: FlowCell[] = [];
+      for (let row = 0; row < ROWS; row++) {
+        for (let column = 0; column < COLUMNS; column++) {
+          const cell = getMean(column, row);
+          if (!cell) continue;
+          const s = -HALF_WIDTH + (column + 0.5) * CELL_SIZE;
+          const z = START_Z - (row + 0.5) * CELL_SIZE;
+          // Outward from the axis is +s on one side of it and -s on the other
+          const side = s < 0 ? -1 : 1;
+          const solidsRadial = cell.solidsWeight >= MIN_WEIGHT ? (side * cell.solidsInPlane) / cell.solidsWeight : null;
+          const coneRadius = getConeRadius(geometry, z);
+          const inRakerBand = z < zone.start && z > zone.end
+            && Math.abs(s) >= coneRadius - reach - RAKER_BAND && Math.abs(s) <= coneRadius;
+          cells.push({
+            s,
+            z,
+            axial: cell.axial / cell.weight,
+            radial: (side * cell.inPlane) / cell.weight,
+            tangential: (side * cell.outOfPlane) / cell.weight,
+            solidsRadial,
+            samples: cell.weight,
+            recirculating: inRakerBand && solidsRadial !== null && solidsRadial < -RECIRCULATION_SPEED
+          });
+        }
+      }
+      return cells;
+    },
+    /**
+     * Follows the averaged in-plane velocity from `seeds` (s positions at the inlet) until it leaves the
+     * occupied cells; returns one polyline of [s, z] points per seed.
+     */
+    traceStreamlines: (seeds: number[], maxPoints = 120): [number, number][][] => seeds.map(seed => {
+      const line: [number, number][] = [];
+      let s = seed;
+      let z = START_Z - CELL_SIZE / 2;
+      for (let i = 0; i < maxPoints; i++) {
+        const cell = getMean(getColumn(s), getRow(z));
+        if (!cell) break;
+        line.push([s, z]);
+        const vs = cell.inPlane / cell.weight;
+        const vz = cell.axial / cell.weight;
+        const magnitude = Math.hypot(vs, vz);
+        if (magnitude < 1e-6) break;
+        // Fixed-length steps of half a cell keep the line smooth whatever the local speed
+        s += (vs / magnitude) * CELL_SIZE * 0.5;
+        z += (vz / magnitude) * CELL_SIZE * 0.5;
+      }
+      return line;
+    })
+  };
+};
+
+export const getFlowSummary = (cells: FlowCell[]): FlowSummary => {
+  let weight = 0;
+  let axial = 0;
+  let radial = 0;
+  let tangential = 0;
+  for (const cell of cells) {
+    weight += cell.samples;
+    axial += Math.abs(cell.axial) * cell.samples;
+    radial += Math.abs(cell.radial) * cell.samples;
+    tangential += Math.abs(cell.tangential) * cell.samples;
+  }
+  return {
+    meanAxialSpeed: weight ? axial / weight : 0,
+    meanRadialSpeed: weight ? radial / weight : 0,
+    meanTangentialSpeed: weight ? tangential / weight : 0,
+    recirculatingCells: cells.filter(c => c.recirculating).length,
+    occupiedCells: cells.length
+  };
+};
@@ -0,0 +1,192 @@
+import { FilterGeometry } from '../types';
+import { START_Z, END_Z } from './particles';
+import { MIN_CONE_RADIUS, getConeRadius, getFilterZone, getRakerGap, getRakerReach } from './filterGeometry';
+import { MM_PER_UNIT } from './particleSizes';
+
+// Lightweight axisymmetric flow through the gill cone. The cone is cut into thin slices, each with one
+// pressure; neighbouring slices are joined by a Poiseuille pipe, slices in the raker zone leak through
+// the slots between the rakers, and the last slice drains into the sludge channel. Mass balance over the
+// slices gives a tridiagonal system, re-solved a few times because slot losses grow with the leak speed.
+// Everything inside is SI; speeds handed to particles are in their own units (scene units per second per
+// unit of flow rate, see moveParticle).
+
+const METERS_PER_UNIT = MM_PER_UNIT / 1000;
+const VISCOSITY = 1e-3;          // Pa·s, water at 20 °C
+const WATER_DENSITY = 1000;      // kg/m³
+// Mean feed speed per unit of flow rate, in particle units; spawned particles start between 0.5 and 1
+const INLET_SPEED = 0.75;
+export const SLICE_LENGTH = 0.5;
+export const SLICE_COUNT = Math.round((START_Z - END_Z) / SLICE_LENGTH);
+// Raker thickness across the slot, scene units
+const RAKER_WIDTH = 0.04;
+// Behind the rakers the water still has to pass the gill filaments: a linear resistance per unit of
+// wall area, Pa per m/s of superficial speed
+const FILAMENT_RESISTANCE = 500;
+// Entry and exit loss of a slot, in dynamic heads of the slot speed
+const SLOT_LOSS = 1.5;
+// The sludge channel behind the cone: a short pipe as wide as the cone's tip, ending in an exit loss
+const OUTLET_LENGTH = 0.5;
+const OUTLET_LOSS = 1;
+// Passes that re-linearize the slot and outlet losses
+const ITERATIONS = 8;
+// Open fraction below which a slice's wall is treated as sealed
+const MIN_OPEN_FRACTION = 1e-3;
+
+export interface FlowSolution {
+  geometry: FilterGeometry;
+  flowRate: number;
+  axialSpeed: Float64Array;      // Plug speed down the cone per slice, particle units
+  wallSpeed: Float64Array;       // Speed out through the raker wall per slice, particle units
+  pressure: Float64Array;        // Pa above the water outside the filter, per slice
+  pressureDrop: number;          // Pa across the raker wall, weighted by what leaks through each slice
+  permeateShare: number;         // Fraction of the feed leaving through the raker wall
+}
+
+export const getSliceIndex = (z: number) =>
+  Math.min(SLICE_COUNT - 1, Math.max(0, Math.floor((START_Z - z) / SLICE_LENGTH)));
+
+/** Depth of the middle of slice `index`. */
+export const getSliceZ = (index: number) => START_Z - (index + 0.5) * SLICE_LENGTH;
+
+/** Resistance per unit area (Pa per m/s of superficial speed) of the raker wall, split into its linear and quadratic parts. */
+const getSlotResistance = (gap: number, depth: number, openFraction: number) => ({
+  // Viscous flow between parallel plates, at the slot speed
+  linear: (12 * VISCOSITY * depth) / (openFraction * gap ** 2),
+  quadratic: (SLOT_LOSS * WATER_DENSITY) / (2 * openFraction ** 2)
+});
+
+/**
+ * Solves the flow through the cone at `flowRate`. `blockage` is the fraction (0-1) of each slice's
+ * open area covered by a cake of solids; it lets the captured solids push back on the water.
+ */
+export const solveFlow = (geometry: FilterGeometry, flowRate: number, blockage?: ArrayLike<number>): FlowSolution => {
+  const zone = getFilterZone(geometry);
+  const depth = getRakerReach(geometry) * METERS_PER_UNIT;
+  // Particle units to m/s
+  const unitSpeed = Math.max(flowRate, 1e-6) * 10 * METERS_PER_UNIT;
+  const radius = Array.from({ length: SLICE_COUNT }, (_, i) => getConeRadius(geometry, getSliceZ(i)) * METERS_PER_UNIT);
+  const faceRadius = Array.from({ length: SLICE_COUNT - 1 }, (_, i) =>
+    getConeRadius(geometry, START_Z - (i + 1) * SLICE_LENGTH) * METERS_PER_UNIT);
+  const inletRadius = getConeRadius(geometry, START_Z) * METERS_PER_UNIT;
+  const inflow = INLET_SPEED * flowRate * 10 * METERS_PER_UNIT * Math.PI * inletRadius ** 2;
+  const length = SLICE_LENGTH * METERS_PER_UNIT;
+
+  // Conductances (m³/s per Pa) between slices, fixed for a given geometry
+  const axial = faceRadius.map(r => (Math.PI * r ** 4) / (8 * VISCOSITY * length));
+  const wallArea = radius.map(r => 2 * Math.PI * r * length);
+  // Wall area still open to the water after the cake, per slice
+  const openArea = wallArea.map((area, i) => area * (1 - (blockage?.[i] ?? 0)));
+  const slots = radius.map((_, i) => {
+    const z = getSliceZ(i);
+    const gap = getRakerGap(geometry, z);
+    if (z >= zone.start || z <= zone.end || gap <= 0 || openArea[i] < MIN_OPEN_FRACTION * wallArea[i]) return null;
+    const slot = getSlotResistance(gap * METERS_PER_UNIT, depth, gap / (gap + RAKER_WIDTH));
+    return { linear: slot.linear + FILAMENT_RESISTANCE, quadratic: slot.quadratic };
+  });
+  const outletRadius = radius[SLICE_COUNT - 1];
+  const outletArea = Math.PI * outletRadius ** 2;
+  const outletLinear = (8 * VISCOSITY * OUTLET_LENGTH * METERS_PER_UNIT) / outletRadius ** 2;
+  const outletQuadratic = (OUTLET_LOSS * WATER_DENSITY) / 2;
+
+  const pressure = new Float64Array(SLICE_COUNT);
+  const leak = new Float64Array(SLICE_COUNT);
+  let outletSpeed = inflow / outletArea;
+  const lower = new Float64Array(SLICE_COUNT);
+  const diagonal = new Float64Array(SLICE_COUNT);
+  const upper = new Float64Array(SLICE_COUNT);
+  const rhs = new Float64Array(SLICE_COUNT);
+
+  for (let pass = 0; pass < ITERATIONS; pass++) {
+    for (let i = 0; i < SLICE_COUNT; i++) {
+      const slot = slots[i];
+      const wall = slot ? openArea[i] / (slot.linear + slot.quadratic * Math.abs(leak[i] / openArea[i])) : 0;
+      lower[i] = i > 0 ? -axial[i - 1] : 0;
+      upper[i] = i < SLICE_COUNT - 1 ? -axial[i] : 0;
+      diagonal[i] = -lower[i] - upper[i] + wall;
+      rhs[i] = i === 0 ? inflow : 0;
+    }
+    diagonal[SLICE_COUNT - 1] += outletArea / (outletLinear + outletQuadratic * outletSpeed);
+
+    // Thomas algorithm
+    for (let i = 1; i < SLICE_COUNT; i++) {
+      const m = lower[i] / diagonal[i - 1];
+      diagonal[i] -= m * upper[i - 1];
+      rhs[i] -= m * rhs[i - 1];
+    }
+    pressure[SLICE_COUNT - 1] = rhs[SLICE_COUNT - 1] / diagonal[SLICE_COUNT - 1];
+    for (let i = SLICE_COUNT - 2; i >= 0; i--) pressure[i] = (rhs[i] - upper[i] * pressure[i + 1]) / diagonal[i];
+
+    // Fresh leak speeds for the next pass, averaged with the last ones to keep the iteration calm
+    for (let i = 0; i < SLICE_COUNT; i++) {
+      const slot = slots[i];
+      const next = slot ? openArea[i] * solveSlotSpeed(slot, pressure[i]) : 0;
+      leak[i] = pass === 0 ? next : (leak[i] + next) / 2;
+    }
+    outletSpeed = solveQuadraticSpeed(outletLinear, outletQuadratic, pressure[SLICE_COUNT - 1]);
+  }
+
+  // Final leaks from the final pressures, and what is left to carry down the cone
+  const axialSpeed = new Float64Array(SLICE_COUNT);
+  const wallSpeed = new Float64Array(SLICE_COUNT);
+  let carried = inflow;
+  let leaked = 0;
+  let weighted = 0;
+  for (let i = 0; i < SLICE_COUNT; i++) {
+    const slot = slots[i];
+    const speed = slot ? solveSlotSpeed(slot, pressure[i]) : 0;
+    const out = Math.min(carried, speed * openArea[i]);
+    // The slice's own speed is taken halfway through its leak
+    axialSpeed[i] = Math.max(0, carried - out / 2) / (Math.PI * radius[i] ** 2) / unitSpeed;
+    wallSpeed[i] = out / wallArea[i] / unitSpeed;
+    carried -= out;
+    leaked += out;
+    weighted += out * Math.max(0, pressure[i]);
+  }
+
+  return {
+    geometry,
+    flowRate,
+    axialSpeed,
+    wallSpeed,
+    pressure,
+    pressureDrop: leaked > 0 ? weighted / leaked : 0,
+    permeateShare: inflow > 0 ? leaked / inflow : 0
+  };
+};
+
+// Positive root of linear·v + quadratic·v² = pressure
+const solveQuadraticSpeed = (linear: number, quadratic: number, pressure: number) => {
+  if (pressure <= 0) return 0;
+  return (2 * pressure) / (linear + Math.sqrt(linear ** 2 + 4 * quadratic * pressure));
+};
+
+const solveSlotSpeed = (slot: { linear: number; quadratic: number }, pressure: number) =>
+  solveQuadraticSpeed(slot.linear, slot.quadratic, pressure);
+
+/** Plug speed down the cone at depth `z`, particle units. Above the first slice the feed just widens into the mouth. */
+export const getAxialSpeed = (flow: FlowSolution, z: number) => {
+  if (z > START_Z) {
+    const ratio = getConeRadius(flow.geometry, START_Z) / getConeRadius(flow.geometry, z);
+    return INLET_SPEED * ratio ** 2;
+  }
+  return flow.axialSpeed[getSliceIndex(z)];
+};
+
+/**
+ * Radial flow speed (outwards positive) at distance `r` from the axis: the water follows the tapering
+ * wall inwards and leaks out through it, both growing linearly from nothing on the axis.
+ */
+export const getRadialSpeed = (flow: FlowSolution, r: number, z: number) => {
+  const coneRadius = getConeRadius(flow.geometry, z);
+  const taper = coneRadius > MIN_CONE_RADIUS ? flow.geometry.coneTaper : 0;
+  const atWall = -getAxialSpeed(flow, z) * taper + (z > START_Z ? 0 : flow.wallSpeed[getSliceIndex(z)]);
+  return (Math.min(r, coneRadius) / coneRadius) * atWall;
+};
+
+/** Pressure drop (Pa) across a mesh screen of `aperture` mm across the whole bore, with `openFraction` of it still open. */
+export const getScreenPressureDrop = (flowRate: number, aperture: number, openFraction: number) => {
+  const speed = INLET_SPEED * flowRate * 10 * METERS_PER_UNIT;
+  // Wires about as thick as the opening; a blinded screen still weeps through its cake
+  const slot = getSlotResistance(aperture / 1000, aperture / 1000, Math.max(MIN_OPEN_FRACTION, openFraction));
+  return slot.linear * speed + slot.quadratic * speed ** 2;
+};
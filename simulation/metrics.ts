@@ -0,0 +1,106 @@
+import { ParticleType, ContaminantType, SeparationStats, FilterMetrics, OutletTotals } from '../types';
+import { CONTAMINANT_TYPES, PARTICLE_TYPES, WATER } from './contaminants';
+
+// Derived filter metrics, computed from outlet counters kept by the engine.
+
+export type OutletCounts = OutletTotals;
+
+// How often (wall-clock seconds) the renderer samples metrics for the UI
+export const METRICS_INTERVAL = 0.5;
+// Rolling chart window: one minute of samples
+export const METRICS_HISTORY_LENGTH = 120;
+
+export const createOutletCounts = (): OutletCounts => {
+  const counts = {} as OutletCounts;
+  for (const type of PARTICLE_TYPES) counts[type] = { permeate: 0, sludge: 0 };
+  return counts;
+};
+
+export const createSludgeMass = (): Record<ContaminantType, number> =>
+  Object.fromEntries(CONTAMINANT_TYPES.map(type => [type, 0])) as Record<ContaminantType, number>;
+
+// Metrics samples outlive the engine's counters, so they get their own copy
+export const copyOutletCounts = (counts: OutletCounts): OutletCounts =>
+  Object.fromEntries(Object.entries(counts).map(([type, c]) => [type, { ...c }])) as OutletCounts;
+
+/** Particles that reached each outlet between two snapshots of the never-decayed totals. */
+export const subtractOutletCounts = (end: OutletCounts, start: OutletCounts): OutletCounts => {
+  const counts = copyOutletCounts(end);
+  for (const [type, c] of Object.entries(counts)) {
+    c.permeate -= start[type]?.permeate ?? 0;
+    c.sludge -= start[type]?.sludge ?? 0;
+  }
+  return counts;
+};
+
+export const createEmptySeparation = (): SeparationStats => {
+  const stats = {} as SeparationStats;
+  for (const type of PARTICLE_TYPES) stats[type] = { permeate: 0, sludge: 0, efficiency: 0 };
+  return stats;
+};
+
+// Water is "separated" when it permeates; solids are separated when they reach the sludge outlet
+const separatedShare = (type: ParticleType, permeate: number, sludge: number) => {
+  const total = permeate + sludge;
+  if (total === 0) return 0;
+  return type === WATER ? permeate / total : sludge / total;
+};
+
+export const getSeparation = (counts: OutletCounts): SeparationStats => {
+  const stats = {} as SeparationStats;
+  for (const type of PARTICLE_TYPES) {
+    const { permeate, sludge } = counts[type];
+    stats[type] = { permeate, sludge, efficiency: separatedShare(type, permeate, sludge) * 100 };
+  }
+  return stats;
+};
+
+const sumSolids = (counts: OutletCounts) => {
+  let permeate = 0;
+  let sludge = 0;
+  for (const type of PARTICLE_TYPES) {
+    if (type === WATER) continue;
+    permeate += counts[type].permeate;
+    sludge += counts[type].sludge;
+  }
+  return { permeate, sludge };
+};
+
+/** Share (%) of all solids sent to the sludge outlet, from per-type separation stats. */
+export const getSolidsCapture = (separation: SeparationStats) => {
+  let permeate = 0;
+  let sludge = 0;
+  for (const [type, stats] of Object.entries(separation)) {
+    if (type === WATER) continue;
+    permeate += stats.permeate;
+    sludge += stats.sludge;
+  }
+  return permeate + sludge > 0 ? (sludge / (permeate + sludge)) * 100 : 0;
+};
+
+/** Newton separation efficiency (0-100): share of solids sent to sludge minus share of water sent to sludge. */
+export const getNewtonEfficiency = (counts: OutletCounts) => {
+  const solids = sumSolids(counts);
+  const water = counts[WATER];
+  const solidsTotal = solids.permeate + solids.sludge;
+  const waterTotal = water.permeate + water.sludge;
+  if (solidsTotal === 0 || waterTotal === 0) return 0;
+  return Math.max(0, (solids.sludge / solidsTotal - water.sludge / waterTotal) * 100);
+};
+
+/** How many times richer in solids the sludge stream is than the feed (1 = no concentration). */
+export const getConcentrationFactor = (counts: OutletCounts) => {
+  const solids = sumSolids(counts);
+  const water = counts[WATER];
+  const sludgeTotal = solids.sludge + water.sludge;
+  const feedTotal = solids.permeate + solids.sludge + water.permeate + water.sludge;
+  const feedSolids = solids.permeate + solids.sludge;
+  if (sludgeTotal === 0 || feedSolids === 0) return 0;
+  return (solids.sludge / sludgeTotal) / (feedSolids / feedTotal);
+};
+
+export const appendMetrics = (history: FilterMetrics[], sample: FilterMetrics): FilterMetrics[] => {
+  const next = history.length >= METRICS_HISTORY_LENGTH ? history.slice(1) : history.slice();
+  next.push(sample);
+  return next;
+};
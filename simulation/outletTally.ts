@@ -0,0 +1,75 @@
+import { ContaminantType, FilterMetrics } from '../types';
+import {
+  OutletCounts,
+  createOutletCounts,
+  copyOutletCounts,
+  createSludgeMass,
+  getSeparation,
+  getNewtonEfficiency,
+  getConcentrationFactor
+} from './metrics';
+import { SizeBinCounts, createSizeBinCounts, countBySize, getCutSizeCurve, getCutSize, getParticleMass } from './particleSizes';
+import { Particle, Outlet, SEPARATION_WINDOW, decayOutletCounts, decaySizeBinCounts } from './particles';
+import { WATER } from './contaminants';
+
+// The counters behind one filter's metrics: decayed outlet counts for the live readouts, size bins for
+// the cut-size curve, and never-decayed totals and sludge mass. Engines keep one per filter; a cascade
+// keeps one per stage and one for the whole train.
+
+export interface OutletTally {
+  counts: OutletCounts;
+  totals: OutletCounts;
+  sizeCounts: SizeBinCounts;
+  sludgeMass: Record<ContaminantType, number>;
+}
+
+export const createOutletTally = (): OutletTally => ({
+  counts: createOutletCounts(),
+  totals: createOutletCounts(),
+  sizeCounts: createSizeBinCounts(),
+  sludgeMass: createSludgeMass()
+});
+
+/** Ages the rolling counters by one fixed step. */
+export const decayOutletTally = (tally: OutletTally) => {
+  decayOutletCounts(tally.counts);
+  decaySizeBinCounts(tally.sizeCounts);
+};
+
+/**
+ * Counts one particle leaving through `outlet`; call before a respawned solid is given a new size.
+ * `weight` is the share of a feed particle it stands for, below 1 when the model runs at a higher detail.
+ */
+export const countOutlet = (tally: OutletTally, p: Particle, outlet: Outlet, weight = 1) => {
+  tally.counts[p.type][outlet] += weight;
+  tally.totals[p.type][outlet] += weight;
+  if (p.type === WATER) return;
+  countBySize(tally.sizeCounts, p.diameter, outlet === 'sludge', weight);
+  if (outlet === 'sludge') tally.sludgeMass[p.type] += getParticleMass(p.diameter, p.density) * weight;
+};
+
+export interface TallyReadings {
+  time: number;
+  clogIndex: number;
+  pressureDrop: number;
+  // Defaults to the sludge-vs-feed ratio of the counts; models without a reject stream pass 0
+  concentrationFactor?: number;
+}
+
+export const getTallyMetrics = (tally: OutletTally, { time, clogIndex, pressureDrop, concentrationFactor }: TallyReadings): FilterMetrics => {
+  const cutSizeCurve = getCutSizeCurve(tally.sizeCounts);
+  return {
+    time,
+    efficiency: getNewtonEfficiency(tally.counts),
+    separation: getSeparation(tally.counts),
+    // Decayed counts approximate events per SEPARATION_WINDOW seconds
+    permeateThroughput: tally.counts[WATER].permeate / SEPARATION_WINDOW,
+    concentrationFactor: concentrationFactor ?? getConcentrationFactor(tally.counts),
+    clogIndex,
+    pressureDrop,
+    cutSizeCurve,
+    d50: getCutSize(cutSizeCurve),
+    totals: copyOutletCounts(tally.totals),
+    sludgeMass: { ...tally.sludgeMass }
+  };
+};
@@ -0,0 +1,150 @@
+import { Particle } from './particles';
+import { CONTAMINANTS, PARTICLE_TYPES, WATER } from './contaminants';
+
+// Draw-ready copy of a particle population: one 4x4 instance matrix per particle, grouped by the
+// instanced mesh that draws it, and optionally each particle's state. Everything lives in a single
+// ArrayBuffer, so a worker can fill one and hand it to the main thread without copying.
+
+// Contaminant meshes in registry order, then water
+export const MESH_COUNT = CONTAMINANTS.length + 1;
+export const WATER_MESH = CONTAMINANTS.length;
+const MATRIX_SIZE = 16;
+// x, y, z, vx, vy, vz, rotationX/Y/Z, rotationSpeed, filtered, diameter, density, arch, ricochets, type
+export const STATE_STRIDE = 16;
+// Particle count, then the instance count of each mesh
+const HEADER_SIZE = 1 + MESH_COUNT;
+const BYTES_PER_PARTICLE = 4 * (MATRIX_SIZE + 1 + STATE_STRIDE);
+
+export interface ParticleFrame {
+  buffer: ArrayBuffer;
+  capacity: number;              // Particles beyond this many are left out
+  header: Int32Array;
+  matrices: Float32Array;        // Instance matrices, column-major, mesh after mesh
+  slots: Int32Array;             // Population index of the particle behind each instance
+  state: Float32Array;           // STATE_STRIDE values per particle, in population order
+}
+
+export const getFrameBytes = (capacity: number) => 4 * HEADER_SIZE + capacity * BYTES_PER_PARTICLE;
+
+/** Views over `buffer`, or over a new buffer sized for `capacity` particles. */
+export const createParticleFrame = (capacity: number, buffer = new ArrayBuffer(getFrameBytes(capacity))): ParticleFrame => {
+  const fitted = Math.floor((buffer.byteLength - 4 * HEADER_SIZE) / BYTES_PER_PARTICLE);
+  let offset = 0;
+  const view = <T>(Type: new (buffer: ArrayBuffer, offset: number, length: number) => T, length: number) => {
+    const array = new Type(buffer, offset, length);
+    offset += 4 * length;
+    return array;
+  };
+  return {
+    buffer,
+    capacity: fitted,
+    header: view(Int32Array, HEADER_SIZE),
+    matrices: view(Float32Array, fitted * MATRIX_SIZE),
+    slots: view(Int32Array, fitted),
+    state: view(Float32Array, fitted * STATE_STRIDE)
+  };
+};
+
+export const getParticleCount = (frame: ParticleFrame) => frame.header[0];
+export const getMeshCount = (frame: ParticleFrame, mesh: number) => frame.header[1 + mesh];
+
+/** Index of the first instance of `mesh` in `matrices` and `slots`. */
+export const getMeshOffset = (frame: ParticleFrame, mesh: number) => {
+  let offset = 0;
+  for (let i = 0; i < mesh; i++) offset += frame.header[1 + i];
+  return offset;
+};
+
+const MESH_INDEX = new Map<string, number>([...CONTAMINANTS.map((c, i) => [c.id, i] as const), [WATER, WATER_MESH]]);
+const TYPE_INDEX = new Map(PARTICLE_TYPES.map((type, i) => [type, i]));
+
+/** Drawn radius: solids relative to their type's default median diameter, the square root keeping the spread readable. */
+export const getDrawScale = (p: Particle, mesh: number) => {
+  if (mesh === WATER_MESH) return p.filtered ? 0.008 : 0.08;
+  const contaminant = CONTAMINANTS[mesh];
+  return contaminant.drawScale * Math.min(2.5, Math.max(0.4, Math.sqrt(p.diameter / contaminant.size.medianDiameter)));
+};
+
+// Same layout as three's Matrix4.compose with an XYZ Euler rotation and a uniform scale
+const writeMatrix = (out: Float32Array, at: number, p: Particle, s: number) => {
+  const o = at * MATRIX_SIZE;
+  if (p.type === WATER) {
+    // Water is drawn as spheres, so its spin is invisible; skip the trigonometry
+    out[o] = s; out[o + 1] = 0; out[o + 2] = 0;
+    out[o + 4] = 0; out[o + 5] = s; out[o + 6] = 0;
+    out[o + 8] = 0; out[o + 9] = 0; out[o + 10] = s;
+  } else {
+    const a = Math.cos(p.rotationX), b = Math.sin(p.rotationX);
+    const c = Math.cos(p.rotationY), d = Math.sin(p.rotationY);
+    const e = Math.cos(p.rotationZ), f = Math.sin(p.rotationZ);
+    const ae = a * e, af = a * f, be = b * e, bf = b * f;
+    out[o] = c * e * s; out[o + 1] = (af + be * d) * s; out[o + 2] = (bf - ae * d) * s;
+    out[o + 4] = -c * f * s; out[o + 5] = (ae - bf * d) * s; out[o + 6] = (be + af * d) * s;
+    out[o + 8] = d * s; out[o + 9] = -b * c * s; out[o + 10] = a * c * s;
+  }
+  out[o + 3] = 0; out[o + 7] = 0; out[o + 11] = 0;
+  out[o + 12] = p.x; out[o + 13] = p.y; out[o + 14] = p.z; out[o + 15] = 1;
+};
+
+const writeState = (out: Float32Array, index: number, p: Particle) => {
+  const o = index * STATE_STRIDE;
+  out[o] = p.x; out[o + 1] = p.y; out[o + 2] = p.z;
+  out[o + 3] = p.vx; out[o + 4] = p.vy; out[o + 5] = p.vz;
+  out[o + 6] = p.rotationX; out[o + 7] = p.rotationY; out[o + 8] = p.rotationZ;
+  out[o + 9] = p.rotationSpeed;
+  out[o + 10] = p.filtered ? 1 : 0;
+  out[o + 11] = p.diameter;
+  out[o + 12] = p.density;
+  out[o + 13] = p.arch ?? -1;
+  out[o + 14] = p.ricochets;
+  out[o + 15] = TYPE_INDEX.get(p.type) ?? 0;
+};
+
+/** Fills `frame` from `particles`; `withState` also copies their state for `readParticleFrame` on the other side. */
+export const writeParticleFrame = (frame: ParticleFrame, particles: readonly Particle[], withState = false) => {
+  const { header, matrices, slots, state } = frame;
+  const count = Math.min(particles.length, frame.capacity);
+  header.fill(0);
+  header[0] = count;
+  // Two passes: count each mesh's instances, then write each particle at its mesh's next slot
+  for (let i = 0; i < count; i++) header[1 + (MESH_INDEX.get(particles[i].type) ?? WATER_MESH)]++;
+  const next = new Array<number>(MESH_COUNT);
+  let offset = 0;
+  for (let mesh = 0; mesh < MESH_COUNT; mesh++) {
+    next[mesh] = offset;
+    offset += header[1 + mesh];
+  }
+  for (let i = 0; i < count; i++) {
+    const p = particles[i];
+    const mesh = MESH_INDEX.get(p.type) ?? WATER_MESH;
+    const at = next[mesh]++;
+    writeMatrix(matrices, at, p, getDrawScale(p, mesh));
+    slots[at] = i;
+    if (withState) writeState(state, i, p);
+  }
+};
+
+/** Updates `particles` in place from a frame written with state, reusing existing objects so references stay valid. */
+export const readParticleFrame = (frame: ParticleFrame, particles: Particle[]) => {
+  const { state } = frame;
+  const count = getParticleCount(frame);
+  for (let i = 0; i < count; i++) {
+    const o = i * STATE_STRIDE;
+    const p = particles[i] ??= {
+      type: WATER, x: 0, y: 0, z: 0, vx: 0, vy: 0, vz: 0,
+      rotationX: 0, rotationY: 0, rotationZ: 0, rotationSpeed: 0,
+      filtered: false, diameter: 0, density: 0, arch: null, ricochets: 0
+    };
+    p.x = state[o]; p.y = state[o + 1]; p.z = state[o + 2];
+    p.vx = state[o + 3]; p.vy = state[o + 4]; p.vz = state[o + 5];
+    p.rotationX = state[o + 6]; p.rotationY = state[o + 7]; p.rotationZ = state[o + 8];
+    p.rotationSpeed = state[o + 9];
+    p.filtered = state[o + 10] === 1;
+    p.diameter = state[o + 11];
+    p.density = state[o + 12];
+    p.arch = state[o + 13] < 0 ? null : state[o + 13];
+    p.ricochets = state[o + 14];
+    p.type = PARTICLE_TYPES[state[o + 15]];
+  }
+  particles.length = count;
+};
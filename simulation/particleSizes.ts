@@ -0,0 +1,122 @@
+import { SizeDistribution, SizeDistributions, CutSizePoint } from '../types';
+import { RandomSource } from './random';
+import type { Particle } from './particles';
+import { CONTAMINANTS, WATER, getContaminant } from './contaminants';
+
+// Physical particle sizes and the size-resolved capture curve built from them.
+// Diameters are in millimetres; one scene unit stands for MM_PER_UNIT millimetres.
+
+export const MM_PER_UNIT = 4;
+
+// Water is the carrier, not a particle: it has no diameter and the density of water
+export const WATER_DENSITY = 1;
+
+export const DEFAULT_SIZE_DISTRIBUTIONS: SizeDistributions = Object.fromEntries(CONTAMINANTS.map(c => [c.id, c.size])) as SizeDistributions;
+
+export const SIZE_LIMITS: Record<keyof SizeDistribution, { min: number; max: number; step: number }> = {
+  medianDiameter: { min: 0.05, max: 3, step: 0.05 },
+  spread: { min: 1.1, max: 3, step: 0.1 },
+  density: { min: 0.8, max: 3, step: 0.05 }
+};
+
+// Draws beyond this many geometric standard deviations are clamped, so one outlier cannot dwarf the scene
+const MAX_SIGMAS = 3;
+
+/** Log-normal draw (Box-Muller) around the distribution's median. */
+export const sampleDiameter = (dist: SizeDistribution, random: RandomSource) => {
+  const u = Math.max(random(), 1e-9);
+  const normal = Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+  const sigmas = Math.max(-MAX_SIGMAS, Math.min(MAX_SIGMAS, normal));
+  return dist.medianDiameter * dist.spread ** sigmas;
+};
+
+/** Gives a solid a fresh diameter and density, within its type's size range; water keeps neither. */
+export const assignSize = (p: Particle, random: RandomSource, sizes: SizeDistributions) => {
+  const contaminant = getContaminant(p.type);
+  if (p.type === WATER || !contaminant) {
+    p.diameter = 0;
+    p.density = WATER_DENSITY;
+    return;
+  }
+  const dist = sizes[p.type] ?? contaminant.size;
+  const { min, max } = contaminant.sizeRange;
+  p.diameter = Math.min(max, Math.max(min, sampleDiameter(dist, random)));
+  p.density = dist.density;
+};
+
+/** Mass in mg of a sphere of `diameter` mm; g/cm³ is the same as mg/mm³. */
+export const getParticleMass = (diameter: number, density: number) => density * (Math.PI / 6) * diameter ** 3;
+
+/** Diameter an opening sees: deformable particles squeeze through narrower gaps. */
+export const getPassingDiameter = (p: Particle) => p.diameter * (1 - (getContaminant(p.type)?.deformability ?? 0));
+
+// --- Raker interception ---
+
+// Stokes number per (g/cm³ · mm² · flow rate unit)
+const STOKES_SCALE = 2.3;
+
+/** Inertia relative to the flow: high-Stokes particles cannot follow the water round the rakers. */
+export const getStokesNumber = (diameter: number, density: number, flowRate: number) =>
+  STOKES_SCALE * density * diameter ** 2 * flowRate;
+
+/**
+ * Chance that a solid meeting the raker wall passes through a gap of `gap` mm instead of ricocheting.
+ * Anything wider than the gap is sieved out; a vanishingly small, inertia-free solid always slips through.
+ */
+export const getSlipChance = (diameter: number, density: number, gap: number, flowRate: number) => {
+  const ratio = diameter / gap;
+  if (ratio >= 1) return 0;
+  return (1 - ratio) ** 2 / (1 + getStokesNumber(diameter, density, flowRate));
+};
+
+// --- Cut-size curve ---
+
+// Log-spaced diameter bins from 0.05 to 4 mm
+export const CUT_SIZE_BIN_EDGES = Array.from({ length: 13 }, (_, i) => 0.05 * 80 ** (i / 12));
+const BIN_COUNT = CUT_SIZE_BIN_EDGES.length - 1;
+
+// Capture per bin needs far more events than the headline metrics, so it is averaged over longer
+export const CUT_SIZE_WINDOW = 30;
+// Bins with fewer decayed events than this are left out of the curve
+const MIN_BIN_SAMPLES = 3;
+
+export type SizeBinCounts = { captured: number; passed: number }[];
+
+export const createSizeBinCounts = (): SizeBinCounts =>
+  Array.from({ length: BIN_COUNT }, () => ({ captured: 0, passed: 0 }));
+
+/** Counts one solid leaving the filter; sizes outside the bin range fall into the end bins. */
+export const countBySize = (counts: SizeBinCounts, diameter: number, captured: boolean, weight = 1) => {
+  const position = Math.log(diameter / CUT_SIZE_BIN_EDGES[0]) / Math.log(CUT_SIZE_BIN_EDGES[1] / CUT_SIZE_BIN_EDGES[0]);
+  const bin = counts[Math.max(0, Math.min(BIN_COUNT - 1, Math.floor(position)))];
+  if (captured) bin.captured += weight;
+  else bin.passed += weight;
+};
+
+export const getCutSizeCurve = (counts: SizeBinCounts): CutSizePoint[] => {
+  const curve: CutSizePoint[] = [];
+  counts.forEach((bin, i) => {
+    const samples = bin.captured + bin.passed;
+    if (samples < MIN_BIN_SAMPLES) return;
+    curve.push({
+      // Geometric bin centre
+      diameter: Math.sqrt(CUT_SIZE_BIN_EDGES[i] * CUT_SIZE_BIN_EDGES[i + 1]),
+      capture: (bin.captured / samples) * 100,
+      samples
+    });
+  });
+  return curve;
+};
+
+/** Diameter captured half the time, interpolated on a log axis; null if the curve never crosses 50%. */
+export const getCutSize = (curve: CutSizePoint[]): number | null => {
+  for (let i = 1; i < curve.length; i++) {
+    const a = curve[i - 1];
+    const b = curve[i];
+    if (a.capture < 50 && b.capture >= 50) {
+      const t = (50 - a.capture) / (b.capture - a.capture);
+      return a.diameter * (b.diameter / a.diameter) ** t;
+    }
+  }
+  return null;
+};
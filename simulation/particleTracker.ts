@@ -0,0 +1,141 @@
+import { ParticleType } from '../types';
+import { Particle, Outlet } from './particles';
+
+// Follows a few hand-picked particles of a live model: records each one's path until it leaves the
+// filter, marks where it bounced off the raker wall, and reads out its state for the inspector.
+
+// One trail color per followed particle
+export const TRACK_COLORS = ['#facc15', '#f472b6', '#a3e635', '#fb923c'];
+export const MAX_TRACKED = TRACK_COLORS.length;
+// About 15 simulated seconds at the fixed timestep, longer than any pass through the filter
+const MAX_TRAIL_POINTS = 900;
+// A particle that moved further than this between samples respawned, i.e. left the filter
+const RESPAWN_JUMP = 2;
+
+export interface TrailPoint {
+  x: number;
+  y: number;
+  z: number;
+}
+
+export interface ParticleReading {
+  type: ParticleType;
+  diameter: number;              // mm, 0 for water
+  density: number;               // g/cm³
+  speed: number;                 // Scene units per simulated second
+  axial: number;                 // Along the axis, negative downstream
+  radial: number;                // Away from the axis, towards the raker wall
+  tangential: number;            // Around the axis
+  filtered: boolean;             // Passed between the rakers and is bound for the permeate
+  arch: number | null;
+  ricochets: number;
+  z: number;
+}
+
+export interface ParticleTrack {
+  id: number;
+  colorIndex: number;            // Into TRACK_COLORS; unique among the current tracks
+  particle: Particle;
+  points: TrailPoint[];
+  ricochetPoints: TrailPoint[];  // Where each bounce off the raker wall happened
+  outlet: Outlet | null;         // Set once it has left the filter; the track then stops following it
+  reading: ParticleReading;      // Live while it is in the filter, its last state once it has left
+}
+
+/** Reads one particle's state; velocities are per unit of flow in the model, so `flowRate` scales them. */
+export const readParticle = (p: Particle, flowRate: number): ParticleReading => {
+  const speed = flowRate * 10;
+  const r = Math.hypot(p.x, p.y);
+  // On the axis any direction is outward; use +x
+  const ux = r > 1e-6 ? p.x / r : 1;
+  const uy = r > 1e-6 ? p.y / r : 0;
+  return {
+    type: p.type,
+    diameter: p.diameter,
+    density: p.density,
+    speed: Math.hypot(p.vx, p.vy, p.vz) * speed,
+    axial: p.vz * speed,
+    radial: (p.vx * ux + p.vy * uy) * speed,
+    tangential: (-p.vx * uy + p.vy * ux) * speed,
+    filtered: p.filtered,
+    arch: p.arch,
+    ricochets: p.ricochets,
+    z: p.z
+  };
+};
+
+const toPoint = (p: Particle): TrailPoint => ({ x: p.x, y: p.y, z: p.z });
+
+export type ParticleTracker = ReturnType<typeof createParticleTracker>;
+
+export const createParticleTracker = () => {
+  let tracks: ParticleTrack[] = [];
+  let hovered: Particle | null = null;
+  let flowRate = 1;
+  let nextId = 1;
+  // Bumped on every change so polling UIs can skip identical frames
+  let version = 0;
+
+  const track = (p: Particle, kept: ParticleTrack[]): ParticleTrack => ({
+    id: nextId++,
+    colorIndex: TRACK_COLORS.findIndex((_, i) => !kept.some(t => t.colorIndex === i)),
+    particle: p,
+    points: [toPoint(p)],
+    ricochetPoints: [],
+    outlet: null,
+    reading: readParticle(p, flowRate)
+  });
+
+  return {
+    get tracks(): readonly ParticleTrack[] { return tracks; },
+    get hovered() { return hovered; },
+    get version() { return version; },
+    /** Reading for any particle at the flow of the last recorded step, e.g. the hovered one. */
+    read: (p: Particle) => readParticle(p, flowRate),
+    hover: (p: Particle | null) => {
+      if (p === hovered) return;
+      hovered = p;
+      version++;
+    },
+    /** Follows `p`, replacing the current selection unless `additive`; picking a followed particle again drops it. */
+    select: (p: Particle, additive: boolean) => {
+      const existing = tracks.find(t => t.particle === p && t.outlet === null);
+      if (existing) tracks = tracks.filter(t => t !== existing);
+      else {
+        // The oldest track makes room when all are taken
+        const kept = additive ? tracks.slice(-(MAX_TRACKED - 1)) : [];
+        tracks = [...kept, track(p, kept)];
+      }
+      version++;
+    },
+    remove: (id: number) => {
+      tracks = tracks.filter(t => t.id !== id);
+      version++;
+    },
+    clear: () => {
+      tracks = [];
+      hovered = null;
+      version++;
+    },
+    /** Extends the followed particles' trails; call once per advance of the live model. */
+    record: (nextFlowRate: number) => {
+      flowRate = nextFlowRate;
+      for (const t of tracks) {
+        if (t.outlet) continue;
+        const p = t.particle;
+        const last = t.points[t.points.length - 1];
+        if (Math.abs(p.z - last.z) > RESPAWN_JUMP || Math.abs(p.x - last.x) > RESPAWN_JUMP) {
+          // It respawned at the inlet as a new particle; the reading keeps its last state in the filter
+          t.outlet = t.reading.filtered ? 'permeate' : 'sludge';
+          continue;
+        }
+        if (p.x === last.x && p.y === last.y && p.z === last.z) continue;
+        if (p.ricochets > t.reading.ricochets) t.ricochetPoints.push(toPoint(p));
+        t.points.push(toPoint(p));
+        if (t.points.length > MAX_TRAIL_POINTS) t.points.shift();
+        t.reading = readParticle(p, flowRate);
+      }
+      if (tracks.length || hovered) version++;
+    }
+  };
+};
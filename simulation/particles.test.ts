@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest';
+import { createFixedStepClock, FIXED_TIMESTEP } from './particles';
+
+const countSteps = (deltas: number[]) => {
+  let steps = 0;
+  const clock = createFixedStepClock(() => { steps++; });
+  for (const delta of deltas) clock.advance(delta);
+  return steps;
+};
+
+describe('createFixedStepClock', () => {
+  it('runs the same steps however the time is split into frames', () => {
+    const total = 120;
+    expect(countSteps(Array(total).fill(FIXED_TIMESTEP))).toBe(total);
+    expect(countSteps(Array(total / 2).fill(2 * FIXED_TIMESTEP))).toBe(total);
+    // Frames of 5.5 steps run five and carry the remainder into the next frame
+    expect(countSteps([5.5 * FIXED_TIMESTEP, 0.5 * FIXED_TIMESTEP])).toBe(6);
+  });
+
+  it('drops the backlog after a stall instead of fast-forwarding', () => {
+    expect(countSteps([60 * FIXED_TIMESTEP, 0])).toBe(5);
+  });
+});
@@ -0,0 +1,185 @@
+import { ParticleType, ContaminantMix, FilterMetrics, SizeDistributions } from '../types';
+import { RandomSource } from './random';
+import { OutletCounts } from './metrics';
+import { DEFAULT_SIZE_DISTRIBUTIONS, CUT_SIZE_WINDOW, SizeBinCounts, assignSize } from './particleSizes';
+import { PARTICLE_TYPES, WATER } from './contaminants';
+
+// Particle primitives shared by every headless filter model.
+
+// Simulation bounds
+export const START_Z = 10;
+export const END_Z = -15;
+
+export const FIXED_TIMESTEP = 1 / 60;
+const MAX_STEPS_PER_ADVANCE = 5;
+
+// Time constant (simulated seconds) of the rolling outlet counters behind the live metrics
+export const SEPARATION_WINDOW = 5;
+const SEPARATION_DECAY = Math.exp(-FIXED_TIMESTEP / SEPARATION_WINDOW);
+const CUT_SIZE_DECAY = Math.exp(-FIXED_TIMESTEP / CUT_SIZE_WINDOW);
+
+export const DEFAULT_SEED = 1337;
+export const DEFAULT_DENSITY = 300;
+
+export interface Particle {
+  type: ParticleType;
+  x: number;
+  y: number;
+  z: number;
+  vx: number;
+  vy: number;
+  vz: number;
+  rotationX: number;
+  rotationY: number;
+  rotationZ: number;
+  rotationSpeed: number;
+  filtered: boolean;
+  diameter: number;   // mm, 0 for water
+  density: number;    // g/cm³
+  arch: number | null;   // Index of the arch it last struck or slipped past; null since it spawned
+  ricochets: number;     // Bounces off the raker wall since it spawned
+}
+
+export type Outlet = 'permeate' | 'sludge';
+
+/** What the renderer and the metrics pipeline need from any filter model. */
+export interface FilterModel {
+  readonly particles: readonly Particle[];
+  /** Simulated seconds since the last reset. */
+  readonly time: number;
+  readonly stepCount: number;
+  /** Live metrics over the last few simulated seconds. */
+  getMetrics: () => FilterMetrics;
+  setFlowRate: (flowRate: number) => void;
+  /** Grows or shrinks the live population in place; surviving particles keep their state. */
+  setPopulation: (density: number, mix: ContaminantMix) => void;
+  /** Redraws every solid's size and density from the new distributions. */
+  setSizeDistributions: (sizes: SizeDistributions) => void;
+  /** Advances the model by exactly one fixed timestep. */
+  step: () => void;
+  /** Accumulates wall-clock time and runs as many fixed steps as fit; returns the number of steps run. */
+  advance: (delta: number) => number;
+  reset: (seed?: number) => void;
+}
+
+export const spawn = (p: Particle, random: RandomSource, depthSpread: number, inletRadius: number) => {
+  // Even over the inlet's area, like a well-mixed feed, so each particle carries an equal share of the flow
+  const radius = Math.sqrt(random()) * inletRadius;
+  const angle = random() * Math.PI * 2;
+  p.x = Math.cos(angle) * radius;
+  p.y = Math.sin(angle) * radius;
+  p.z = START_Z + random() * depthSpread;
+  p.vx = (random() - 0.5) * 0.1;
+  p.vy = (random() - 0.5) * 0.1;
+  p.vz = -(0.5 + random() * 0.5);
+  p.filtered = false;
+  p.arch = null;
+  p.ricochets = 0;
+};
+
+export const createParticle = (
+  type: ParticleType,
+  random: RandomSource,
+  inletRadius: number,
+  sizes: SizeDistributions = DEFAULT_SIZE_DISTRIBUTIONS
+): Particle => {
+  const p: Particle = {
+    type,
+    x: 0, y: 0, z: 0,
+    vx: 0, vy: 0, vz: 0,
+    rotationX: random(),
+    rotationY: random(),
+    rotationZ: random(),
+    rotationSpeed: random() * 0.1,
+    filtered: false,
+    diameter: 0,
+    density: 0,
+    arch: null,
+    ricochets: 0
+  };
+  spawn(p, random, 20, inletRadius);
+  assignSize(p, random, sizes);
+  return p;
+};
+
+export const createParticles = (
+  counts: Record<ParticleType, number>,
+  random: RandomSource,
+  inletRadius: number,
+  sizes: SizeDistributions = DEFAULT_SIZE_DISTRIBUTIONS
+): Particle[] => {
+  const items: Particle[] = [];
+  for (const type of PARTICLE_TYPES) {
+    for (let i = 0; i < counts[type]; i++) items.push(createParticle(type, random, inletRadius, sizes));
+  }
+  return items;
+};
+
+/** Returns the population resized to `counts`, keeping existing particles (and their state) where possible. */
+export const resizeParticles = (
+  particles: Particle[],
+  counts: Record<ParticleType, number>,
+  random: RandomSource,
+  inletRadius: number,
+  sizes: SizeDistributions = DEFAULT_SIZE_DISTRIBUTIONS
+): Particle[] => {
+  const seen: Partial<Record<ParticleType, number>> = {};
+  const next: Particle[] = [];
+  for (const p of particles) {
+    seen[p.type] = (seen[p.type] ?? 0) + 1;
+    if (seen[p.type] <= counts[p.type]) next.push(p);
+  }
+  for (const type of PARTICLE_TYPES) {
+    for (let i = seen[type] ?? 0; i < counts[type]; i++) next.push(createParticle(type, random, inletRadius, sizes));
+  }
+  return next;
+};
+
+/** Moves a particle along its velocity and spins solids; each model applies its own walls afterwards. */
+export const moveParticle = (p: Particle, flowRate: number) => {
+  // 1. Move Forward
+  const speedMultiplier = flowRate * 10 * FIXED_TIMESTEP;
+  p.x += p.vx * speedMultiplier;
+  p.y += p.vy * speedMultiplier;
+  p.z += p.vz * speedMultiplier;
+
+  // 2. Rotate
+  if (p.type !== WATER) {
+    p.rotationX += p.rotationSpeed;
+    p.rotationY += p.rotationSpeed;
+  }
+};
+
+export const decayOutletCounts = (counts: OutletCounts) => {
+  for (const c of Object.values(counts)) {
+    c.permeate *= SEPARATION_DECAY;
+    c.sludge *= SEPARATION_DECAY;
+  }
+};
+
+export const decaySizeBinCounts = (counts: SizeBinCounts) => {
+  for (const bin of counts) {
+    bin.captured *= CUT_SIZE_DECAY;
+    bin.passed *= CUT_SIZE_DECAY;
+  }
+};
+
+/** Fixed-timestep accumulator: turns variable frame deltas into whole calls to `step`. */
+export const createFixedStepClock = (step: () => void) => {
+  let accumulator = 0;
+  return {
+    advance: (delta: number) => {
+      accumulator += delta;
+      let steps = 0;
+      while (accumulator >= FIXED_TIMESTEP && steps < MAX_STEPS_PER_ADVANCE) {
+        step();
+        accumulator -= FIXED_TIMESTEP;
+        steps++;
+      }
+      // Drop backlog after a long stall (e.g. a hidden tab) instead of fast-forwarding; a remainder under one step carries over
+      if (accumulator >= FIXED_TIMESTEP) accumulator = 0;
+      return steps;
+    },
+    reset: () => { accumulator = 0; }
+  };
+};
@@ -0,0 +1,84 @@
+import { ParticleType, ContaminantType, ContaminantMix } from '../types';
+import { CONTAMINANT_TYPES, WATER } from './contaminants';
+
+// Water carriers are a fixed backdrop; `particleDensity` sets the number of contaminant particles
+export const COUNT_WATER = 500;
+export const MAX_CONTAMINANTS = 1000;
+
+export interface ContaminantPreset {
+  id: string;
+  label: string;
+  mix: ContaminantMix;
+}
+
+export const CONTAMINANT_PRESETS: ContaminantPreset[] = [
+  {
+    id: 'balanced',
+    label: 'Balanced',
+    mix: { MICROPLASTIC: 1, ALGAE: 1, SEDIMENT: 1 }
+  },
+  {
+    id: 'microfiber',
+    label: 'Heavy Microfiber',
+    mix: { MICROPLASTIC: 0.7, ALGAE: 0.15, SEDIMENT: 0.15 }
+  },
+  {
+    id: 'sandy',
+    label: 'Sandy Runoff',
+    mix: { MICROPLASTIC: 0.1, ALGAE: 0.15, SEDIMENT: 0.75 }
+  },
+  {
+    id: 'bloom',
+    label: 'Algal Bloom',
+    mix: { MICROPLASTIC: 0.1, ALGAE: 0.75, SEDIMENT: 0.15 }
+  },
+  {
+    id: 'road-runoff',
+    label: 'Road Runoff',
+    mix: { TIRE_WEAR: 0.5, SEDIMENT: 0.35, MICROPLASTIC: 0.15 }
+  },
+  {
+    id: 'hatchery',
+    label: 'Fish Hatchery',
+    mix: { FISH_EGG: 0.4, ALGAE: 0.6 }
+  },
+  {
+    id: 'bilge',
+    label: 'Oily Bilge',
+    mix: { OIL: 0.6, SEDIMENT: 0.25, MICROPLASTIC: 0.15 }
+  }
+];
+
+/** Weight of one contaminant in a mix; types a mix does not mention weigh 0. */
+export const getMixWeight = (mix: ContaminantMix, type: ContaminantType) => Math.max(0, mix[type] ?? 0);
+
+export const DEFAULT_MIX = CONTAMINANT_PRESETS[0].mix;
+
+/**
+ * Splits `density` contaminant particles across types by mix weight (largest remainder, so counts sum exactly).
+ * `detail` multiplies the whole population, water included, for finer or coarser sampling of the same feed.
+ */
+export const getPopulationCounts = (density: number, mix: ContaminantMix, detail = 1): Record<ParticleType, number> => {
+  const total = Math.max(0, Math.round(Math.min(MAX_CONTAMINANTS, Math.round(density)) * detail));
+  const weightSum = CONTAMINANT_TYPES.reduce((sum, type) => sum + getMixWeight(mix, type), 0);
+
+  const counts = { [WATER]: Math.round(COUNT_WATER * detail) } as Record<ParticleType, number>;
+  if (weightSum === 0) {
+    for (const type of CONTAMINANT_TYPES) counts[type] = 0;
+    return counts;
+  }
+
+  const exact = CONTAMINANT_TYPES.map(type => (getMixWeight(mix, type) / weightSum) * total);
+  let assigned = 0;
+  CONTAMINANT_TYPES.forEach((type, i) => {
+    counts[type] = Math.floor(exact[i]);
+    assigned += counts[type];
+  });
+
+  const byRemainder = CONTAMINANT_TYPES
+    .map((type, i) => ({ type, remainder: exact[i] - counts[type] }))
+    .sort((a, b) => b.remainder - a.remainder);
+  for (let i = 0; i < total - assigned; i++) counts[byRemainder[i].type]++;
+
+  return counts;
+};
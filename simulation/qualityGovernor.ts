@@ -0,0 +1,80 @@
+import { PerformanceSettings } from '../types';
+import { COUNT_WATER, MAX_CONTAMINANTS } from './population';
+
+// Adaptive quality: watches the frame time and steps the particle detail down a level while it stays
+// slow, then back up towards the chosen detail once there is headroom again.
+
+// Particles per feed particle; 1 is the classic 500 water + up to 1000 contaminants
+export const DETAIL_LEVELS = [0.25, 0.5, 1, 2, 5, 10, 20];
+
+export const DEFAULT_PERFORMANCE: PerformanceSettings = {
+  thread: 'main',
+  detail: 1,
+  adaptive: true
+};
+
+// Largest population at a detail: the most particles the renderer and frame buffers must hold
+export const getPopulationCapacity = (detail: number) => Math.ceil((COUNT_WATER + MAX_CONTAMINANTS) * detail);
+
+// Step down below this frame rate, step up above the second one
+const SLOW_FPS = 45;
+const FAST_FPS = 57;
+// How long (seconds) the frame rate must stay slow or fast before the detail changes
+const DOWNGRADE_SECONDS = 2;
+const UPGRADE_SECONDS = 8;
+// Going back up to the level last stepped down from waits this much longer, so a borderline device settles
+const RETRY_FACTOR = 4;
+// Time constant (seconds) of the smoothed frame time
+const SMOOTHING = 0.5;
+// Longer frames are stalls (a hidden tab, a GC pause), not load
+const MAX_FRAME_SECONDS = 0.25;
+
+export type QualityGovernor = ReturnType<typeof createQualityGovernor>;
+
+export const createQualityGovernor = () => {
+  let frameSeconds = 1 / 60;
+  // Index into DETAIL_LEVELS of the current cap; null until the first sample
+  let level: number | null = null;
+  let slowFor = 0;
+  let fastFor = 0;
+  let tooSlow: number | null = null;
+
+  return {
+    get fps() { return 1 / frameSeconds; },
+    /**
+     * Folds in one frame's duration (the longer of the render and the simulation time) and returns the
+     * detail to run at, never above `maxDetail`. Without `adjust` (e.g. while paused) it only measures.
+     */
+    sample: (seconds: number, maxDetail: number, adjust = true) => {
+      const top = Math.max(0, DETAIL_LEVELS.filter(d => d <= maxDetail).length - 1);
+      level = Math.min(level ?? top, top);
+      if (seconds > MAX_FRAME_SECONDS) return DETAIL_LEVELS[level];
+      frameSeconds += (seconds - frameSeconds) * Math.min(1, seconds / SMOOTHING);
+      if (!adjust) {
+        slowFor = 0;
+        fastFor = 0;
+        return DETAIL_LEVELS[level];
+      }
+
+      const fps = 1 / frameSeconds;
+      slowFor = fps < SLOW_FPS ? slowFor + seconds : 0;
+      fastFor = fps > FAST_FPS ? fastFor + seconds : 0;
+      if (slowFor >= DOWNGRADE_SECONDS && level > 0) {
+        tooSlow = level;
+        level--;
+        slowFor = 0;
+      } else if (level < top && fastFor >= UPGRADE_SECONDS * (level + 1 === tooSlow ? RETRY_FACTOR : 1)) {
+        level++;
+        fastFor = 0;
+      }
+      return DETAIL_LEVELS[level];
+    },
+    /** Forgets the stepped-down level, e.g. when the user picks a detail again. */
+    reset: () => {
+      level = null;
+      tooSlow = null;
+      slowFor = 0;
+      fastFor = 0;
+    }
+  };
+};
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { SimulationState } from '../types';
+import { createFiltrationEngine } from './filtrationEngine';
+import { createEmptySeparation } from './metrics';
+import { DEFAULT_SIZE_DISTRIBUTIONS } from './particleSizes';
+import { FABRIC_TYPES, WASH_PROGRAMS, advanceWashCycle, startWashCycle } from './washCycle';
+import { QUIZ_QUESTIONS, QuizRun, advanceQuizRun, startQuizRun, stopQuizRun } from './quiz';
+
+const question = QUIZ_QUESTIONS[0];
+const { geometry, ...baseline } = question.baseline;
+
+const simulationState: SimulationState = {
+  flowRate: baseline.flowRate,
+  particleDensity: baseline.particleDensity,
+  efficiency: 0,
+  isRunning: true,
+  separation: createEmptySeparation(),
+  contaminantMix: baseline.contaminantMix,
+  particleSizes: DEFAULT_SIZE_DISTRIBUTIONS
+};
+
+describe('quiz runs', () => {
+  it('settle once the baseline settings are in place', () => {
+    const engine = createFiltrationEngine({ seed: 4, ...baseline, geometry });
+    let run = startQuizRun(question, 'same');
+    for (let i = 0; i < 5 * 60; i++) {
+      engine.step();
+      run = advanceQuizRun(run, engine.getMetrics(), { simulationState, geometry });
+    }
+    expect(run.settledFrom).not.toBeNull();
+    expect(run.progress).toBeGreaterThan(0);
+  });
+
+  it('stall while a wash cycle drives the flow and load, so starting one ends the quiz', () => {
+    const engine = createFiltrationEngine({ seed: 4, ...baseline, geometry });
+    let run = startQuizRun(question, 'same');
+    let cycle = startWashCycle(WASH_PROGRAMS[0], FABRIC_TYPES[0], engine.getMetrics());
+    for (let i = 0; i < 40 * 60; i++) {
+      engine.step();
+      if (i % 15) continue;
+      const metrics = engine.getMetrics();
+      cycle = advanceWashCycle(cycle, metrics);
+      const { flowRate, particleDensity } = cycle.state;
+      run = advanceQuizRun(run, metrics, { simulationState: { ...simulationState, flowRate, particleDensity }, geometry });
+    }
+    expect(run.stage).toBe('baseline');
+    expect(run.progress).toBe(0);
+    expect(stopQuizRun(run)).toBeNull();
+  });
+
+  it('keep a graded run on show when something else takes over', () => {
+    const graded: QuizRun = { ...startQuizRun(question, 'same'), stage: 'done', outcome: 'same' };
+    expect(stopQuizRun(graded)).toBe(graded);
+    expect(stopQuizRun(null)).toBeNull();
+  });
+});
@@ -0,0 +1,250 @@
+import { ContaminantMix, ContaminantType, FilterGeometry, FilterMetrics, SimulationState } from '../types';
+import { CONTAMINANT_PRESETS } from './population';
+import { GEOMETRY_PRESETS } from './filterGeometry';
+import { getContaminant, WATER } from './contaminants';
+import { OutletCounts, subtractOutletCounts, getNewtonEfficiency, getSeparation, getSolidsCapture } from './metrics';
+
+// Prediction quizzes graded by the live simulation: the learner predicts how a metric will move, the
+// quiz measures it at a starting setup, the learner makes the change, and the quiz measures it again.
+// Each measurement counts every particle that left during a fixed window of simulated time, like a sweep
+// point, so the grade rests on what the particle system did rather than on the decayed chart rates.
+
+export type QuizPrediction = 'increase' | 'decrease' | 'same';
+
+export const QUIZ_PREDICTIONS: { id: QuizPrediction; label: string }[] = [
+  { id: 'increase', label: 'It goes up' },
+  { id: 'same', label: 'It stays about the same' },
+  { id: 'decrease', label: 'It goes down' }
+];
+
+export type QuizMetricId = 'efficiency' | 'solidsCapture' | 'waterRecovery' | 'typeCapture' | 'permeateThroughput' | 'pressureDrop';
+
+// Settings a question starts from or asks for; anything left out is not checked
+export interface QuizSettings {
+  flowRate?: number;
+  particleDensity?: number;
+  contaminantMix?: ContaminantMix;
+  geometry?: FilterGeometry;
+}
+
+export interface QuizQuestion {
+  id: string;
+  prompt: string;
+  metric: QuizMetricId;
+  contaminant?: ContaminantType;   // The solid whose capture `typeCapture` measures
+  baseline: QuizSettings;
+  change: QuizSettings;
+  instruction: string;             // How to make the change with the controls
+  explanation: string;             // The physics, shown once the answer is graded
+}
+
+interface QuizMetricDefinition {
+  label: string;
+  unit: string;
+  // Changes within this band count as "about the same"; points for percentages, a fraction of the baseline otherwise
+  tolerance: number;
+  relative?: boolean;
+  read: (window: MeasuredWindow, question: QuizQuestion) => number;
+}
+
+// What a finished measurement window saw
+interface MeasuredWindow {
+  counts: OutletCounts;          // Particles per outlet during the window
+  seconds: number;
+  pressureDrop: number;          // Mean of the window's samples
+}
+
+const QUIZ_METRICS: Record<QuizMetricId, QuizMetricDefinition> = {
+  efficiency: { label: 'separation efficiency', unit: '%', tolerance: 2.5, read: w => getNewtonEfficiency(w.counts) },
+  solidsCapture: { label: 'solids capture', unit: '%', tolerance: 2.5, read: w => getSolidsCapture(getSeparation(w.counts)) },
+  waterRecovery: { label: 'water recovery', unit: '%', tolerance: 2.5, read: w => getSeparation(w.counts)[WATER].efficiency },
+  typeCapture: {
+    label: 'capture',
+    unit: '%',
+    tolerance: 2.5,
+    read: (w, q) => q.contaminant ? getSeparation(w.counts)[q.contaminant]?.efficiency ?? 0 : 0
+  },
+  permeateThroughput: { label: 'permeate throughput', unit: '/s', tolerance: 0.1, relative: true, read: w => w.counts[WATER].permeate / w.seconds },
+  pressureDrop: { label: 'pressure drop', unit: 'Pa', tolerance: 0.1, relative: true, read: w => w.pressureDrop }
+};
+
+/** Name of the metric a question asks about, e.g. "sediment capture". */
+export const getQuizMetricLabel = (question: QuizQuestion) => {
+  const { label } = QUIZ_METRICS[question.metric];
+  const contaminant = question.contaminant && getContaminant(question.contaminant);
+  return contaminant ? `${contaminant.label.toLowerCase()} ${label}` : label;
+};
+
+export const formatQuizValue = (question: QuizQuestion, value: number) => {
+  const { unit } = QUIZ_METRICS[question.metric];
+  return unit === '%' ? `${value.toFixed(1)}%` : `${value.toFixed(1)} ${unit}`;
+};
+
+const mix = (id: string) => CONTAMINANT_PRESETS.find(p => p.id === id)!.mix;
+const BASKING_SHARK = GEOMETRY_PRESETS.find(p => p.id === 'basking-shark')!.geometry;
+const PADDLEFISH = GEOMETRY_PRESETS.find(p => p.id === 'paddlefish')!.geometry;
+
+// Expected outcomes were checked against the engine over several seeds, well clear of the tolerance band
+export const QUIZ_QUESTIONS: QuizQuestion[] = [
+  {
+    id: 'sediment-double-flow',
+    prompt: 'Sandy runoff is flowing through the basking-shark filter at 1×. What happens to sediment capture if you double the flow?',
+    metric: 'typeCapture',
+    contaminant: 'SEDIMENT',
+    baseline: { flowRate: 1, particleDensity: 300, contaminantMix: mix('sandy'), geometry: BASKING_SHARK },
+    change: { flowRate: 2 },
+    instruction: 'Set Flow Velocity to 2.0x.',
+    explanation: 'Sand grains are dense and heavy, so they cannot make the sharp turn into the slots and keep sliding towards the sludge outlet at either speed. Doubling the flow doubles the clean water coming out while the capture of heavy solids barely moves: cross-flow scales up without giving up separation.'
+  },
+  {
+    id: 'pressure-triple-flow',
+    prompt: 'What happens to the pressure drop across the raker wall if you triple the flow?',
+    metric: 'pressureDrop',
+    baseline: { flowRate: 1, particleDensity: 300, contaminantMix: mix('balanced'), geometry: BASKING_SHARK },
+    change: { flowRate: 3 },
+    instruction: 'Set Flow Velocity to 3.0x.',
+    explanation: 'Pushing more water through the same slots takes more pressure: the viscous loss grows with the slot speed and the entry loss with its square. A fish pays for fast swimming with a harder push through its gills.'
+  },
+  {
+    id: 'efficiency-slow-flow',
+    prompt: 'What happens to the separation efficiency if you slow the flow right down to 0.3×?',
+    metric: 'efficiency',
+    baseline: { flowRate: 1, particleDensity: 300, contaminantMix: mix('balanced'), geometry: BASKING_SHARK },
+    change: { flowRate: 0.3 },
+    instruction: 'Set Flow Velocity to 0.3x.',
+    explanation: 'Cross-flow needs flow along the wall. Too slow, and nothing sweeps the rakers: solids settle against them, more get pushed through the slots, and the sludge stream carries more water with it.'
+  },
+  {
+    id: 'algae-more-rakers',
+    prompt: 'What happens to algae capture if you double the rakers on each arch from 16 to 32?',
+    metric: 'typeCapture',
+    contaminant: 'ALGAE',
+    baseline: { flowRate: 1, particleDensity: 300, contaminantMix: mix('balanced'), geometry: BASKING_SHARK },
+    change: { geometry: { ...BASKING_SHARK, rakerCount: 32 } },
+    instruction: 'In the Gill Raker Designer, set Rakers / Arch to 32 and leave the rest alone.',
+    explanation: 'Twice the rakers halve the gaps between them. Small, soft algae that slipped through the wider slots are now held back, while water still passes easily.'
+  },
+  {
+    id: 'water-paddlefish',
+    prompt: 'What happens to water recovery if you swap the basking-shark gills for the paddlefish layout?',
+    metric: 'waterRecovery',
+    baseline: { flowRate: 1, particleDensity: 300, contaminantMix: mix('balanced'), geometry: BASKING_SHARK },
+    change: { geometry: PADDLEFISH },
+    instruction: 'In the Gill Raker Designer, pick the Paddlefish preset.',
+    explanation: 'The paddlefish packs long, dense rakers onto each arch. Their narrow slots resist the water more, so more of it is still inside the cone when it reaches the sludge outlet. It catches more solids but loses more water with them: a trade-off, not a free win.'
+  }
+];
+
+export const getQuizQuestion = (id: string) => QUIZ_QUESTIONS.find(q => q.id === id);
+
+// --- Settings ---
+
+// The flow slider moves in steps of 0.1
+const FLOW_TOLERANCE = 0.05;
+
+export interface QuizSettingsState {
+  simulationState: SimulationState;
+  geometry: FilterGeometry;
+}
+
+/** Whether the simulation currently runs with every setting `settings` names. */
+export const matchesQuizSettings = (settings: QuizSettings, { simulationState, geometry }: QuizSettingsState) =>
+  (settings.flowRate === undefined || Math.abs(simulationState.flowRate - settings.flowRate) <= FLOW_TOLERANCE) &&
+  (settings.particleDensity === undefined || simulationState.particleDensity === settings.particleDensity) &&
+  (settings.contaminantMix === undefined || simulationState.contaminantMix === settings.contaminantMix) &&
+  (settings.geometry === undefined || (Object.keys(settings.geometry) as (keyof FilterGeometry)[])
+    .every(key => geometry[key] === settings.geometry![key]));
+
+// --- Runs ---
+
+// Simulated seconds given to the filter to settle after the settings change, then measured
+export const QUIZ_WARMUP_SECONDS = 10;
+export const QUIZ_MEASURE_SECONDS = 20;
+
+// The two measurements: at the starting setup, then once the learner has made the change
+export type QuizStage = 'baseline' | 'changed' | 'done';
+
+export interface QuizRun {
+  question: QuizQuestion;
+  prediction: QuizPrediction;
+  stage: QuizStage;
+  settledFrom: number | null;    // Engine time the stage's settings were first in place; null while they are not
+  start: FilterMetrics | null;   // First sample of the measured window, once warm-up is over
+  pressureDrop: number;          // Sum and count of the window's samples
+  samples: number;
+  progress: number;              // 0-1 through the current stage's warm-up and window
+  baseline: number | null;
+  changed: number | null;
+  outcome: QuizPrediction | null;
+}
+
+export const startQuizRun = (question: QuizQuestion, prediction: QuizPrediction): QuizRun => ({
+  question,
+  prediction,
+  stage: 'baseline',
+  settledFrom: null,
+  start: null,
+  pressureDrop: 0,
+  samples: 0,
+  progress: 0,
+  baseline: null,
+  changed: null,
+  outcome: null
+});
+
+/** How the measured change grades: within the metric's tolerance band it is "about the same". */
+export const getQuizOutcome = (question: QuizQuestion, baseline: number, changed: number): QuizPrediction => {
+  const metric = QUIZ_METRICS[question.metric];
+  const tolerance = metric.relative ? Math.abs(baseline) * metric.tolerance : metric.tolerance;
+  const delta = changed - baseline;
+  if (Math.abs(delta) <= tolerance) return 'same';
+  return delta > 0 ? 'increase' : 'decrease';
+};
+
+const restartStage = (run: QuizRun): QuizRun => ({ ...run, settledFrom: null, start: null, pressureDrop: 0, samples: 0, progress: 0 });
+
+/** Starts the current stage's warm-up over, e.g. when a different engine takes over mid-measurement. */
+export const restartQuizStage = (run: QuizRun): QuizRun => run.stage === 'done' ? run : restartStage(run);
+
+/**
+ * Ends a run whose settings something else (a wash cycle, a tour step) is taking over, since it could
+ * never measure them again; a graded run stays on show.
+ */
+export const stopQuizRun = (run: QuizRun | null): QuizRun | null => run && run.stage !== 'done' ? null : run;
+
+/**
+ * Moves a run on with the latest metrics sample. A stage only counts time while its settings are in
+ * place; changing them mid-measurement, or an engine restart, starts that stage's warm-up over.
+ */
+export const advanceQuizRun = (run: QuizRun, metrics: FilterMetrics, state: QuizSettingsState): QuizRun => {
+  if (run.stage === 'done') return run;
+  const settings = run.stage === 'baseline' ? run.question.baseline : { ...run.question.baseline, ...run.question.change };
+  if (!matchesQuizSettings(settings, state) || (run.settledFrom !== null && metrics.time < run.settledFrom)) {
+    return run.settledFrom === null ? run : restartStage(run);
+  }
+  const settledFrom = run.settledFrom ?? metrics.time;
+  const elapsed = metrics.time - settledFrom;
+  const progress = Math.min(1, elapsed / (QUIZ_WARMUP_SECONDS + QUIZ_MEASURE_SECONDS));
+  if (elapsed < QUIZ_WARMUP_SECONDS) return { ...run, settledFrom, progress };
+  if (!run.start) return { ...run, settledFrom, progress, start: metrics, pressureDrop: metrics.pressureDrop, samples: 1 };
+
+  const measuring = { ...run, settledFrom, progress, pressureDrop: run.pressureDrop + metrics.pressureDrop, samples: run.samples + 1 };
+  const seconds = metrics.time - run.start.time;
+  if (seconds < QUIZ_MEASURE_SECONDS) return measuring;
+
+  const value = QUIZ_METRICS[run.question.metric].read({
+    counts: subtractOutletCounts(metrics.totals, run.start.totals),
+    seconds,
+    pressureDrop: measuring.pressureDrop / measuring.samples
+  }, run.question);
+  if (run.stage === 'baseline') return { ...restartStage(run), stage: 'changed', baseline: value };
+  return {
+    ...measuring,
+    stage: 'done',
+    progress: 1,
+    changed: value,
+    outcome: getQuizOutcome(run.question, run.baseline!, value)
+  };
+};
+
+export const isQuizAnswerCorrect = (run: QuizRun) => run.outcome !== null && run.outcome === run.prediction;
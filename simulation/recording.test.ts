@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { FilterModel, Particle, FIXED_TIMESTEP } from './particles';
+import { WATER } from './contaminants';
+import { createRunRecorder, MAX_RECORD_BYTES, MAX_RECORD_SECONDS, RECORD_FRAME_RATE } from './recording';
+
+// Only what the recorder reads: particles, the clock and metrics
+const createModel = (particleCount: number) => {
+  const particles = Array.from({ length: particleCount }, () => ({ type: WATER, x: 0, y: 0, z: 0, filtered: false, diameter: 0 }) as Particle);
+  let time = 0;
+  return {
+    particles,
+    get time() { return time; },
+    getMetrics: () => ({}),
+    advance: (delta: number) => { time += delta; }
+  } as unknown as FilterModel & { advance: (delta: number) => void };
+};
+
+const recordFor = (model: ReturnType<typeof createModel>, seconds: number) => {
+  const recorder = createRunRecorder();
+  recorder.start();
+  for (let t = 0; t < seconds && recorder.isRecording; t += FIXED_TIMESTEP) {
+    recorder.capture(model);
+    model.advance(FIXED_TIMESTEP);
+  }
+  return recorder;
+};
+
+describe('createRunRecorder', () => {
+  it('stops at the time cap for small populations', () => {
+    const recorder = recordFor(createModel(100), MAX_RECORD_SECONDS + 1);
+    expect(recorder.isRecording).toBe(false);
+    expect(recorder.limit).toBe('time');
+    expect(recorder.duration).toBeCloseTo(MAX_RECORD_SECONDS, 1);
+  });
+
+  it('stops before its frames pass the memory budget', () => {
+    const recorder = recordFor(createModel(50_000), MAX_RECORD_SECONDS);
+    expect(recorder.isRecording).toBe(false);
+    expect(recorder.limit).toBe('memory');
+    expect(recorder.bytes).toBeLessThanOrEqual(MAX_RECORD_BYTES);
+    expect(recorder.duration).toBeLessThan(MAX_RECORD_SECONDS - 1 / RECORD_FRAME_RATE);
+
+    const recording = recorder.stop();
+    expect(recording?.limit).toBe('memory');
+    expect(recording?.frames.length).toBe(Math.floor(MAX_RECORD_BYTES / (50_000 * 8)));
+  });
+});
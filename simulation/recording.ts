@@ -0,0 +1,258 @@
+import { FilterMetrics } from '../types';
+import { FilterModel, Particle, FIXED_TIMESTEP } from './particles';
+import { PARTICLE_TYPES, WATER } from './contaminants';
+
+// Record a live model as a stream of quantized particle frames, then play it back through the same renderer.
+
+// Frames captured per simulated second; playback interpolates in between
+export const RECORD_FRAME_RATE = 20;
+export const MAX_RECORD_SECONDS = 90;
+// Frame memory budget; at full detail and density the time cap alone would allow several hundred MB
+export const MAX_RECORD_BYTES = 64 * 1024 * 1024;
+export const REPLAY_SPEEDS = [0.25, 0.5, 1, 2, 4];
+
+// Positions are stored as Int16 thousandths: ±32 units covers the whole scene at 1 mm resolution
+const POSITION_SCALE = 1000;
+const FILTERED_FLAG = 0x80;
+// Diameters are stored as one log-scaled byte from 0.01 to 10 mm (under 3% steps); 0 means no diameter
+const DIAMETER_MIN = 0.01;
+const DIAMETER_DECADES = 3;
+// A particle that moved further than this between frames respawned, so it is not interpolated
+const RESPAWN_JUMP = 2;
+// Changes to the same parameter closer together than this (e.g. one slider drag) share a marker
+const EVENT_MERGE_SECONDS = 1;
+
+export interface RecordedFrame {
+  time: number;                  // Seconds since recording started
+  positions: Int16Array;         // x, y, z per particle
+  flags: Uint8Array;             // Type code per particle, FILTERED_FLAG when water has been skimmed
+  diameters: Uint8Array;         // Quantized diameter per particle
+  metrics: FilterMetrics;
+}
+
+// A parameter change made while recording, drawn as a marker on the timeline
+export interface TimelineEvent {
+  time: number;
+  kind: string;                  // Which parameter changed, e.g. 'flow'
+  label: string;
+}
+
+// Why the recorder stopped itself, if it did
+export type RecordLimit = 'time' | 'memory';
+
+export interface RunRecording {
+  frames: RecordedFrame[];
+  events: TimelineEvent[];
+  duration: number;
+  limit: RecordLimit | null;
+}
+
+const encodeDiameter = (diameter: number) => {
+  if (diameter <= 0) return 0;
+  const position = Math.log10(diameter / DIAMETER_MIN) / DIAMETER_DECADES;
+  return 1 + Math.round(Math.max(0, Math.min(1, position)) * 254);
+};
+
+const decodeDiameter = (code: number) => code === 0 ? 0 : DIAMETER_MIN * 10 ** (((code - 1) / 254) * DIAMETER_DECADES);
+
+const encodeFrame = (model: FilterModel, time: number): RecordedFrame => {
+  const { particles } = model;
+  const positions = new Int16Array(particles.length * 3);
+  const flags = new Uint8Array(particles.length);
+  const diameters = new Uint8Array(particles.length);
+  particles.forEach((p, i) => {
+    positions[i * 3] = Math.round(p.x * POSITION_SCALE);
+    positions[i * 3 + 1] = Math.round(p.y * POSITION_SCALE);
+    positions[i * 3 + 2] = Math.round(p.z * POSITION_SCALE);
+    flags[i] = PARTICLE_TYPES.indexOf(p.type) | (p.filtered ? FILTERED_FLAG : 0);
+    diameters[i] = encodeDiameter(p.diameter);
+  });
+  return { time, positions, flags, diameters, metrics: model.getMetrics() };
+};
+
+const getFrameBytes = (particleCount: number) => particleCount * (3 * Int16Array.BYTES_PER_ELEMENT + 2);
+
+export type RunRecorder = ReturnType<typeof createRunRecorder>;
+
+export const createRunRecorder = () => {
+  let frames: RecordedFrame[] = [];
+  let events: TimelineEvent[] = [];
+  let recording = false;
+  let bytes = 0;
+  let limit: RecordLimit | null = null;
+  // Model time of the first captured frame; null until capture runs after start()
+  let origin: number | null = null;
+
+  const duration = () => frames.length ? frames[frames.length - 1].time : 0;
+
+  return {
+    get isRecording() { return recording; },
+    get duration() { return duration(); },
+    get bytes() { return bytes; },
+    get limit() { return limit; },
+    start: () => {
+      frames = [];
+      events = [];
+      bytes = 0;
+      limit = null;
+      origin = null;
+      recording = true;
+    },
+    stop: (): RunRecording | null => {
+      recording = false;
+      return frames.length > 1 ? { frames, events, duration: duration(), limit } : null;
+    },
+    /**
+     * Call after every advance of the recorded model; keeps one frame per 1/RECORD_FRAME_RATE of model time.
+     * Recording stops itself at MAX_RECORD_SECONDS, or earlier when the next frame would pass MAX_RECORD_BYTES.
+     */
+    capture: (model: FilterModel) => {
+      if (!recording) return;
+      origin ??= model.time;
+      const time = model.time - origin;
+      if (frames.length && time - duration() < 1 / RECORD_FRAME_RATE - FIXED_TIMESTEP / 2) return;
+      const frameBytes = getFrameBytes(model.particles.length);
+      if (bytes + frameBytes > MAX_RECORD_BYTES) {
+        recording = false;
+        limit = 'memory';
+        return;
+      }
+      frames.push(encodeFrame(model, time));
+      bytes += frameBytes;
+      if (time >= MAX_RECORD_SECONDS) {
+        recording = false;
+        limit = 'time';
+      }
+    },
+    mark: (kind: string, label: string) => {
+      if (!recording) return;
+      const time = duration();
+      const last = events[events.length - 1];
+      if (last?.kind === kind && time - last.time < EVENT_MERGE_SECONDS) last.label = label;
+      else events.push({ time, kind, label });
+    }
+  };
+};
+
+export interface ReplayModel extends FilterModel {
+  readonly recording: RunRecording;
+  readonly playing: boolean;
+  readonly speed: number;
+  seek: (time: number) => void;
+  /** Jumps to the previous or next recorded frame and pauses. */
+  stepFrame: (direction: 1 | -1) => void;
+  setPlaying: (playing: boolean) => void;
+  setSpeed: (speed: number) => void;
+}
+
+/** Plays a recording back as a FilterModel: `advance` moves the playhead instead of running physics. */
+export const createReplayModel = (recording: RunRecording): ReplayModel => {
+  const { frames, duration } = recording;
+  const particles: Particle[] = [];
+  let playhead = 0;
+  let speed = 1;
+  let playing = false;
+
+  // Frames are evenly spaced except for the odd stall, so start from the expected index and walk
+  const frameIndexAt = (time: number) => {
+    let i = Math.min(frames.length - 1, Math.max(0, Math.floor(time * RECORD_FRAME_RATE)));
+    while (i > 0 && frames[i].time > time) i--;
+    while (i < frames.length - 1 && frames[i + 1].time <= time) i++;
+    return i;
+  };
+
+  const decode = () => {
+    const index = frameIndexAt(playhead);
+    const frame = frames[index];
+    const next = frames[index + 1];
+    // Interpolate only when the population did not change between the two frames
+    const blend = next && next.flags.length === frame.flags.length
+      ? (playhead - frame.time) / (next.time - frame.time)
+      : 0;
+    const count = frame.flags.length;
+    const steps = playhead / FIXED_TIMESTEP;
+
+    while (particles.length < count) {
+      particles.push({
+        type: WATER,
+        x: 0, y: 0, z: 0,
+        vx: 0, vy: 0, vz: 0,
+        rotationX: 0, rotationY: 0, rotationZ: 0,
+        rotationSpeed: 0,
+        filtered: false,
+        diameter: 0,
+        density: 0,
+        // Not recorded
+        arch: null,
+        ricochets: 0
+      });
+    }
+    particles.length = count;
+
+    particles.forEach((p, i) => {
+      const pos = frame.positions;
+      let x = pos[i * 3];
+      let y = pos[i * 3 + 1];
+      let z = pos[i * 3 + 2];
+      if (blend > 0 && Math.abs(next.positions[i * 3 + 2] - z) < RESPAWN_JUMP * POSITION_SCALE) {
+        x += (next.positions[i * 3] - x) * blend;
+        y += (next.positions[i * 3 + 1] - y) * blend;
+        z += (next.positions[i * 3 + 2] - z) * blend;
+      }
+      p.x = x / POSITION_SCALE;
+      p.y = y / POSITION_SCALE;
+      p.z = z / POSITION_SCALE;
+      p.type = PARTICLE_TYPES[frame.flags[i] & ~FILTERED_FLAG];
+      p.filtered = (frame.flags[i] & FILTERED_FLAG) !== 0;
+      p.diameter = decodeDiameter(frame.diameters[i]);
+      // Spin isn't recorded; a per-slot rate keeps solids tumbling as they did live
+      if (p.type !== WATER) {
+        p.rotationSpeed = ((i * 7919) % 100) / 1000;
+        p.rotationX = p.rotationY = i + p.rotationSpeed * steps;
+      }
+    });
+  };
+
+  const seek = (time: number) => {
+    playhead = Math.max(0, Math.min(duration, time));
+    if (playhead >= duration) playing = false;
+    decode();
+  };
+
+  seek(0);
+
+  return {
+    particles,
+    recording,
+    get time() { return playhead; },
+    get stepCount() { return Math.round(playhead / FIXED_TIMESTEP); },
+    get playing() { return playing; },
+    get speed() { return speed; },
+    getMetrics: () => frames[frameIndexAt(playhead)].metrics,
+    // Playback shows what was recorded; live parameters do not apply
+    setFlowRate: () => {},
+    setPopulation: () => {},
+    setSizeDistributions: () => {},
+    step: () => seek(playhead + FIXED_TIMESTEP),
+    advance: (delta: number) => {
+      if (!playing) return 0;
+      seek(playhead + delta * speed);
+      return 1;
+    },
+    reset: () => seek(0),
+    seek,
+    stepFrame: (direction: 1 | -1) => {
+      playing = false;
+      const index = frameIndexAt(playhead);
+      // Between frames, stepping back lands on the frame just passed
+      const target = direction < 0 && playhead > frames[index].time ? index : index + direction;
+      seek(frames[Math.max(0, Math.min(frames.length - 1, target))].time);
+    },
+    setPlaying: (value: boolean) => {
+      // Pressing play at the end starts over
+      if (value && playhead >= duration) seek(0);
+      playing = value;
+    },
+    setSpeed: (value: number) => { speed = value; }
+  };
+};
@@ -0,0 +1,179 @@
+import { ContaminantMix, SizeDistributions } from '../types';
+import { createRandom, RandomSource } from './random';
+import { getPopulationCounts, DEFAULT_MIX } from './population';
+import { DEFAULT_SIZE_DISTRIBUTIONS, assignSize, getPassingDiameter, createSizeBinCounts } from './particleSizes';
+import { createOutletTally, decayOutletTally, countOutlet, getTallyMetrics } from './outletTally';
+import { WATER } from './contaminants';
+import { getScreenPressureDrop } from './flowSolver';
+import {
+  Particle,
+  FilterModel,
+  END_Z,
+  FIXED_TIMESTEP,
+  DEFAULT_SEED,
+  DEFAULT_DENSITY,
+  spawn,
+  createParticles,
+  resizeParticles,
+  moveParticle,
+  createFixedStepClock
+} from './particles';
+
+// Headless model of a conventional dead-end mesh screen across a straight pipe.
+// Everything is pushed straight at the screen: water passes through open cells,
+// solids stick where they land and slowly blind the mesh.
+
+export const SIEVE_RADIUS = 2.5;
+export const SCREEN_Z = -4;
+// The screen is a square grid of cells clipped to the pipe radius
+export const SCREEN_GRID = 12;
+// Solids a cell can hold before it is completely blinded
+const CELL_CAPACITY = 20;
+// Clear mesh opening (mm) of a clean cell; the cake narrows it as the cell loads up
+export const MESH_APERTURE = 0.4;
+
+export interface SieveEngineOptions {
+  seed?: number;
+  flowRate?: number;
+  density?: number;
+  mix?: ContaminantMix;
+  sizes?: SizeDistributions;
+}
+
+export interface SieveEngine extends FilterModel {
+  /** Per-cell blockage (0 = open, 1 = blinded), row-major over SCREEN_GRID x SCREEN_GRID. */
+  readonly screenLoad: Float32Array;
+  /** Fraction of the screen's open area that is still open (0-1). */
+  getOpenArea: () => number;
+}
+
+const cellSize = (SIEVE_RADIUS * 2) / SCREEN_GRID;
+
+export const getScreenCellCenter = (index: number) => ({
+  x: -SIEVE_RADIUS + ((index % SCREEN_GRID) + 0.5) * cellSize,
+  y: -SIEVE_RADIUS + (Math.floor(index / SCREEN_GRID) + 0.5) * cellSize
+});
+
+// Any cell the pipe bore overlaps, including partial cells at the rim
+export const isScreenCell = (index: number) => {
+  const { x, y } = getScreenCellCenter(index);
+  return Math.sqrt(x ** 2 + y ** 2) <= SIEVE_RADIUS + cellSize * Math.SQRT1_2;
+};
+
+const getCellIndex = (x: number, y: number) => {
+  const col = Math.min(SCREEN_GRID - 1, Math.max(0, Math.floor((x + SIEVE_RADIUS) / cellSize)));
+  const row = Math.min(SCREEN_GRID - 1, Math.max(0, Math.floor((y + SIEVE_RADIUS) / cellSize)));
+  return row * SCREEN_GRID + col;
+};
+
+const SCREEN_CELLS = Array.from({ length: SCREEN_GRID * SCREEN_GRID }, (_, i) => i).filter(isScreenCell);
+
+type SieveResult = 'permeate' | 'captured' | null;
+
+const stepParticle = (p: Particle, flowRate: number, random: RandomSource, screenLoad: Float32Array): SieveResult => {
+  const previousZ = p.z;
+  moveParticle(p, flowRate);
+
+  // Pipe wall: keep everything inside the bore
+  const dist = Math.sqrt(p.x ** 2 + p.y ** 2);
+  if (dist > SIEVE_RADIUS) {
+    p.x *= SIEVE_RADIUS / dist;
+    p.y *= SIEVE_RADIUS / dist;
+  }
+
+  // Screen crossing
+  if (!p.filtered && previousZ >= SCREEN_Z && p.z < SCREEN_Z) {
+    const cell = getCellIndex(p.x, p.y);
+    if (p.type !== WATER) {
+      if (getPassingDiameter(p) < MESH_APERTURE * (1 - screenLoad[cell])) {
+        // Finer than the opening: straight through
+        p.filtered = true;
+      } else {
+        // Anything larger cakes onto the mesh
+        screenLoad[cell] = Math.min(1, screenLoad[cell] + 1 / CELL_CAPACITY);
+        spawn(p, random, 5, SIEVE_RADIUS);
+        return 'captured';
+      }
+    } else if (random() < screenLoad[cell]) {
+      // Blocked: water backs up against the cake and tries again next step
+      p.z = SCREEN_Z + 0.05;
+    } else {
+      p.filtered = true;
+    }
+  }
+
+  if (p.z < END_Z) {
+    spawn(p, random, 5, SIEVE_RADIUS);
+    return 'permeate';
+  }
+  return null;
+};
+
+export const createSieveEngine = (options: SieveEngineOptions = {}): SieveEngine => {
+  let seed = options.seed ?? DEFAULT_SEED;
+  let flowRate = options.flowRate ?? 1.0;
+  let density = options.density ?? DEFAULT_DENSITY;
+  let mix = options.mix ?? DEFAULT_MIX;
+  let sizes = options.sizes ?? DEFAULT_SIZE_DISTRIBUTIONS;
+  let random = createRandom(seed);
+  let particles = createParticles(getPopulationCounts(density, mix), random, SIEVE_RADIUS, sizes);
+  let stepCount = 0;
+  let tally = createOutletTally();
+  const screenLoad = new Float32Array(SCREEN_GRID * SCREEN_GRID);
+
+  const getOpenArea = () => {
+    let open = 0;
+    for (const cell of SCREEN_CELLS) open += 1 - screenLoad[cell];
+    return open / SCREEN_CELLS.length;
+  };
+
+  const step = () => {
+    decayOutletTally(tally);
+    for (const p of particles) {
+      const result = stepParticle(p, flowRate, random, screenLoad);
+      if (!result) continue;
+      // Solids retained on the screen are the sieve's equivalent of reaching the sludge outlet
+      countOutlet(tally, p, result === 'captured' ? 'sludge' : 'permeate');
+      if (p.type !== WATER) assignSize(p, random, sizes);
+    }
+    stepCount++;
+  };
+  const clock = createFixedStepClock(step);
+
+  return {
+    get particles() { return particles; },
+    get time() { return stepCount * FIXED_TIMESTEP; },
+    get stepCount() { return stepCount; },
+    screenLoad,
+    getOpenArea,
+    getMetrics: () => getTallyMetrics(tally, {
+      time: stepCount * FIXED_TIMESTEP,
+      clogIndex: (1 - getOpenArea()) * 100,
+      pressureDrop: getScreenPressureDrop(flowRate, MESH_APERTURE, getOpenArea()),
+      // A dead-end screen has no reject stream to concentrate solids into
+      concentrationFactor: 0
+    }),
+    setFlowRate: (value) => { flowRate = value; },
+    setPopulation: (nextDensity, nextMix) => {
+      density = nextDensity;
+      mix = nextMix;
+      particles = resizeParticles(particles, getPopulationCounts(density, mix), random, SIEVE_RADIUS, sizes);
+    },
+    setSizeDistributions: (value) => {
+      sizes = value;
+      for (const p of particles) assignSize(p, random, sizes);
+      tally.sizeCounts = createSizeBinCounts();
+    },
+    step,
+    advance: clock.advance,
+    reset: (nextSeed) => {
+      if (nextSeed !== undefined) seed = nextSeed;
+      random = createRandom(seed);
+      particles = createParticles(getPopulationCounts(density, mix), random, SIEVE_RADIUS, sizes);
+      stepCount = 0;
+      clock.reset();
+      tally = createOutletTally();
+      screenLoad.fill(0);
+    }
+  };
+};
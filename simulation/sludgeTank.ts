@@ -0,0 +1,166 @@
+import { ContaminantType, FilterMetrics } from '../types';
+import { CONTAMINANT_TYPES } from './contaminants';
+
+// Collection tank on the sludge outlet. It accumulates the mass the engine sends to the sludge, by type,
+// and purges when it reaches its threshold: automatically through a flush valve, or by an operator
+// answering a maintenance call. Masses are of the simulated particles, in grams.
+
+export type PurgeMode = 'auto' | 'manual';
+
+export interface SludgeTankConfig {
+  capacity: number;              // g
+  purgeThreshold: number;        // Fill fraction (0-1) that triggers a purge or maintenance call
+  mode: PurgeMode;
+  purgeSeconds: number;          // How long an automatic flush takes to empty the tank
+}
+
+export const DEFAULT_TANK_CONFIG: SludgeTankConfig = {
+  capacity: 5,
+  purgeThreshold: 0.9,
+  mode: 'auto',
+  purgeSeconds: 5
+};
+
+export const TANK_LIMITS = {
+  capacity: { min: 1, max: 50, step: 1 },
+  purgeThreshold: { min: 0.5, max: 1, step: 0.05 },
+  purgeSeconds: { min: 1, max: 20, step: 1 }
+};
+
+// 'full' means a maintenance call is waiting; solids arriving meanwhile overflow once the tank is brim-full
+export type TankStatus = 'filling' | 'purging' | 'full';
+
+export interface TankEvent {
+  time: number;                  // Engine time (simulated seconds)
+  kind: 'purge' | 'maintenance' | 'emptied';
+  mass: number;                  // g in the tank when the event fired
+}
+
+// Fill rate is smoothed over roughly this many simulated seconds
+const RATE_WINDOW = 10;
+const MAX_EVENTS = 20;
+const MG_PER_G = 1000;
+
+export interface SludgeTank {
+  config: SludgeTankConfig;
+  contents: Record<ContaminantType, number>;   // g of each solid in the tank
+  status: TankStatus;
+  purgeEndsAt: number | null;
+  overflow: number;              // g that arrived while the tank was brim-full
+  fillRate: number;              // g per simulated second reaching the tank, smoothed
+  events: TankEvent[];           // Newest last
+  // Last metrics sample folded in; null until the first one sets the baseline
+  lastTime: number | null;
+  lastSludgeMass: Record<ContaminantType, number> | null;
+}
+
+const emptyContents = (): Record<ContaminantType, number> =>
+  Object.fromEntries(CONTAMINANT_TYPES.map(type => [type, 0])) as Record<ContaminantType, number>;
+
+export const getTankMass = (tank: SludgeTank) =>
+  Object.values(tank.contents).reduce((sum, mass) => sum + mass, 0);
+
+export const getTankFill = (tank: SludgeTank) => getTankMass(tank) / tank.config.capacity;
+
+export const createSludgeTank = (config = DEFAULT_TANK_CONFIG): SludgeTank => ({
+  config,
+  contents: emptyContents(),
+  status: 'filling',
+  purgeEndsAt: null,
+  overflow: 0,
+  fillRate: 0,
+  events: [],
+  lastTime: null,
+  lastSludgeMass: null
+});
+
+const addEvent = (tank: SludgeTank, event: TankEvent): TankEvent[] => [...tank.events, event].slice(-MAX_EVENTS);
+
+/** Folds the sludge collected since the previous metrics sample into the tank, purging or calling for maintenance as needed. */
+export const advanceSludgeTank = (tank: SludgeTank, metrics: FilterMetrics): SludgeTank => {
+  // A model reset or a fresh engine restarts the counters; take it as the new baseline
+  if (tank.lastTime === null || metrics.time < tank.lastTime) {
+    return { ...tank, lastTime: metrics.time, lastSludgeMass: { ...metrics.sludgeMass } };
+  }
+  const dt = metrics.time - tank.lastTime;
+  if (dt <= 0) return tank;
+
+  const { config } = tank;
+  const contents = { ...tank.contents };
+  let arrived = 0;
+  for (const type of CONTAMINANT_TYPES) {
+    const mass = Math.max(0, (metrics.sludgeMass[type] ?? 0) - (tank.lastSludgeMass?.[type] ?? 0)) / MG_PER_G;
+    contents[type] += mass;
+    arrived += mass;
+  }
+  const next: SludgeTank = {
+    ...tank,
+    contents,
+    fillRate: tank.fillRate + (arrived / dt - tank.fillRate) * Math.min(1, dt / RATE_WINDOW),
+    lastTime: metrics.time,
+    lastSludgeMass: { ...metrics.sludgeMass }
+  };
+
+  if (next.status === 'purging') {
+    if (metrics.time >= next.purgeEndsAt) return { ...next, contents: emptyContents(), status: 'filling', purgeEndsAt: null };
+    // The flush valve drains a full tank's worth over purgeSeconds, carrying anything that arrives with it
+    const mass = getTankMass(next);
+    const keep = mass > 0 ? Math.max(0, 1 - ((config.capacity / config.purgeSeconds) * dt) / mass) : 0;
+    for (const type of CONTAMINANT_TYPES) contents[type] *= keep;
+    return next;
+  }
+
+  const mass = getTankMass(next);
+  if (mass > config.capacity) {
+    // Brim-full: the excess spills instead of being stored
+    const scale = config.capacity / mass;
+    for (const type of CONTAMINANT_TYPES) contents[type] *= scale;
+    next.overflow += mass - config.capacity;
+  }
+
+  if (next.status === 'filling' && mass >= config.capacity * config.purgeThreshold) {
+    const event = { time: metrics.time, kind: config.mode === 'auto' ? 'purge' as const : 'maintenance' as const, mass: Math.min(mass, config.capacity) };
+    return config.mode === 'auto'
+      ? { ...next, status: 'purging', purgeEndsAt: metrics.time + config.purgeSeconds, events: addEvent(next, event) }
+      : { ...next, status: 'full', events: addEvent(next, event) };
+  }
+  return next;
+};
+
+/** Operator empties the tank by hand, answering a maintenance call or not. */
+export const emptySludgeTank = (tank: SludgeTank): SludgeTank => ({
+  ...tank,
+  contents: emptyContents(),
+  status: 'filling',
+  purgeEndsAt: null,
+  events: addEvent(tank, { time: tank.lastTime ?? 0, kind: 'emptied', mass: getTankMass(tank) })
+});
+
+/** New settings keep the tank's contents; a purge or maintenance call already under way carries on. */
+export const configureSludgeTank = (tank: SludgeTank, config: SludgeTankConfig): SludgeTank => ({ ...tank, config });
+
+export interface TankForecast {
+  secondsToThreshold: number | null;   // At the current fill rate; null while nothing is arriving
+  // Expected time between purges or maintenance calls at the current fill rate, i.e. the emptying interval
+  secondsPerCycle: number | null;
+  // Mean spacing of the purge/maintenance events seen so far; null until there are two
+  measuredInterval: number | null;
+}
+
+// Below this fill rate (g/s) the tank is treated as not filling
+const MIN_FILL_RATE = 1e-4;
+
+export const getTankForecast = (tank: SludgeTank): TankForecast => {
+  const { capacity, purgeThreshold } = tank.config;
+  const filling = tank.fillRate > MIN_FILL_RATE;
+  const triggers = tank.events.filter(e => e.kind !== 'emptied');
+  return {
+    secondsToThreshold: filling && tank.status === 'filling'
+      ? Math.max(0, (capacity * purgeThreshold - getTankMass(tank)) / tank.fillRate)
+      : null,
+    secondsPerCycle: filling ? (capacity * purgeThreshold) / tank.fillRate : null,
+    measuredInterval: triggers.length >= 2
+      ? (triggers[triggers.length - 1].time - triggers[0].time) / (triggers.length - 1)
+      : null
+  };
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { FilterMetrics, SimulationState } from '../types';
+import { createFiltrationEngine } from './filtrationEngine';
+import { createSimulationSnapshot, SNAPSHOT_VERSION } from './snapshot';
+import { createEmptySeparation } from './metrics';
+import { DEFAULT_MIX } from './population';
+import { DEFAULT_GEOMETRY } from './filterGeometry';
+import { DEFAULT_SIZE_DISTRIBUTIONS } from './particleSizes';
+
+const simulationState: SimulationState = {
+  flowRate: 1,
+  particleDensity: 300,
+  efficiency: 0,
+  isRunning: true,
+  separation: createEmptySeparation(),
+  contaminantMix: DEFAULT_MIX,
+  particleSizes: DEFAULT_SIZE_DISTRIBUTIONS
+};
+
+const getHistory = () => {
+  const engine = createFiltrationEngine({ seed: 3 });
+  const history: FilterMetrics[] = [];
+  for (let i = 0; i < 240; i++) {
+    engine.step();
+    if (i % 15 === 14) history.push(engine.getMetrics());
+  }
+  return history;
+};
+
+describe('createSimulationSnapshot', () => {
+  it('reports no measurements before the first metrics sample', () => {
+    const snapshot = createSimulationSnapshot({ simulationState, viewMode: 'NATURE', geometry: DEFAULT_GEOMETRY, history: [] });
+    expect(snapshot.version).toBe(SNAPSHOT_VERSION);
+    expect(snapshot.measured).toBeNull();
+    expect(snapshot.geometry.preset).not.toBe('Custom');
+  });
+
+  it('is pure and survives a JSON round trip', () => {
+    const input = { simulationState, viewMode: 'NATURE' as const, geometry: DEFAULT_GEOMETRY, history: getHistory() };
+    const snapshot = createSimulationSnapshot(input);
+    expect(createSimulationSnapshot(input)).toEqual(snapshot);
+    expect(JSON.parse(JSON.stringify(snapshot))).toEqual(snapshot);
+    expect(snapshot.measured?.simulatedSeconds).toBe(4);
+  });
+});
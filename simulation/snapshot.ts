@@ -0,0 +1,224 @@
+import {
+  SimulationState,
+  SimulationSnapshot,
+  MeasuredSnapshot,
+  MetricTrend,
+  MetricTrends,
+  ViewMode,
+  FilterGeometry,
+  FilterMetrics,
+  ContaminantMix,
+  SeparationStats,
+  WashCycleSnapshot,
+  SludgeTankSnapshot,
+  CascadeMetrics,
+  CascadeReadings,
+  CascadeSnapshot,
+  CascadeStage,
+  QuizSnapshot
+} from '../types';
+import { CONTAMINANT_PRESETS, getMixWeight, getPopulationCounts } from './population';
+import { CONTAMINANT_TYPES, WATER } from './contaminants';
+import { GEOMETRY_PRESETS } from './filterGeometry';
+import { WashCycleRun, getProgramDuration } from './washCycle';
+import { SludgeTank, getTankFill, getTankForecast } from './sludgeTank';
+import { getSolidsCapture } from './metrics';
+import { QuizRun, getQuizMetricLabel, isQuizAnswerCorrect } from './quiz';
+
+// Bump when the snapshot shape changes so prompts and saved snapshots can be told apart
+export const SNAPSHOT_VERSION = 7;
+// Simulated seconds of history summarised into trends
+export const TREND_WINDOW = 30;
+
+export interface SnapshotInput {
+  simulationState: SimulationState;
+  viewMode: ViewMode;
+  geometry: FilterGeometry;
+  history: FilterMetrics[];
+  sieveHistory?: FilterMetrics[];
+  washCycle?: WashCycleRun | null;
+  sludgeTank?: SludgeTank;
+  cascadeStages?: CascadeStage[];
+  cascade?: CascadeMetrics | null;
+  quizRun?: QuizRun | null;
+}
+
+// Keeps the serialized snapshot short; nobody needs the tenth decimal of a percentage
+const round = (value: number, digits = 2) => {
+  const scale = 10 ** digits;
+  return Math.round(value * scale) / scale;
+};
+
+const getTrend = (samples: FilterMetrics[], pick: (m: FilterMetrics) => number): MetricTrend => {
+  const values = samples.map(pick);
+  const current = values[values.length - 1];
+  return {
+    current: round(current),
+    min: round(Math.min(...values)),
+    max: round(Math.max(...values)),
+    change: round(current - values[0])
+  };
+};
+
+export const getMetricTrends = (history: FilterMetrics[], windowSeconds = TREND_WINDOW): MetricTrends | null => {
+  if (!history.length) return null;
+  const end = history[history.length - 1].time;
+  const samples = history.filter(m => m.time >= end - windowSeconds);
+  return {
+    windowSeconds: round(end - samples[0].time, 1),
+    efficiency: getTrend(samples, m => m.efficiency),
+    permeateThroughput: getTrend(samples, m => m.permeateThroughput),
+    concentrationFactor: getTrend(samples, m => m.concentrationFactor),
+    clogIndex: getTrend(samples, m => m.clogIndex)
+  };
+};
+
+const getMeasured = (history: FilterMetrics[] | undefined): MeasuredSnapshot | null => {
+  const trends = history && getMetricTrends(history);
+  if (!trends) return null;
+  const latest = history[history.length - 1];
+  // Types that have not left the filter recently are absent from the feed and left out
+  const separation: Partial<SeparationStats> = {};
+  for (const [type, { permeate, sludge, efficiency }] of Object.entries(latest.separation)) {
+    if (round(permeate + sludge, 1) === 0) continue;
+    separation[type] = { permeate: round(permeate, 1), sludge: round(sludge, 1), efficiency: round(efficiency, 1) };
+  }
+  return {
+    simulatedSeconds: round(latest.time, 1),
+    efficiency: round(latest.efficiency, 1),
+    separation,
+    permeateThroughput: round(latest.permeateThroughput, 1),
+    concentrationFactor: round(latest.concentrationFactor),
+    clogIndex: round(latest.clogIndex, 1),
+    pressureDrop: round(latest.pressureDrop, 3),
+    cutSizeCurve: latest.cutSizeCurve.map(p => ({
+      diameter: round(p.diameter, 3),
+      capture: round(p.capture, 1),
+      samples: round(p.samples, 0)
+    })),
+    d50: latest.d50 === null ? null : round(latest.d50, 3),
+    trends
+  };
+};
+
+// Only contaminants in the mix are listed; the registry has more types than any one scenario uses
+const getActiveTypes = (mix: ContaminantMix) => CONTAMINANT_TYPES.filter(type => getMixWeight(mix, type) > 0);
+
+const getMixFractions = (mix: ContaminantMix): ContaminantMix => {
+  const total = CONTAMINANT_TYPES.reduce((sum, type) => sum + getMixWeight(mix, type), 0);
+  const fractions: ContaminantMix = {};
+  for (const type of getActiveTypes(mix)) fractions[type] = round(getMixWeight(mix, type) / total);
+  return fractions;
+};
+
+const pickTypes = <K extends string, T>(record: Record<K, T>, types: K[]): Partial<Record<K, T>> =>
+  Object.fromEntries(types.filter(type => type in record).map(type => [type, record[type]])) as Partial<Record<K, T>>;
+
+const getWashCycle = (run: WashCycleRun | null | undefined): WashCycleSnapshot | null => run ? {
+  program: run.program.label,
+  fabric: run.fabric.label,
+  phase: run.state.phase.label,
+  elapsedSeconds: round(run.state.elapsed, 1),
+  durationSeconds: getProgramDuration(run.program),
+  done: run.state.done,
+  microfibersCaptured: run.captured,
+  microfibersEscaped: run.escaped
+} : null;
+
+const toMinutes = (seconds: number | null) => seconds === null ? null : round(seconds / 60);
+
+const getSludgeTank = (tank: SludgeTank | undefined): SludgeTankSnapshot | null => {
+  if (!tank || tank.lastTime === null) return null;
+  const forecast = getTankForecast(tank);
+  const contentsGrams: SludgeTankSnapshot['contentsGrams'] = {};
+  for (const [type, mass] of Object.entries(tank.contents)) if (mass > 0) contentsGrams[type] = round(mass, 3);
+  return {
+    mode: tank.config.mode,
+    status: tank.status,
+    capacityGrams: tank.config.capacity,
+    purgeThresholdPercent: round(tank.config.purgeThreshold * 100, 0),
+    fillPercent: round(getTankFill(tank) * 100, 1),
+    contentsGrams,
+    fillRateGramsPerMinute: round(tank.fillRate * 60, 3),
+    minutesToThreshold: toMinutes(forecast.secondsToThreshold),
+    minutesPerEmptying: toMinutes(forecast.secondsPerCycle),
+    measuredMinutesPerEmptying: toMinutes(forecast.measuredInterval),
+    eventCount: tank.events.length,
+    overflowGrams: round(tank.overflow, 3)
+  };
+};
+
+const getCascadeReadings = (metrics: FilterMetrics): CascadeReadings => ({
+  efficiency: round(metrics.efficiency, 1),
+  solidsCapture: round(getSolidsCapture(metrics.separation), 1),
+  waterRecovery: round(metrics.separation[WATER].efficiency, 1),
+  d50: metrics.d50 === null ? null : round(metrics.d50, 3),
+  concentrationFactor: round(metrics.concentrationFactor),
+  clogIndex: round(metrics.clogIndex, 1),
+  pressureDrop: round(metrics.pressureDrop, 3)
+});
+
+const getCascade = (stages: CascadeStage[] | undefined, metrics: CascadeMetrics | null | undefined): CascadeSnapshot | null => {
+  if (!stages || !metrics) return null;
+  return {
+    simulatedSeconds: round(metrics.time, 1),
+    stages: stages.map((stage, i) => ({
+      geometry: GEOMETRY_PRESETS.find(p => p.geometry === stage.geometry)?.label ?? 'Custom',
+      feedFrom: stage.feedFrom,
+      flowSplit: stage.flowSplit,
+      ...getCascadeReadings(metrics.stages[i])
+    })),
+    train: getCascadeReadings(metrics.train)
+  };
+};
+
+const getQuiz = (run: QuizRun | null | undefined): QuizSnapshot | null => run ? {
+  question: run.question.prompt,
+  metric: getQuizMetricLabel(run.question),
+  prediction: run.prediction,
+  stage: run.stage,
+  progressPercent: round(run.progress * 100, 0),
+  baseline: run.baseline === null ? null : round(run.baseline),
+  changed: run.changed === null ? null : round(run.changed),
+  outcome: run.outcome,
+  correct: run.outcome === null ? null : isQuizAnswerCorrect(run)
+} : null;
+
+/** Captures the running simulation as plain JSON-safe data; pure, so the same inputs give the same snapshot. */
+export const createSimulationSnapshot = ({
+  simulationState,
+  viewMode,
+  geometry,
+  history,
+  sieveHistory,
+  washCycle,
+  sludgeTank,
+  cascadeStages,
+  cascade,
+  quizRun
+}: SnapshotInput): SimulationSnapshot => ({
+  version: SNAPSHOT_VERSION,
+  viewMode,
+  isRunning: simulationState.isRunning,
+  flowRate: round(simulationState.flowRate, 1),
+  particleDensity: simulationState.particleDensity,
+  contaminantMix: {
+    preset: CONTAMINANT_PRESETS.find(p => p.mix === simulationState.contaminantMix)?.label ?? 'Custom',
+    fractions: getMixFractions(simulationState.contaminantMix)
+  },
+  geometry: {
+    ...geometry,
+    preset: GEOMETRY_PRESETS.find(p => p.geometry === geometry)?.label ?? 'Custom'
+  },
+  particleSizes: pickTypes(simulationState.particleSizes, getActiveTypes(simulationState.contaminantMix)),
+  population: pickTypes(
+    getPopulationCounts(simulationState.particleDensity, simulationState.contaminantMix),
+    [WATER, ...getActiveTypes(simulationState.contaminantMix)]
+  ),
+  measured: getMeasured(history),
+  sieve: viewMode === 'SIEVE' ? getMeasured(sieveHistory) : null,
+  washCycle: getWashCycle(washCycle),
+  sludgeTank: getSludgeTank(sludgeTank),
+  cascade: viewMode === 'CASCADE' ? getCascade(cascadeStages, cascade) : null,
+  quiz: getQuiz(quizRun)
+});
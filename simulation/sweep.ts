@@ -0,0 +1,141 @@
+import { ContaminantMix, ContaminantType, FilterGeometry, SizeDistributions } from '../types';
+import { createFiltrationEngine } from './filtrationEngine';
+import { getFilterZone, getRakerGap } from './filterGeometry';
+import { DEFAULT_MIX } from './population';
+import { DEFAULT_SIZE_DISTRIBUTIONS, MM_PER_UNIT } from './particleSizes';
+import { subtractOutletCounts, getNewtonEfficiency, getSeparation, getConcentrationFactor, getSolidsCapture } from './metrics';
+import { CONTAMINANT_TYPES, WATER } from './contaminants';
+import { DEFAULT_SEED, FIXED_TIMESTEP } from './particles';
+
+// Batch experiments on the headless filtration engine: every combination of flow rate, particle density
+// and geometry runs from the same seed for a warm-up, then is measured over a fixed simulated duration.
+// Results count every particle that left during the measured window, not the decayed live metrics.
+
+export interface SweepGeometry {
+  label: string;
+  geometry: FilterGeometry;
+}
+
+export interface SweepConfig {
+  name: string;
+  flowRates: number[];
+  densities: number[];
+  geometries: SweepGeometry[];
+  warmupSeconds: number;         // Simulated seconds run and discarded before measuring, so the filter fills
+  durationSeconds: number;       // Simulated seconds measured at each point
+  sweetSpotTolerance: number;    // Percentage points of efficiency a sweet spot may give up for throughput
+  seed: number;
+  mix: ContaminantMix;
+  sizes: SizeDistributions;
+}
+
+export const DEFAULT_WARMUP_SECONDS = 10;
+export const DEFAULT_DURATION_SECONDS = 30;
+export const DEFAULT_SWEET_SPOT_TOLERANCE = 5;
+
+export interface SweepPoint {
+  geometry: SweepGeometry;
+  flowRate: number;
+  density: number;
+}
+
+export interface SweepResult {
+  geometryLabel: string;
+  geometry: FilterGeometry;
+  rakerGap: number;              // mm between raker tips halfway down the filter
+  flowRate: number;
+  particleDensity: number;
+  efficiency: number;            // Newton separation efficiency, %
+  solidsCapture: number;         // % of solids sent to the sludge
+  waterRecovery: number;         // % of water sent to the permeate
+  permeateThroughput: number;    // Water particles per simulated second leaving through the permeate
+  concentrationFactor: number;   // Solids enrichment of the sludge over the feed
+  sludgeMassRate: number;        // mg of solids per simulated second reaching the sludge
+  d50: number | null;            // mm, from the cut-size curve at the end of the window
+  clogIndex: number;             // % at the end of the window
+  pressureDrop: number;          // Pa across the raker wall at the end of the window
+}
+
+/** Every point of the sweep, geometry outermost and flow rate innermost. */
+export const getSweepPoints = (config: SweepConfig): SweepPoint[] =>
+  config.geometries.flatMap(geometry => config.densities.flatMap(density =>
+    config.flowRates.map(flowRate => ({ geometry, flowRate, density }))));
+
+const sumMass = (mass: Record<ContaminantType, number>) => CONTAMINANT_TYPES.reduce((sum, type) => sum + (mass[type] ?? 0), 0);
+
+export const runSweepPoint = (config: SweepConfig, { geometry, flowRate, density }: SweepPoint): SweepResult => {
+  const engine = createFiltrationEngine({
+    seed: config.seed,
+    flowRate,
+    density,
+    mix: config.mix,
+    geometry: geometry.geometry,
+    sizes: config.sizes
+  });
+  const warmupSteps = Math.round(config.warmupSeconds / FIXED_TIMESTEP);
+  const measuredSteps = Math.max(1, Math.round(config.durationSeconds / FIXED_TIMESTEP));
+  for (let i = 0; i < warmupSteps; i++) engine.step();
+  const start = engine.getMetrics();
+  for (let i = 0; i < measuredSteps; i++) engine.step();
+  const end = engine.getMetrics();
+
+  const seconds = measuredSteps * FIXED_TIMESTEP;
+  const counts = subtractOutletCounts(end.totals, start.totals);
+  const separation = getSeparation(counts);
+  const zone = getFilterZone(geometry.geometry);
+  return {
+    geometryLabel: geometry.label,
+    geometry: geometry.geometry,
+    rakerGap: getRakerGap(geometry.geometry, (zone.start + zone.end) / 2) * MM_PER_UNIT,
+    flowRate,
+    particleDensity: density,
+    efficiency: getNewtonEfficiency(counts),
+    solidsCapture: getSolidsCapture(separation),
+    waterRecovery: separation[WATER].efficiency,
+    permeateThroughput: counts[WATER].permeate / seconds,
+    concentrationFactor: getConcentrationFactor(counts),
+    sludgeMassRate: (sumMass(end.sludgeMass) - sumMass(start.sludgeMass)) / seconds,
+    d50: end.d50,
+    clogIndex: end.clogIndex,
+    pressureDrop: end.pressureDrop
+  };
+};
+
+/** Runs every point in order, reporting each result as it finishes; deterministic for a given config. */
+export const runSweep = (config: SweepConfig, onResult?: (result: SweepResult, index: number, total: number) => void): SweepResult[] => {
+  const points = getSweepPoints(config);
+  return points.map((point, i) => {
+    const result = runSweepPoint(config, point);
+    onResult?.(result, i, points.length);
+    return result;
+  });
+};
+
+/**
+ * Sweet spot of each geometry and density: efficiency usually falls as the flow rises, so the point with
+ * the most permeate throughput whose efficiency is within `tolerance` points of the best one found.
+ */
+export const getSweetSpots = (results: SweepResult[], tolerance = DEFAULT_SWEET_SPOT_TOLERANCE): SweepResult[] => {
+  const groups = new Map<string, SweepResult[]>();
+  for (const result of results) {
+    const key = `${result.geometryLabel}|${result.particleDensity}`;
+    groups.set(key, [...(groups.get(key) ?? []), result]);
+  }
+  return [...groups.values()].map(group => {
+    const best = Math.max(...group.map(r => r.efficiency));
+    return group
+      .filter(r => r.efficiency >= best - tolerance)
+      .reduce((spot, r) => r.permeateThroughput > spot.permeateThroughput ? r : spot);
+  });
+};
+
+export const createSweepConfig = (patch: Partial<SweepConfig> & Pick<SweepConfig, 'flowRates' | 'densities' | 'geometries'>): SweepConfig => ({
+  name: 'Sweep',
+  warmupSeconds: DEFAULT_WARMUP_SECONDS,
+  durationSeconds: DEFAULT_DURATION_SECONDS,
+  sweetSpotTolerance: DEFAULT_SWEET_SPOT_TOLERANCE,
+  seed: DEFAULT_SEED,
+  mix: DEFAULT_MIX,
+  sizes: DEFAULT_SIZE_DISTRIBUTIONS,
+  ...patch
+});
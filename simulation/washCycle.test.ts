@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { createFiltrationEngine } from './filtrationEngine';
+import { FABRIC_TYPES, WASH_PROGRAMS, advanceWashCycle, startWashCycle } from './washCycle';
+
+const runFor = (engine: ReturnType<typeof createFiltrationEngine>, seconds: number) => {
+  for (let i = 0; i < seconds * 60; i++) engine.step();
+  return engine.getMetrics();
+};
+
+describe('advanceWashCycle', () => {
+  const fleece = FABRIC_TYPES[0];
+  const program = WASH_PROGRAMS[0];
+
+  it('follows the engine clock through the program', () => {
+    const engine = createFiltrationEngine({ seed: 5, mix: fleece.mix, density: 600 });
+    let run = startWashCycle(program, fleece, runFor(engine, 1));
+    run = advanceWashCycle(run, runFor(engine, 30));
+    expect(run.state.elapsed).toBeCloseTo(30, 5);
+    expect(run.state.phase.label).toBe('Wash Drain');
+    expect(run.captured + run.escaped).toBeGreaterThan(0);
+  });
+
+  it('carries its time and fiber counts across an engine restart', () => {
+    const engine = createFiltrationEngine({ seed: 5, mix: fleece.mix, density: 600 });
+    let run = startWashCycle(program, fleece, runFor(engine, 1));
+    run = advanceWashCycle(run, runFor(engine, 10));
+    const before = { elapsed: run.state.elapsed, captured: run.captured, escaped: run.escaped };
+
+    engine.reset(9);
+    const restarted = runFor(engine, 1);
+    run = advanceWashCycle(run, restarted);
+    expect(run.state.elapsed).toBeCloseTo(before.elapsed, 5);
+    expect(run.captured).toBe(before.captured);
+
+    run = advanceWashCycle(run, runFor(engine, 5));
+    expect(run.state.elapsed).toBeCloseTo(before.elapsed + 5, 5);
+    expect(run.captured).toBeGreaterThanOrEqual(before.captured);
+    expect(run.escaped).toBeGreaterThanOrEqual(before.escaped);
+  });
+});
@@ -0,0 +1,183 @@
+import { ContaminantMix, ContaminantType, FilterMetrics, OutletTotals } from '../types';
+
+// Washing-machine retrofit: a program's drain profile drives the flow rate over simulated time,
+// and the fabric in the drum sets how many fibers the drained water carries.
+// Programs are compressed in time; the order, relative length and shape of each phase follow a
+// front-loader's wash, rinse and spin drains, but a full cycle lasts a couple of simulated minutes.
+
+export type CyclePhaseKind = 'wash' | 'drain' | 'spin';
+
+export interface CyclePhase {
+  label: string;
+  kind: CyclePhaseKind;
+  seconds: number;
+  // Drain flow at the start and end of the phase; the pump starts strong and tails off as the drum empties
+  flow: [number, number];
+  // Fibre concentration in the drained water relative to the first wash drain (0-1)
+  load: number;
+}
+
+export interface WashProgram {
+  id: string;
+  label: string;
+  phases: CyclePhase[];
+}
+
+export interface FabricType {
+  id: string;
+  label: string;
+  // Contaminant particles in the scene at full load, i.e. during the wash drain
+  shedding: number;
+  mix: ContaminantMix;
+}
+
+// The drum holds its water while it agitates, so only a trickle reaches the filter
+const IDLE_FLOW = 0.1;
+// Particles left in the scene between drains; the bottom of the density slider
+const IDLE_DENSITY = 50;
+
+const agitate = (label: string, seconds: number): CyclePhase =>
+  ({ label, kind: 'wash', seconds, flow: [IDLE_FLOW, IDLE_FLOW], load: 0 });
+
+export const WASH_PROGRAMS: WashProgram[] = [
+  {
+    id: 'cotton',
+    label: 'Cotton 40°',
+    phases: [
+      agitate('Wash', 24),
+      { label: 'Wash Drain', kind: 'drain', seconds: 12, flow: [3.5, 1], load: 1 },
+      agitate('Rinse 1', 16),
+      { label: 'Rinse 1 Drain', kind: 'drain', seconds: 10, flow: [3, 1], load: 0.5 },
+      agitate('Rinse 2', 16),
+      { label: 'Rinse 2 Drain', kind: 'drain', seconds: 10, flow: [3, 1], load: 0.25 },
+      { label: 'Final Spin', kind: 'spin', seconds: 24, flow: [2, 0.3], load: 0.15 }
+    ]
+  },
+  {
+    // Gentler agitation and a slower spin to limit creasing
+    id: 'synthetics',
+    label: 'Synthetics',
+    phases: [
+      agitate('Wash', 20),
+      { label: 'Wash Drain', kind: 'drain', seconds: 12, flow: [3, 1], load: 1 },
+      agitate('Rinse 1', 14),
+      { label: 'Rinse 1 Drain', kind: 'drain', seconds: 10, flow: [2.5, 0.8], load: 0.5 },
+      agitate('Rinse 2', 14),
+      { label: 'Rinse 2 Drain', kind: 'drain', seconds: 10, flow: [2.5, 0.8], load: 0.25 },
+      { label: 'Final Spin', kind: 'spin', seconds: 14, flow: [1.2, 0.3], load: 0.15 }
+    ]
+  },
+  {
+    id: 'quick',
+    label: 'Quick 30′',
+    phases: [
+      agitate('Wash', 12),
+      { label: 'Wash Drain', kind: 'drain', seconds: 10, flow: [3.5, 1.2], load: 1 },
+      agitate('Rinse', 10),
+      { label: 'Rinse Drain', kind: 'drain', seconds: 8, flow: [3, 1], load: 0.4 },
+      { label: 'Final Spin', kind: 'spin', seconds: 16, flow: [2.5, 0.4], load: 0.2 }
+    ]
+  }
+];
+
+// Relative shedding is illustrative: synthetic knits and fleeces shed more than woven cotton
+export const FABRIC_TYPES: FabricType[] = [
+  { id: 'fleece', label: 'Polyester Fleece', shedding: 1000, mix: { MICROPLASTIC: 0.9, NATURAL_FIBER: 0.05, SEDIMENT: 0.05 } },
+  { id: 'acrylic', label: 'Acrylic Knit', shedding: 900, mix: { MICROPLASTIC: 0.95, SEDIMENT: 0.05 } },
+  { id: 'blend', label: 'Poly-Cotton', shedding: 500, mix: { MICROPLASTIC: 0.5, NATURAL_FIBER: 0.45, SEDIMENT: 0.05 } },
+  { id: 'cotton', label: 'Cotton', shedding: 350, mix: { MICROPLASTIC: 0.03, NATURAL_FIBER: 0.92, SEDIMENT: 0.05 } }
+];
+
+// Contaminants counted as microfibers on the housing and in the cycle results
+export const MICROFIBER_TYPES: ContaminantType[] = ['MICROPLASTIC', 'NATURAL_FIBER'];
+
+export const getProgramDuration = (program: WashProgram) =>
+  program.phases.reduce((sum, phase) => sum + phase.seconds, 0);
+
+export interface CycleState {
+  phaseIndex: number;
+  phase: CyclePhase;
+  elapsed: number;               // Simulated seconds since the cycle started
+  progress: number;              // 0-1 through the whole program
+  flowRate: number;
+  particleDensity: number;
+  done: boolean;
+}
+
+/** Where a program is after `elapsed` simulated seconds, and the flow and fiber load it drains at. */
+export const getCycleState = (program: WashProgram, fabric: FabricType, elapsed: number): CycleState => {
+  const duration = getProgramDuration(program);
+  const clamped = Math.min(duration, Math.max(0, elapsed));
+  let phaseIndex = 0;
+  let phaseStart = 0;
+  while (phaseIndex < program.phases.length - 1 && clamped >= phaseStart + program.phases[phaseIndex].seconds) {
+    phaseStart += program.phases[phaseIndex].seconds;
+    phaseIndex++;
+  }
+  const phase = program.phases[phaseIndex];
+  const t = Math.min(1, (clamped - phaseStart) / phase.seconds);
+  const flowRate = phase.flow[0] + (phase.flow[1] - phase.flow[0]) * t;
+  const particleDensity = Math.round(IDLE_DENSITY + phase.load * (fabric.shedding - IDLE_DENSITY));
+  return {
+    phaseIndex,
+    phase,
+    elapsed: clamped,
+    progress: clamped / duration,
+    flowRate: Math.round(flowRate * 10) / 10,
+    particleDensity,
+    done: elapsed >= duration
+  };
+};
+
+const countFibers = (totals: OutletTotals, outlet: 'permeate' | 'sludge') =>
+  MICROFIBER_TYPES.reduce((sum, type) => sum + (totals[type]?.[outlet] ?? 0), 0);
+
+/** A cycle in progress (or just finished), measured against the engine's outlet totals at its start. */
+export interface WashCycleRun {
+  program: WashProgram;
+  fabric: FabricType;
+  startTime: number;             // Engine time the cycle started at, shifted when the engine restarts
+  baseline: OutletTotals;
+  // Fibers counted on engines that have since restarted
+  carried: { captured: number; escaped: number };
+  state: CycleState;
+  captured: number;              // Microfibers sent to the sludge outlet this cycle
+  escaped: number;               // Microfibers that left with the permeate this cycle
+}
+
+export const startWashCycle = (program: WashProgram, fabric: FabricType, metrics: FilterMetrics): WashCycleRun => ({
+  program,
+  fabric,
+  startTime: metrics.time,
+  baseline: metrics.totals,
+  carried: { captured: 0, escaped: 0 },
+  state: getCycleState(program, fabric, 0),
+  captured: 0,
+  escaped: 0
+});
+
+/** Moves a run on to the time of the latest metrics sample. */
+export const advanceWashCycle = (run: WashCycleRun, metrics: FilterMetrics): WashCycleRun => {
+  // A model reset restarts time and totals; the cycle carries on from where it was against the new ones
+  if (metrics.time < run.startTime + run.state.elapsed) {
+    return {
+      ...run,
+      startTime: metrics.time - run.state.elapsed,
+      baseline: metrics.totals,
+      carried: { captured: run.captured, escaped: run.escaped }
+    };
+  }
+  return {
+    ...run,
+    state: getCycleState(run.program, run.fabric, metrics.time - run.startTime),
+    // Totals are fractional when the model runs above or below detail 1; report whole fibers
+    captured: run.carried.captured + Math.round(countFibers(metrics.totals, 'sludge') - countFibers(run.baseline, 'sludge')),
+    escaped: run.carried.escaped + Math.round(countFibers(metrics.totals, 'permeate') - countFibers(run.baseline, 'permeate'))
+  };
+};
+
+/** Share of this cycle's microfibers caught (0-100), or null before any have reached an outlet. */
+export const getFiberCapture = (run: WashCycleRun) => {
+  const total = run.captured + run.escaped;
+  return total === 0 ? null : (run.captured / total) * 100;
+};
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createFiltrationEngine, FiltrationEngine } from './filtrationEngine';
+import { createParticleFrame, writeParticleFrame } from './particleFrame';
+import { FIXED_TIMESTEP } from './particles';
+import { createWorkerEngine, WorkerFrame, WorkerRequest } from './workerEngine';
+
+const CAPACITY = 2000;
+
+// Stands in for filtrationWorker.ts: answers each advance a macrotask later, as a real worker would
+const createFakeWorker = () => {
+  let engine: FiltrationEngine = createFiltrationEngine();
+  const posted: WorkerRequest[] = [];
+  const worker = {
+    onmessage: null as ((event: MessageEvent<WorkerFrame>) => void) | null,
+    postMessage: (request: WorkerRequest) => {
+      posted.push(request);
+      if (request.type === 'init') engine = createFiltrationEngine(request.options);
+      if (request.type !== 'advance') return;
+      const steps = engine.advance(request.delta);
+      writeParticleFrame(createParticleFrame(0, request.buffer), engine.particles, true);
+      const reply: WorkerFrame = {
+        type: 'frame', buffer: request.buffer, steps, stepCount: engine.stepCount, time: engine.time, metrics: engine.getMetrics(), stepMs: 0
+      };
+      setTimeout(() => worker.onmessage?.({ data: reply } as MessageEvent<WorkerFrame>), 0);
+    },
+    terminate: () => {}
+  };
+  return { worker: worker as unknown as Worker, posted };
+};
+
+describe('createWorkerEngine', () => {
+  it('runs exactly the time asked for in lockstep, whatever the renderer hands it', async () => {
+    const { worker, posted } = createFakeWorker();
+    const engine = createWorkerEngine(worker, { seed: 4 }, CAPACITY);
+    engine.setLockstep(true);
+    let steps = 0;
+    for (let i = 0; i < 30; i++) {
+      await engine.advanceExactly(1 / 30);
+      // A slow frame's large delta must not add time on top
+      steps += engine.advance(0.5);
+    }
+    expect(steps).toBe(60);
+    expect(engine.stepCount).toBe(60);
+    expect(engine.time).toBeCloseTo(60 * FIXED_TIMESTEP, 9);
+    expect(posted.filter(r => r.type === 'advance')).toHaveLength(30);
+    expect(engine.frame).not.toBeNull();
+  });
+
+  it('hands the worker elapsed time only when a buffer is free', () => {
+    const { worker, posted } = createFakeWorker();
+    const engine = createWorkerEngine(worker, { seed: 4 }, CAPACITY);
+    for (let i = 0; i < 4; i++) engine.advance(1 / 60);
+    // Two buffers: the first two frames go out, the rest of the time waits for one to come back
+    expect(posted.filter(r => r.type === 'advance')).toHaveLength(2);
+  });
+
+  it('releases lockstep waiters when disposed', async () => {
+    const { worker } = createFakeWorker();
+    const engine = createWorkerEngine(worker, { seed: 4 }, CAPACITY);
+    engine.advance(1 / 60);
+    engine.dispose();
+    await expect(engine.advanceExactly(1 / 60)).resolves.toBeUndefined();
+  });
+});
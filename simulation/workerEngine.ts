@@ -0,0 +1,141 @@
+import { ContaminantMix, FilterGeometry, FilterMetrics, SizeDistributions } from '../types';
+import { FiltrationEngine, FiltrationEngineOptions } from './filtrationEngine';
+import { Particle } from './particles';
+import { ParticleFrame, createParticleFrame, readParticleFrame } from './particleFrame';
+import { createOutletTally, getTallyMetrics } from './outletTally';
+
+// Main-thread end of a filtration engine running in a Web Worker (see filtrationWorker.ts). The two
+// sides pass a pair of frame buffers back and forth as transferables: the worker fills one while the
+// renderer draws the other. Transfers need no cross-origin isolation, unlike SharedArrayBuffer.
+
+export type WorkerRequest =
+  | { type: 'init'; options: FiltrationEngineOptions }
+  | { type: 'flowRate'; value: number }
+  | { type: 'population'; density: number; mix: ContaminantMix }
+  | { type: 'sizes'; sizes: SizeDistributions }
+  | { type: 'geometry'; geometry: FilterGeometry }
+  | { type: 'detail'; detail: number }
+  | { type: 'step' }
+  | { type: 'reset'; seed?: number }
+  | { type: 'advance'; delta: number; buffer: ArrayBuffer };
+
+export interface WorkerFrame {
+  type: 'frame';
+  buffer: ArrayBuffer;
+  steps: number;                 // Fixed steps run for this frame
+  stepCount: number;
+  time: number;
+  metrics: FilterMetrics;
+  stepMs: number;                // Worker time spent stepping and filling the frame
+}
+
+export interface WorkerEngine extends FiltrationEngine {
+  /** The newest frame from the worker, ready to draw; null until the first one arrives. */
+  readonly frame: ParticleFrame | null;
+  readonly stepMs: number;
+  /**
+   * Offline rendering: while on, `advance` hands the worker no time and only reports steps, and
+   * `advanceExactly` drives the clock instead, so every rendered frame shows exactly the time asked for.
+   */
+  setLockstep: (on: boolean) => void;
+  /** Runs exactly `delta` of simulated time on the worker; resolves once its frame has arrived. */
+  advanceExactly: (delta: number) => Promise<void>;
+  dispose: () => void;
+}
+
+/** Drives `worker` as a FiltrationEngine; `capacity` is the largest population the frames must hold. */
+export const createWorkerEngine = (worker: Worker, options: FiltrationEngineOptions, capacity: number): WorkerEngine => {
+  // Mirror of the worker's population, rebuilt in place from each frame's state
+  const particles: Particle[] = [];
+  const free: ArrayBuffer[] = [createParticleFrame(capacity).buffer, createParticleFrame(capacity).buffer];
+  let frame: ParticleFrame | null = null;
+  let metrics = getTallyMetrics(createOutletTally(), { time: 0, clogIndex: 0, pressureDrop: 0 });
+  let time = 0;
+  let stepCount = 0;
+  let stepMs = 0;
+  // Wall-clock time not yet handed to the worker, and steps it ran that `advance` has not yet reported
+  let pendingDelta = 0;
+  let pendingSteps = 0;
+  let lockstep = false;
+  // Advances posted whose frames have not come back, and callers waiting for them all to arrive
+  let inFlight = 0;
+  let idleWaiters: (() => void)[] = [];
+  let disposed = false;
+
+  const post = (request: WorkerRequest) => worker.postMessage(request);
+
+  const settle = () => {
+    const waiters = idleWaiters;
+    idleWaiters = [];
+    waiters.forEach(resolve => resolve());
+  };
+
+  const whenIdle = () => inFlight === 0 || disposed ? Promise.resolve() : new Promise<void>(resolve => idleWaiters.push(resolve));
+
+  // Returns false when both buffers are still with the worker or on screen
+  const sendAdvance = (delta: number) => {
+    const buffer = disposed ? undefined : free.pop();
+    if (!buffer) return false;
+    worker.postMessage({ type: 'advance', delta, buffer } satisfies WorkerRequest, { transfer: [buffer] });
+    inFlight++;
+    return true;
+  };
+
+  worker.onmessage = (event: MessageEvent<WorkerFrame>) => {
+    const reply = event.data;
+    if (frame) free.push(frame.buffer);
+    frame = createParticleFrame(capacity, reply.buffer);
+    readParticleFrame(frame, particles);
+    metrics = reply.metrics;
+    time = reply.time;
+    stepCount = reply.stepCount;
+    stepMs = reply.stepMs;
+    pendingSteps += reply.steps;
+    inFlight--;
+    if (inFlight === 0) settle();
+  };
+  post({ type: 'init', options });
+
+  return {
+    particles,
+    get frame() { return frame; },
+    get time() { return time; },
+    get stepCount() { return stepCount; },
+    get stepMs() { return stepMs; },
+    getMetrics: () => metrics,
+    setFlowRate: (value) => post({ type: 'flowRate', value }),
+    setPopulation: (density, mix) => post({ type: 'population', density, mix }),
+    setSizeDistributions: (sizes) => post({ type: 'sizes', sizes }),
+    setGeometry: (geometry) => post({ type: 'geometry', geometry }),
+    setDetail: (detail) => post({ type: 'detail', detail }),
+    // Runs on the worker; the result shows with the next frame
+    step: () => post({ type: 'step' }),
+    /** Hands the elapsed time to the worker when a buffer is free; returns the steps of the frames that arrived since. */
+    advance: (delta) => {
+      if (!lockstep) {
+        pendingDelta += delta;
+        if (sendAdvance(pendingDelta)) pendingDelta = 0;
+      }
+      const steps = pendingSteps;
+      pendingSteps = 0;
+      return steps;
+    },
+    reset: (seed) => post({ type: 'reset', seed }),
+    setLockstep: (on) => {
+      lockstep = on;
+      pendingDelta = 0;
+    },
+    advanceExactly: async (delta) => {
+      // Once nothing is in flight, at most one buffer is on screen, so the other is free
+      await whenIdle();
+      sendAdvance(delta);
+      await whenIdle();
+    },
+    dispose: () => {
+      worker.terminate();
+      // Frames in flight will never arrive; let anyone waiting on them carry on
+      disposed = true;
+      settle();
+    }
+  };
+};
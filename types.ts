@@ -1,20 +1,277 @@
+import type { ContaminantId } from './simulation/contaminants';
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  // Set on replies that report a provider failure; these are never sent back to the model
+  error?: boolean;
+  // Summaries of the simulation changes BioGuide made while producing this reply
+  actions?: string[];
+}
+
+// SIEVE shows the cross-flow filter beside a conventional dead-end mesh
+export type ViewMode = 'NATURE' | 'PRODUCT' | 'SIEVE' | 'CASCADE';
+
+export type CameraTarget = 'INLET' | 'RAKERS' | 'SLUDGE_OUTLET';
+
+// World-space camera placement and the orbit point it looks at
+export interface CameraPose {
+  position: [number, number, number];
+  target: [number, number, number];
 }
 
-export type ViewMode = 'NATURE' | 'PRODUCT';
+// Slicing plane through the filter axis and the flow-field overlay drawn on it
+export interface SectionSettings {
+  enabled: boolean;
+  angle: number;                 // Degrees around the axis; 0 cuts through the middle of the raker arc
+  arrows: boolean;
+  streamlines: boolean;
+  recirculation: boolean;
+}
+
+// Where the live filter's physics runs and how many particles it draws
+export type SimulationThread = 'main' | 'worker';
+
+export interface PerformanceSettings {
+  thread: SimulationThread;
+  detail: number;                // Particles per feed particle, water included; the most adaptive mode may use
+  adaptive: boolean;             // Lower the detail while the frame rate stays low
+}
+
+export interface PerformanceReadings {
+  fps: number;
+  detail: number;                // Detail in use, below the setting when adaptive mode has stepped down
+  particles: number;
+  stepMs: number | null;         // Worker time per frame; null on the main thread
+}
+
+// A camera move request; the nonce makes repeated requests for the same target fire again
+export interface CameraFocus {
+  target: CameraTarget | CameraPose;
+  nonce: number;
+}
 
 export interface SimulationState {
   flowRate: number;
   particleDensity: number;
   efficiency: number;
   isRunning: boolean;
+  separation: SeparationStats;
+  contaminantMix: ContaminantMix;
+  particleSizes: SizeDistributions;
+}
+
+export interface FilterGeometry {
+  archCount: number;
+  archSpacing: number;   // Axial distance between arches
+  inletRadius: number;   // Radius of the first arch
+  coneTaper: number;     // Radius lost per unit of depth
+  rakerCount: number;    // Rakers per arch
+  rakerLength: number;
+  rakerAngle: number;    // Downstream tilt in degrees, 0 = pointing straight at the axis
+}
+
+// The ids of the contaminant registry (simulation/contaminants.ts); a particle is water or one of them
+export type ContaminantType = ContaminantId;
+export type ParticleType = 'WATER' | ContaminantType;
+
+// Relative weights of each contaminant in the particle load; they need not sum to 1, and missing types weigh 0
+export type ContaminantMix = Partial<Record<ContaminantType, number>>;
+
+// Log-normal particle size distribution of one contaminant
+export interface SizeDistribution {
+  medianDiameter: number;        // mm
+  spread: number;                // Geometric standard deviation (1 = every particle the same size)
+  density: number;               // g/cm³
+}
+
+export type SizeDistributions = Record<ContaminantType, SizeDistribution>;
+
+// One bin of the cut-size curve
+export interface CutSizePoint {
+  diameter: number;              // Bin centre in mm
+  capture: number;               // % of solids of this size sent to the sludge outlet
+  samples: number;               // Decayed number of solids behind the estimate
+}
+
+export interface OutletStats {
+  permeate: number;
+  sludge: number;
+  // Share sent to the correct outlet (%): permeate for water, sludge for solids
+  efficiency: number;
+}
+
+export type SeparationStats = Record<ParticleType, OutletStats>;
+
+// One filter in a multi-stage train; see simulation/cascadeEngine.ts
+export interface CascadeStage {
+  geometry: FilterGeometry;
+  feedFrom: 'permeate' | 'sludge';   // Outlet of the previous stage this stage treats; ignored for the first stage
+  flowSplit: number;                 // Share (0-1) of that outlet's stream routed through this stage; the rest bypasses it
+}
+
+export interface CascadeMetrics {
+  time: number;
+  train: FilterMetrics;              // What leaves the train as a whole, by final outlet
+  stages: FilterMetrics[];           // Each stage on its own feed
+}
+
+// Particles of each type that have left through each outlet
+export type OutletTotals = Record<ParticleType, { permeate: number; sludge: number }>;
+
+export interface FilterMetrics {
+  time: number;                  // Simulated seconds since the run started
+  efficiency: number;
+  separation: SeparationStats;
+  permeateThroughput: number;    // Water particles per second leaving through the permeate
+  concentrationFactor: number;   // Solids fraction of the sludge relative to the feed
+  clogIndex: number;             // % of solids in the raker zone pressed against the raker wall
+  pressureDrop: number;          // Pa across the raker wall (or screen) driving the permeate out
+  cutSizeCurve: CutSizePoint[];  // Capture vs. particle diameter over the last CUT_SIZE_WINDOW seconds
+  d50: number | null;            // Diameter (mm) captured half the time, if the curve crosses 50%
+  totals: OutletTotals;          // Feed particles per outlet since the model was reset, never decayed
+  sludgeMass: Record<ContaminantType, number>;   // mg of each solid sent to the sludge since the model was reset
 }
 
-export enum ParticleType {
-  WATER = 'WATER',
-  MICROPLASTIC = 'MICROPLASTIC',
-  ALGAE = 'ALGAE',
-  SEDIMENT = 'SEDIMENT'
-}
\ No newline at end of file
+// How a metric moved over the snapshot's trend window
+export interface MetricTrend {
+  current: number;
+  min: number;
+  max: number;
+  change: number;                // current minus the value at the start of the window
+}
+
+export interface MetricTrends {
+  windowSeconds: number;
+  efficiency: MetricTrend;
+  permeateThroughput: MetricTrend;
+  concentrationFactor: MetricTrend;
+  clogIndex: MetricTrend;
+}
+
+// Latest metrics sample of one filter plus how it has been trending
+export interface MeasuredSnapshot extends Omit<FilterMetrics, 'time' | 'totals' | 'sludgeMass' | 'separation'> {
+  separation: Partial<SeparationStats>;   // Types that recently left the filter
+  simulatedSeconds: number;
+  trends: MetricTrends;
+}
+
+/** A serializable picture of what the user is looking at, used to ground BioGuide's answers. */
+export interface SimulationSnapshot {
+  version: number;
+  viewMode: ViewMode;
+  isRunning: boolean;
+  flowRate: number;
+  particleDensity: number;
+  contaminantMix: { preset: string; fractions: ContaminantMix };
+  geometry: FilterGeometry & { preset: string };
+  particleSizes: Partial<SizeDistributions>;  // Types in the current mix
+  population: Partial<Record<ParticleType, number>>;  // Particles of each type currently in the scene
+  measured: MeasuredSnapshot | null;          // Null until the first metrics sample arrives
+  sieve: MeasuredSnapshot | null;             // Dead-end sieve running alongside, SIEVE view only
+  washCycle: WashCycleSnapshot | null;        // Running or last finished washing-machine cycle
+  sludgeTank: SludgeTankSnapshot | null;      // Null until the tank has seen a metrics sample
+  cascade: CascadeSnapshot | null;            // Multi-stage train, CASCADE view only
+  quiz: QuizSnapshot | null;                  // Quiz experiment being measured or just graded
+}
+
+// Headline numbers of one stage or the whole train; percentages, d50 in mm
+export interface CascadeReadings {
+  efficiency: number;
+  solidsCapture: number;
+  waterRecovery: number;
+  d50: number | null;
+  concentrationFactor: number;
+  clogIndex: number;
+  pressureDrop: number;
+}
+
+export interface CascadeSnapshot {
+  simulatedSeconds: number;
+  stages: (CascadeReadings & { geometry: string; feedFrom: CascadeStage['feedFrom']; flowSplit: number })[];
+  train: CascadeReadings;
+}
+
+export interface SludgeTankSnapshot {
+  mode: 'auto' | 'manual';
+  status: 'filling' | 'purging' | 'full';
+  capacityGrams: number;
+  purgeThresholdPercent: number;
+  fillPercent: number;
+  contentsGrams: Partial<Record<ContaminantType, number>>;   // Types with sludge in the tank
+  fillRateGramsPerMinute: number;
+  minutesToThreshold: number | null;
+  minutesPerEmptying: number | null;        // Forecast at the current fill rate
+  measuredMinutesPerEmptying: number | null;
+  eventCount: number;                       // Purges, maintenance calls and manual emptyings on record (up to 20)
+  overflowGrams: number;
+}
+
+export interface QuizSnapshot {
+  question: string;
+  metric: string;
+  prediction: 'increase' | 'decrease' | 'same';
+  stage: 'baseline' | 'changed' | 'done';
+  progressPercent: number;                  // Through the current stage's warm-up and measurement
+  baseline: number | null;                  // Measured metric values, once each stage finishes
+  changed: number | null;
+  outcome: 'increase' | 'decrease' | 'same' | null;
+  correct: boolean | null;
+}
+
+export interface WashCycleSnapshot {
+  program: string;
+  fabric: string;
+  phase: string;
+  elapsedSeconds: number;
+  durationSeconds: number;
+  done: boolean;
+  microfibersCaptured: number;
+  microfibersEscaped: number;
+}
+
+/** A named, shareable simulation setup; see services/scenarioService.ts for the file and URL formats. */
+export interface Scenario {
+  version: number;
+  name: string;
+  viewMode: ViewMode;
+  flowRate: number;
+  particleDensity: number;
+  isRunning: boolean;
+  contaminantMix: ContaminantMix;
+  particleSizes: SizeDistributions;
+  geometry: FilterGeometry;
+  cascade?: CascadeStage[];      // Missing in files saved before cascades existed
+  camera: CameraPose | null;
+}
+
+// Scene elements a tour step can point out; the same places the camera can focus on
+export type SceneHighlight = CameraTarget;
+
+// Simulation settings a tour step applies; anything left out keeps its current value
+export interface TourSettings {
+  flowRate?: number;
+  particleDensity?: number;
+  isRunning?: boolean;
+  contaminantMix?: ContaminantMix;
+  geometry?: FilterGeometry;
+}
+
+export interface TourStep {
+  title: string;
+  caption: string;
+  viewMode?: ViewMode;
+  camera?: CameraTarget | CameraPose;
+  settings: TourSettings;
+  highlight: SceneHighlight[];
+  duration: number | null;       // Seconds before the tour moves on by itself; null waits for Next
+}
+
+/** A scripted lesson of camera moves, settings and captions; see services/tourService.ts for the file format. */
+export interface Tour {
+  version: number;
+  id: string;
+  title: string;
+  description: string;
+  steps: TourStep[];
+}